@@ -0,0 +1,166 @@
+import { randomUUID } from "crypto";
+import { Context, MiddlewareHandler } from "hono";
+import { StatusCode } from "hono/utils/http-status";
+import { QuotaExceededError } from "./quota-tracker.js";
+
+// Types and Interfaces
+// Machine-readable error codes of the API
+type ApiErrorCode =
+  | "VALIDATION_ERROR"
+  | "UNAUTHORIZED"
+  | "FORBIDDEN"
+  | "NOT_FOUND"
+  | "RATE_LIMITED"
+  | "QUOTA_EXCEEDED"
+  | "PROVIDER_UNAVAILABLE"
+  | "INTERNAL_ERROR";
+
+// One problem with a request: where it is ("companies[2].company_domain")
+// and what's wrong
+interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// Body of every error response
+interface ErrorEnvelope {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    details?: unknown;
+    request_id: string;
+  };
+}
+
+// Hono context variables set by the request id middleware
+type RequestIdVariables = { requestId: string };
+
+const ERROR_STATUSES: Record<ApiErrorCode, StatusCode> = {
+  VALIDATION_ERROR: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  RATE_LIMITED: 429,
+  QUOTA_EXCEEDED: 429,
+  PROVIDER_UNAVAILABLE: 503,
+  INTERNAL_ERROR: 500,
+};
+
+// Incoming request ids are echoed back only when they look like ids
+const REQUEST_ID = /^[\w-]{1,128}$/;
+
+// An error whose message is safe to show to API clients
+class ApiError extends Error {
+  code: ApiErrorCode;
+  status: StatusCode;
+  details?: unknown;
+
+  constructor(code: ApiErrorCode, message: string, details?: unknown, status?: StatusCode) {
+    super(message);
+    this.name = "ApiError";
+    this.code = code;
+    this.status = status ?? ERROR_STATUSES[code];
+    this.details = details;
+  }
+}
+
+// Invalid input: a malformed body, an unknown title family, a bad cursor
+class ValidationError extends ApiError {
+  constructor(message: string, issues?: ValidationIssue[]) {
+    super("VALIDATION_ERROR", message, issues);
+    this.name = "ValidationError";
+  }
+}
+
+class NotFoundError extends ApiError {
+  constructor(message: string) {
+    super("NOT_FOUND", message);
+    this.name = "NotFoundError";
+  }
+}
+
+// No provider can run the search: none is configured (503), or every
+// provider's requests failed (502)
+class ProviderUnavailableError extends ApiError {
+  constructor(message: string, details?: unknown, status: StatusCode = 503) {
+    super("PROVIDER_UNAVAILABLE", message, details, status);
+    this.name = "ProviderUnavailableError";
+  }
+}
+
+// Sets a request id on every request and its X-Request-Id response header.
+// Clients can pass their own X-Request-Id to correlate logs.
+function requestId(): MiddlewareHandler<{ Variables: RequestIdVariables }> {
+  return async (c, next) => {
+    const incoming = c.req.header("X-Request-Id");
+    const id = incoming && REQUEST_ID.test(incoming) ? incoming : randomUUID();
+    c.set("requestId", id);
+    c.header("X-Request-Id", id);
+    await next();
+  };
+}
+
+// Map any error to its code, status and a message that is safe to return.
+// Unexpected errors get a generic message; the details are only logged.
+function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  if (error instanceof QuotaExceededError) {
+    return new ApiError("QUOTA_EXCEEDED", error.message, {
+      provider: error.provider,
+      period: error.period,
+    });
+  }
+  return new ApiError("INTERNAL_ERROR", "Internal server error");
+}
+
+function errorEnvelope(error: ApiError, requestId: string): ErrorEnvelope {
+  return {
+    error: {
+      code: error.code,
+      message: error.message,
+      ...(error.details !== undefined && { details: error.details }),
+      request_id: requestId,
+    },
+  };
+}
+
+// app.onError handler: every thrown error becomes an error envelope
+function handleError(error: Error, c: Context) {
+  const apiError = toApiError(error);
+  const id: string = c.get("requestId") || randomUUID();
+
+  if (apiError.code === "INTERNAL_ERROR") {
+    console.error(`❌ ${c.req.method} ${c.req.path} failed [${id}]:`, error);
+  }
+
+  // Headers set before the error, like X-RateLimit-*, are kept
+  c.header("X-Request-Id", id);
+  return c.json(errorEnvelope(apiError, id), apiError.status);
+}
+
+// app.notFound handler
+function handleNotFound(c: Context) {
+  return handleError(
+    new NotFoundError(`No route for ${c.req.method} ${c.req.path}`),
+    c
+  );
+}
+
+export {
+  ApiError,
+  ValidationError,
+  NotFoundError,
+  ProviderUnavailableError,
+  ApiErrorCode,
+  ValidationIssue,
+  ErrorEnvelope,
+  RequestIdVariables,
+  ERROR_STATUSES,
+  requestId,
+  toApiError,
+  errorEnvelope,
+  handleError,
+  handleNotFound
+};
@@ -0,0 +1,301 @@
+import { Database } from "bun:sqlite";
+import { createHash, randomBytes, randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import { Context, MiddlewareHandler } from "hono";
+import { ApiError } from "./api-errors.js";
+
+// Types and Interfaces
+// search: run searches, jobs and batches; history: read stored searches and
+// companies; export: download results; admin: manage keys and caches
+type ApiScope = "search" | "history" | "export" | "admin";
+
+interface ApiKey {
+  id: string;
+  name: string;
+  // First characters of the key, to tell keys apart in listings
+  prefix: string;
+  scopes: ApiScope[];
+  // Requests per minute, null for the server default
+  rate_limit: number | null;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+// A newly issued key. The plain key is only ever returned here.
+interface IssuedApiKey {
+  key: string;
+  api_key: ApiKey;
+}
+
+interface NewApiKey {
+  name: string;
+  scopes: ApiScope[];
+  rate_limit?: number | null;
+}
+
+// Repository for API keys. Only a hash of each key is stored.
+interface ApiKeyStore {
+  create(key: NewApiKey): Promise<IssuedApiKey>;
+  // The active key with this plain value, if any
+  verify(key: string): Promise<ApiKey | null>;
+  list(): Promise<ApiKey[]>;
+  revoke(id: string): Promise<ApiKey | null>;
+}
+
+interface ApiKeyRow {
+  id: string;
+  name: string;
+  key_hash: string;
+  prefix: string;
+  scopes: string;
+  rate_limit: number | null;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the bucket is full again
+  reset: number;
+  // Seconds until the next request is allowed, when it isn't
+  retry_after: number;
+}
+
+// Hono context variables set by the auth middleware
+type AuthVariables = { apiKey: ApiKey };
+
+const API_SCOPES: ApiScope[] = ["search", "history", "export", "admin"];
+
+const KEY_PREFIX = "cf_";
+
+const API_KEY_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS api_keys (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    key_hash TEXT NOT NULL UNIQUE,
+    prefix TEXT NOT NULL,
+    scopes TEXT NOT NULL,
+    rate_limit INTEGER,
+    created_at TEXT NOT NULL,
+    last_used_at TEXT,
+    revoked_at TEXT
+  );
+`;
+
+// Keys are 32 random bytes, so a plain SHA-256 can't be brute-forced
+function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+class SqliteApiKeyStore implements ApiKeyStore {
+  private db: Database;
+
+  constructor(filename: string) {
+    if (filename !== ":memory:") {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL;");
+    this.db.exec(API_KEY_SCHEMA);
+  }
+
+  async create(key: NewApiKey): Promise<IssuedApiKey> {
+    const id = randomUUID();
+    const plain = `${KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+
+    this.db
+      .prepare(
+        `INSERT INTO api_keys (id, name, key_hash, prefix, scopes, rate_limit, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        id,
+        key.name,
+        hashApiKey(plain),
+        plain.slice(0, KEY_PREFIX.length + 6),
+        JSON.stringify(key.scopes),
+        key.rate_limit ?? null,
+        new Date().toISOString()
+      );
+
+    return { key: plain, api_key: this.get(id)! };
+  }
+
+  async verify(key: string): Promise<ApiKey | null> {
+    const row = this.db
+      .query<ApiKeyRow, [string]>(
+        "SELECT * FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL"
+      )
+      .get(hashApiKey(key));
+    if (!row) {
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    this.db.prepare("UPDATE api_keys SET last_used_at = ? WHERE id = ?").run(now, row.id);
+    return this.toApiKey({ ...row, last_used_at: now });
+  }
+
+  async list(): Promise<ApiKey[]> {
+    return this.db
+      .query<ApiKeyRow, []>("SELECT * FROM api_keys ORDER BY created_at")
+      .all()
+      .map((row) => this.toApiKey(row));
+  }
+
+  async revoke(id: string): Promise<ApiKey | null> {
+    this.db
+      .prepare(
+        "UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL"
+      )
+      .run(new Date().toISOString(), id);
+    return this.get(id);
+  }
+
+  private get(id: string): ApiKey | null {
+    const row = this.db
+      .query<ApiKeyRow, [string]>("SELECT * FROM api_keys WHERE id = ?")
+      .get(id);
+    return row ? this.toApiKey(row) : null;
+  }
+
+  private toApiKey(row: ApiKeyRow): ApiKey {
+    return {
+      id: row.id,
+      name: row.name,
+      prefix: row.prefix,
+      scopes: JSON.parse(row.scopes),
+      rate_limit: row.rate_limit,
+      created_at: row.created_at,
+      last_used_at: row.last_used_at,
+      revoked_at: row.revoked_at,
+    };
+  }
+}
+
+// Token bucket per key: a full bucket allows a burst of `limit` requests,
+// and it refills at `limit` tokens per minute. In memory, so buckets start
+// full again after a restart.
+class TokenBucketLimiter {
+  private buckets: Map<string, { tokens: number; updated: number }> = new Map();
+
+  take(id: string, limit: number): RateLimitResult {
+    const now = Date.now();
+    const perSecond = limit / 60;
+    const bucket = this.buckets.get(id) || { tokens: limit, updated: now };
+
+    const tokens = Math.min(
+      limit,
+      bucket.tokens + ((now - bucket.updated) / 1000) * perSecond
+    );
+    const allowed = tokens >= 1;
+    const left = allowed ? tokens - 1 : tokens;
+    this.buckets.set(id, { tokens: left, updated: now });
+
+    return {
+      allowed,
+      limit,
+      remaining: Math.floor(left),
+      reset: Math.ceil((limit - left) / perSecond),
+      retry_after: allowed ? 0 : Math.ceil((1 - left) / perSecond),
+    };
+  }
+}
+
+// Key from "Authorization: Bearer <key>", "X-API-Key: <key>" or, for
+// EventSource clients that can't set headers, the api_key query parameter
+function readApiKey(c: Context): string | undefined {
+  const authorization = c.req.header("Authorization");
+  const bearer = authorization?.match(/^Bearer\s+(\S+)$/i);
+  return bearer?.[1] || c.req.header("X-API-Key") || c.req.query("api_key");
+}
+
+// Rejects requests without a valid key (401) and keys over their rate limit
+// (429) with an ApiError, and sets the X-RateLimit-* headers. ADMIN_API_KEY style bootstrap
+// keys are accepted with every scope without being stored.
+function apiKeyAuth(
+  store: ApiKeyStore,
+  limiter: TokenBucketLimiter,
+  defaultLimit: number,
+  bootstrapKey?: string
+): MiddlewareHandler<{ Variables: AuthVariables }> {
+  const bootstrap: ApiKey | null = bootstrapKey
+    ? {
+        id: "bootstrap",
+        name: "ADMIN_API_KEY",
+        prefix: bootstrapKey.slice(0, KEY_PREFIX.length + 6),
+        scopes: API_SCOPES,
+        rate_limit: null,
+        created_at: new Date().toISOString(),
+        last_used_at: null,
+        revoked_at: null,
+      }
+    : null;
+
+  const bootstrapHash = bootstrapKey ? hashApiKey(bootstrapKey) : null;
+
+  return async (c, next) => {
+    const key = readApiKey(c);
+    if (!key) {
+      throw new ApiError("UNAUTHORIZED", "An API key is required");
+    }
+
+    // Compare hashes so the comparison time doesn't depend on the key
+    const apiKey =
+      bootstrap && hashApiKey(key) === bootstrapHash
+        ? bootstrap
+        : await store.verify(key);
+    if (!apiKey) {
+      throw new ApiError("UNAUTHORIZED", "Invalid or revoked API key");
+    }
+
+    const rate = limiter.take(apiKey.id, apiKey.rate_limit ?? defaultLimit);
+    c.header("X-RateLimit-Limit", String(rate.limit));
+    c.header("X-RateLimit-Remaining", String(rate.remaining));
+    c.header("X-RateLimit-Reset", String(rate.reset));
+    if (!rate.allowed) {
+      c.header("Retry-After", String(rate.retry_after));
+      throw new ApiError("RATE_LIMITED", "Rate limit exceeded", {
+        retry_after: rate.retry_after,
+      });
+    }
+
+    c.set("apiKey", apiKey);
+    await next();
+  };
+}
+
+// Rejects keys without the scope (403). Admin keys have every scope.
+function requireScope<E extends { Variables: AuthVariables }>(
+  scope: ApiScope
+): MiddlewareHandler<E> {
+  return async (c, next) => {
+    const apiKey = c.get("apiKey");
+    if (!apiKey || !(apiKey.scopes.includes(scope) || apiKey.scopes.includes("admin"))) {
+      throw new ApiError("FORBIDDEN", `This API key lacks the "${scope}" scope`);
+    }
+    await next();
+  };
+}
+
+export {
+  SqliteApiKeyStore,
+  TokenBucketLimiter,
+  ApiKeyStore,
+  ApiKey,
+  ApiScope,
+  IssuedApiKey,
+  NewApiKey,
+  RateLimitResult,
+  AuthVariables,
+  API_SCOPES,
+  apiKeyAuth,
+  requireScope,
+  hashApiKey
+};
@@ -0,0 +1,774 @@
+import { v } from "./validation.js";
+import { SearchRequest } from "./search-pipeline.js";
+import { MergedProfile } from "./profile-merger.js";
+import { CACHE_MODES } from "./search-cache.js";
+import { API_SCOPES, NewApiKey } from "./api-keys.js";
+import { ApiErrorCode, ERROR_STATUSES } from "./api-errors.js";
+import { SyncOptions, SyncState } from "./crm-sync.js";
+import {
+  ExportFormat,
+  ExportColumnId,
+  EXPORT_FORMAT_NAMES,
+  EXPORT_COLUMN_IDS,
+} from "./export.js";
+
+// Types and Interfaces
+interface JobRequest extends SearchRequest {
+  provider?: string;
+  callback_url?: string;
+}
+
+// A company of a company batch: a name, or a name and its website
+type BatchCompany = string | { company: string; company_domain?: string };
+
+interface CompanyBatchRequest extends SearchRequest {
+  companies: BatchCompany[];
+}
+
+// Rows of a JSON batch, as a plain list or with a provider for every row
+type BatchRequest = unknown[] | { requests: unknown[]; provider?: string };
+
+// Query parameters that override a search request's body
+interface SearchOptionsQuery {
+  provider?: string;
+  fields?: (keyof MergedProfile)[];
+  min_confidence?: number;
+  cache?: SearchRequest["cache"];
+  fallback?: boolean;
+  dry_run?: boolean;
+  only_new?: boolean;
+}
+
+interface HistoryQuery {
+  limit?: number;
+  cursor?: string;
+  from?: string;
+  to?: string;
+  region?: string;
+  sector?: string;
+  provider?: string;
+}
+
+interface ExportQuery {
+  format?: ExportFormat;
+  columns?: ExportColumnId[];
+}
+
+// Batch results can also be read as JSON
+interface BatchResultsQuery {
+  format?: ExportFormat | "json";
+  columns?: ExportColumnId[];
+}
+
+interface CompaniesQuery {
+  limit?: number;
+  q?: string;
+  flagged?: boolean;
+  min_people?: number;
+}
+
+interface CrmSyncRequest extends Omit<SyncOptions, "criteria"> {
+  search_id: number;
+}
+
+interface SyncStatusQuery {
+  status?: SyncState;
+  limit?: number;
+}
+
+// Fields that can be requested with the `fields` selector
+const PROFILE_FIELDS: (keyof MergedProfile)[] = [
+  "name",
+  "title",
+  "company",
+  "linkedin_url",
+  "snippet",
+  "confidence_score",
+  "location",
+  "sources",
+  "found_by",
+  "company_size",
+  "field_confidence",
+  "score_breakdown",
+];
+
+// Companies per POST /api/search/companies request
+const MAX_BATCH_COMPANIES = 25;
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const text = (max: number = 200) => v.string().min(1).max(max);
+
+const fieldsSchema = v
+  .array(v.enum(PROFILE_FIELDS))
+  .describe("Profile fields to return, all by default");
+
+const providerSchema = text(100).describe(
+  'Provider name, a comma separated list of names, or "all"'
+);
+
+// Requests
+
+// Body of POST /api/search/profiles, and the request of jobs and batch rows
+const searchRequestSchema = v.object<SearchRequest>({
+  job_title: text().optional().describe("Free-form title, e.g. \"VP Engineering\""),
+  titles: v.array(text()).min(1).max(20).optional(),
+  title_family: text(100).optional().describe("Title family from the catalog, default cto"),
+  company: text().optional().describe("Scope the search to one company"),
+  company_domain: text(253).optional().describe("The company's website, e.g. acme.com"),
+  region: text().optional(),
+  company_sector: text().optional(),
+  company_type: text().optional(),
+  company_size: text().optional(),
+  languages: v
+    .array(v.string().pattern(/^[a-z]{2,3}(?:-[a-z0-9]{2,8})?$/i, "language code"))
+    .max(10)
+    .optional(),
+  num_results: v.integer().min(1).max(100).optional(),
+  get_all_pages: v.boolean().optional(),
+  min_confidence: v.number().min(0).max(100).optional(),
+  fields: fieldsSchema.optional(),
+  cache: v.enum(CACHE_MODES).optional(),
+  fallback: v.boolean().optional(),
+  dry_run: v.boolean().optional(),
+  only_new: v.boolean().optional(),
+}).named("SearchRequest");
+
+// Query parameters every search route takes, with POST as well as GET
+const searchOptionsQuerySchema = v
+  .object<SearchOptionsQuery>({
+    provider: providerSchema.optional(),
+    fields: fieldsSchema.optional(),
+    min_confidence: v.number().min(0).max(100).optional(),
+    cache: v.enum(CACHE_MODES).optional(),
+    fallback: v.boolean().optional(),
+    dry_run: v.boolean().optional(),
+    only_new: v.boolean().optional(),
+  })
+  .loose();
+
+// GET /api/search/profiles/stream: the whole request in the query string,
+// lists comma separated
+const searchQuerySchema = searchRequestSchema
+  .extend<SearchRequest & SearchOptionsQuery>({ provider: providerSchema.optional() })
+  .loose();
+
+const jobRequestSchema = searchRequestSchema
+  .extend<JobRequest>({
+    provider: providerSchema.optional(),
+    callback_url: v
+      .string()
+      .max(2048)
+      .pattern(/^https?:\/\/\S+$/, "http(s) URL")
+      .optional()
+      .describe("Called with the job's outcome when it finishes"),
+  })
+  .named("JobRequest");
+
+const companyBatchSchema = searchRequestSchema
+  .omit("company", "company_domain")
+  .extend<CompanyBatchRequest>({
+    companies: v
+      .array(
+        v.union<BatchCompany>(
+          text(),
+          v.object({ company: text(), company_domain: text(253).optional() })
+        )
+      )
+      .min(1)
+      .max(MAX_BATCH_COMPANIES),
+  })
+  .named("CompanyBatchRequest");
+
+// Rows are checked one by one when the batch is submitted, so one bad row
+// doesn't reject the others
+const batchRowsSchema = v
+  .array(v.unknown().describe("A search request, optionally with its own provider"))
+  .min(1);
+const batchRequestSchema = v.union<BatchRequest>(
+  batchRowsSchema,
+  v.object({ requests: batchRowsSchema, provider: providerSchema.optional() })
+);
+
+const exportColumnsSchema = v
+  .array(v.enum(EXPORT_COLUMN_IDS))
+  .min(1)
+  .optional()
+  .describe("Columns in order, comma separated; vcf has fixed fields");
+
+const batchResultsQuerySchema = v
+  .object<BatchResultsQuery>({
+    format: v.enum([...EXPORT_FORMAT_NAMES, "json"]).optional(),
+    columns: exportColumnsSchema,
+  })
+  .loose();
+
+const exportQuerySchema = v
+  .object<ExportQuery>({
+    format: v.enum(EXPORT_FORMAT_NAMES).optional(),
+    columns: exportColumnsSchema,
+  })
+  .loose();
+
+const historyQuerySchema = v
+  .object<HistoryQuery>({
+    limit: v.integer().min(1).max(50).optional(),
+    cursor: text(100).optional(),
+    from: v.string().pattern(ISO_TIMESTAMP, "date-time").optional(),
+    to: v.string().pattern(ISO_TIMESTAMP, "date-time").optional(),
+    region: text().optional(),
+    sector: text().optional(),
+    provider: text(100).optional(),
+  })
+  .loose();
+
+const companiesQuerySchema = v
+  .object<CompaniesQuery>({
+    limit: v.integer().min(1).max(200).optional(),
+    q: text().optional(),
+    flagged: v.boolean().optional(),
+    min_people: v.integer().min(1).optional(),
+  })
+  .loose();
+
+const crmSyncRequestSchema = v
+  .object<CrmSyncRequest>({
+    search_id: v.integer().min(1).describe("Stored search whose profiles are pushed"),
+    dry_run: v
+      .boolean()
+      .optional()
+      .describe("Report what would change without writing to the CRM"),
+    force: v
+      .boolean()
+      .optional()
+      .describe("Also compare profiles that haven't changed since their last sync"),
+  })
+  .named("CrmSyncRequest");
+
+const syncStatusQuerySchema = v
+  .object<SyncStatusQuery>({
+    status: v.enum(["synced", "failed"]).optional(),
+    limit: v.integer().min(1).max(200).optional(),
+  })
+  .loose();
+
+const apiKeySchema = v
+  .object<NewApiKey>({
+    name: text(100),
+    scopes: v.array(v.enum(API_SCOPES)).min(1),
+    rate_limit: v
+      .integer()
+      .min(1)
+      .nullable()
+      .optional()
+      .describe("Requests per minute, the server default when null"),
+  })
+  .named("NewApiKey");
+
+// Numeric path parameters such as /api/searches/:id
+const numericIdSchema = v.object<{ id: number }>({ id: v.integer().min(1) });
+
+// Responses. Response schemas aren't used to parse anything at runtime;
+// they document the API and can check that a response matches the spec.
+const timestamp = () => v.string().describe("ISO timestamp");
+const stringList = () => v.array(v.string());
+const errorCodeSchema = v.enum(Object.keys(ERROR_STATUSES) as ApiErrorCode[]);
+
+const locationSchema = v
+  .object({
+    city: v.string().nullable(),
+    region: v.string().nullable(),
+    country: v.string().nullable(),
+    iso_code: v.string().nullable().describe("ISO 3166-1 alpha-2 country code"),
+  })
+  .named("ProfileLocation");
+
+const profileSchema = v
+  .object({
+    name: v.string(),
+    title: v.string(),
+    company: v.string(),
+    linkedin_url: v.string(),
+    snippet: v.string(),
+    confidence_score: v.number().min(0).max(100),
+    location: locationSchema.optional(),
+    sources: stringList(),
+    company_size: v
+      .object({
+        bucket: v.string().nullable(),
+        method: v.enum(["employee_count", "keyword", "none"]),
+        evidence: v.string().nullable(),
+      })
+      .named("CompanySizeInference")
+      .optional(),
+    field_confidence: v
+      .object({ name: v.number(), title: v.number(), company: v.number() })
+      .describe("Parser confidence (0-1) in the name, title and company")
+      .optional(),
+    score_breakdown: v
+      .array(
+        v
+          .object({ feature: v.string(), points: v.number(), reason: v.string() })
+          .named("ScoreContribution")
+      )
+      .optional(),
+  })
+  .named("Profile");
+
+const mergedProfileSchema = profileSchema
+  .extend({
+    found_by: stringList().describe("Providers that returned the profile"),
+  })
+  .named("MergedProfile");
+
+// Profiles reduced to the fields asked for with `fields`
+const selectedProfileSchema = mergedProfileSchema
+  .partial()
+  .named("SelectedProfile")
+  .describe("A profile with the fields selected by `fields`, every field by default");
+
+const providerErrorSchema = v
+  .object({
+    provider: v.string(),
+    error: v.string(),
+    status: v.integer().nullable().optional(),
+    pages_failed: v.integer().optional(),
+  })
+  .named("ProviderError");
+
+const searchResponseSchema = v
+  .object({
+    search_id: v.integer(),
+    query: v.string(),
+    providers: stringList(),
+    total_results: v.integer(),
+    search_time: v.number(),
+    linkedin_urls: stringList(),
+    profiles: v.array(selectedProfileSchema),
+    provider_coverage: v.array(
+      v
+        .object({ provider: v.string(), found: v.integer(), unique: v.integer() })
+        .named("ProviderCoverage")
+    ),
+    provider_errors: v.array(providerErrorSchema),
+    provider_fallbacks: v.array(
+      v.object({ from: v.string(), to: v.string() }).named("ProviderFallback")
+    ),
+    quota_exhausted: stringList(),
+    pages_failed: v.integer(),
+    skipped_seen: v.integer(),
+    timestamp: timestamp(),
+  })
+  .named("SearchResponse");
+
+const searchPlanSchema = v
+  .object({
+    dry_run: v.boolean(),
+    title_family: v.string(),
+    providers: v.array(
+      v.object({
+        provider: v.string(),
+        queries: stringList(),
+        max_requests: v
+          .integer()
+          .describe("Most provider requests the search would send, before retries"),
+      })
+    ),
+  })
+  .named("SearchPlan")
+  .describe("The provider queries a dry run would send");
+
+const companyBatchResponseSchema = v
+  .object({
+    results: v.array(
+      v
+        .object({
+          company: v.string(),
+          company_domain: v.string().optional(),
+          search_id: v.integer().nullable(),
+          candidate: selectedProfileSchema.nullable(),
+          candidates_found: v.integer(),
+          error: v.string().optional(),
+        })
+        .named("CompanyCandidate")
+    ),
+    timestamp: timestamp(),
+  })
+  .named("CompanyBatchResponse");
+
+const jobStatusSchema = v.enum(["queued", "running", "completed", "failed"]);
+
+const jobAcceptedSchema = v
+  .object({ job_id: v.string(), status: jobStatusSchema, status_url: v.string() })
+  .named("JobAccepted");
+
+const jobSchema = v
+  .object({
+    job_id: v.string(),
+    status: jobStatusSchema,
+    request: searchRequestSchema,
+    provider: v.string().optional(),
+    callback_url: v.string().optional(),
+    pages_fetched: v.integer(),
+    profiles_found: v.integer(),
+    profiles: v
+      .array(
+        profileSchema
+          .extend({ found_by: stringList().optional() })
+          .named("JobProfile")
+      )
+      .describe("Partial results while running, the merged profiles once completed"),
+    search_id: v.integer().nullable(),
+    error: v.string().nullable(),
+    error_code: errorCodeSchema.nullable(),
+    webhook_status: v.enum(["pending", "delivered", "failed"]).nullable(),
+    created_at: timestamp(),
+    updated_at: timestamp(),
+    completed_at: timestamp().nullable(),
+  })
+  .named("SearchJob");
+
+const batchStatusSchema = v
+  .enum(["queued", "running", "completed", "failed"])
+  .describe("failed when every row finished without completing");
+
+const batchRowSchema = v
+  .object({
+    row: v.integer(),
+    request: v.record(v.unknown()).describe("The row's search request as submitted"),
+    provider: v.string().optional(),
+    status: v.enum(["queued", "running", "completed", "failed", "skipped"]),
+    search_id: v.integer().nullable(),
+    profiles_found: v.integer(),
+    new_profiles: v.integer(),
+    error: v.string().nullable(),
+    completed_at: timestamp().nullable(),
+  })
+  .named("BatchRow");
+
+const batchSummarySchema = v
+  .object({
+    batch_id: v.string(),
+    status: batchStatusSchema,
+    provider: v.string().optional(),
+    rows: v.array(batchRowSchema),
+    created_at: timestamp(),
+    updated_at: timestamp(),
+    completed_at: timestamp().nullable(),
+    profiles_found: v.integer(),
+    status_url: v.string(),
+    results_url: v.string(),
+  })
+  .named("SearchBatch");
+
+const batchResultsSchema = v
+  .object({
+    batch_id: v.string(),
+    status: batchStatusSchema,
+    total_results: v.integer(),
+    profiles: v.array(
+      mergedProfileSchema
+        .extend({ batch_rows: v.array(v.integer()) })
+        .named("BatchProfile")
+    ),
+  })
+  .named("BatchResults");
+
+const providersSchema = v.object({
+  providers: v.array(
+    v
+      .object({ name: v.string(), label: v.string(), configured: v.boolean() })
+      .named("SearchProvider")
+  ),
+});
+
+const cacheStatsSchema = v
+  .object({
+    hits: v.integer(),
+    memory_hits: v.integer(),
+    disk_hits: v.integer(),
+    misses: v.integer(),
+    hit_rate: v.number(),
+    api_calls_saved: v.integer(),
+    bypassed: v.integer(),
+    refreshed: v.integer(),
+    memory_entries: v.integer(),
+    disk_entries: v.integer(),
+    ttl_seconds: v.integer(),
+    since: timestamp(),
+  })
+  .named("CacheStats");
+
+const periodUsageSchema = v
+  .object({
+    used: v.integer(),
+    budget: v.integer().nullable(),
+    remaining: v.integer().nullable(),
+    resets_at: timestamp(),
+  })
+  .named("PeriodUsage");
+
+const quotaSchema = v.object({
+  providers: v.array(
+    v
+      .object({
+        provider: v.string(),
+        daily: periodUsageSchema,
+        monthly: periodUsageSchema,
+        exhausted: v.boolean(),
+      })
+      .named("ProviderUsage")
+  ),
+});
+
+const taxonomyEntrySchema = v
+  .object({
+    name: v.string(),
+    label: v.string(),
+    emoji: v.string().optional(),
+    keywords: stringList(),
+    synonyms: stringList(),
+    translations: v.record(stringList()),
+    min_employees: v.integer().optional(),
+    max_employees: v.integer().optional(),
+  })
+  .named("TaxonomyEntry");
+
+const taxonomySchema = v
+  .object({
+    sectors: v.array(taxonomyEntrySchema),
+    company_types: v.array(taxonomyEntrySchema),
+    company_sizes: v.array(taxonomyEntrySchema),
+    languages: stringList(),
+    loaded_at: timestamp(),
+  })
+  .named("Taxonomy");
+
+const titleFamiliesSchema = v.object({
+  families: v.array(
+    v
+      .object({
+        name: v.string(),
+        label: v.string(),
+        titles: stringList(),
+        primary_titles: stringList(),
+      })
+      .named("TitleFamily")
+  ),
+});
+
+const searchRecordSchema = v
+  .object({
+    id: v.integer(),
+    query: v.string(),
+    providers: stringList(),
+    company: v.string().nullable(),
+    region: v.string().optional(),
+    company_sector: v.string().optional(),
+    company_type: v.string().optional(),
+    company_size: v.string().optional(),
+    results_count: v.integer(),
+    search_time: v.number(),
+    timestamp: timestamp(),
+  })
+  .named("SearchRecord");
+
+const historyPageSchema = v
+  .object({
+    searches: v.array(searchRecordSchema),
+    next_cursor: v.string().nullable(),
+  })
+  .named("SearchHistoryPage");
+
+const searchDetailSchema = v.object({
+  search: searchRecordSchema,
+  profiles: v.array(
+    profileSchema
+      .extend({ found_by: stringList().optional() })
+      .named("StoredProfile")
+  ),
+});
+
+const companyListingSchema = v
+  .object({
+    companies: v.array(
+      v
+        .object({
+          company: v.string(),
+          key: v.string(),
+          variants: stringList(),
+          people_count: v.integer(),
+          first_seen_at: timestamp(),
+          last_seen_at: timestamp(),
+          leaders: v.array(
+            v
+              .object({
+                name: v.string(),
+                title: v.string(),
+                linkedin_url: v.string(),
+                confidence_score: v.number(),
+                first_seen_at: timestamp(),
+                last_seen_at: timestamp(),
+                times_seen: v.integer(),
+              })
+              .named("CompanyLeader")
+          ),
+          cto_claimants: v.integer(),
+          flags: v.array(v.enum(["multiple_cto_claimants"])),
+        })
+        .named("CompanySummary")
+    ),
+    total: v.integer(),
+  })
+  .named("CompanyListing");
+
+const apiKeyRecordSchema = v
+  .object({
+    id: v.string(),
+    name: v.string(),
+    prefix: v.string(),
+    scopes: v.array(v.enum(API_SCOPES)),
+    rate_limit: v.integer().nullable(),
+    created_at: timestamp(),
+    last_used_at: timestamp().nullable(),
+    revoked_at: timestamp().nullable(),
+  })
+  .named("ApiKey");
+
+const issuedApiKeySchema = v
+  .object({
+    key: v.string().describe("The plain key, only ever returned here"),
+    api_key: apiKeyRecordSchema,
+  })
+  .named("IssuedApiKey");
+
+const apiKeyListSchema = v.object({ keys: v.array(apiKeyRecordSchema) });
+
+const crmValue = () => v.union<string | number>(v.string(), v.number()).nullable();
+
+const crmSinksSchema = v.object({
+  sinks: v.array(
+    v
+      .object({
+        name: v.string(),
+        label: v.string(),
+        configured: v.boolean(),
+        mapping: v.record(v.string()).describe("CRM field -> export column"),
+      })
+      .named("CrmSink")
+  ),
+});
+
+const syncActionSchema = v.enum(["create", "update", "unchanged", "skipped", "failed"]);
+
+const syncReportSchema = v
+  .object({
+    sink: v.string(),
+    dry_run: v.boolean(),
+    summary: v.record(v.integer()).describe("Profiles per action"),
+    results: v.array(
+      v
+        .object({
+          linkedin_url: v.string(),
+          name: v.string(),
+          action: syncActionSchema,
+          crm_id: v.string().nullable(),
+          changes: v.array(
+            v
+              .object({ field: v.string(), from: crmValue(), to: crmValue() })
+              .named("FieldChange")
+          ),
+          error: v.string().optional(),
+        })
+        .named("SyncResult")
+    ),
+  })
+  .named("SyncReport");
+
+const syncStatusListSchema = v.object({
+  statuses: v.array(
+    v
+      .object({
+        sink: v.string(),
+        profile_key: v.string(),
+        linkedin_url: v.string(),
+        crm_id: v.string().nullable(),
+        fields_hash: v.string(),
+        status: v.enum(["synced", "failed"]),
+        error: v.string().nullable(),
+        synced_at: timestamp(),
+      })
+      .named("SyncStatus")
+  ),
+});
+
+const statusSchema = v.object({ message: v.string(), status: v.string() });
+
+const healthSchema = v.object({ status: v.string(), timestamp: timestamp() });
+
+const errorEnvelopeSchema = v
+  .object({
+    error: v.object({
+      code: errorCodeSchema,
+      message: v.string(),
+      details: v
+        .unknown()
+        .optional()
+        .describe("For VALIDATION_ERROR, a list of { path, message }"),
+      request_id: v.string(),
+    }),
+  })
+  .named("Error");
+
+export {
+  JobRequest,
+  BatchCompany,
+  CompanyBatchRequest,
+  BatchRequest,
+  SearchOptionsQuery,
+  HistoryQuery,
+  CompaniesQuery,
+  ExportQuery,
+  CrmSyncRequest,
+  SyncStatusQuery,
+  PROFILE_FIELDS,
+  MAX_BATCH_COMPANIES,
+  searchRequestSchema,
+  searchOptionsQuerySchema,
+  searchQuerySchema,
+  jobRequestSchema,
+  companyBatchSchema,
+  batchRequestSchema,
+  batchResultsQuerySchema,
+  exportQuerySchema,
+  historyQuerySchema,
+  companiesQuerySchema,
+  crmSyncRequestSchema,
+  syncStatusQuerySchema,
+  apiKeySchema,
+  numericIdSchema,
+  searchResponseSchema,
+  searchPlanSchema,
+  companyBatchResponseSchema,
+  jobAcceptedSchema,
+  jobSchema,
+  batchSummarySchema,
+  batchResultsSchema,
+  providersSchema,
+  cacheStatsSchema,
+  quotaSchema,
+  taxonomySchema,
+  titleFamiliesSchema,
+  historyPageSchema,
+  searchDetailSchema,
+  companyListingSchema,
+  issuedApiKeySchema,
+  apiKeyRecordSchema,
+  apiKeyListSchema,
+  crmSinksSchema,
+  syncReportSchema,
+  syncStatusListSchema,
+  statusSchema,
+  healthSchema,
+  errorEnvelopeSchema
+};
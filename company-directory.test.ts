@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import {
+  CompanyDirectory,
+  CompanyNormalizer,
+  SqliteCompanyIndexStore,
+} from "./company-directory.js";
+import { SqliteSearchStore, StoredProfile } from "./search-store.js";
+
+const normalizer = new CompanyNormalizer("company-aliases.json");
+
+let store: SqliteSearchStore;
+let directory: CompanyDirectory;
+
+beforeEach(() => {
+  store = new SqliteSearchStore(":memory:");
+  directory = new CompanyDirectory(
+    store,
+    new SqliteCompanyIndexStore(":memory:"),
+    normalizer,
+    ["CTO", "Chief Technology Officer"]
+  );
+});
+
+function person(slug: string, title: string, company: string): StoredProfile {
+  return {
+    name: slug,
+    title,
+    company,
+    linkedin_url: `https://www.linkedin.com/in/${slug}`,
+    snippet: "",
+    confidence_score: 80,
+    sources: ["title"],
+  };
+}
+
+async function search(timestamp: string, profiles: StoredProfile[]) {
+  await store.saveSearch(
+    {
+      query: "cto",
+      providers: ["google"],
+      company: null,
+      results_count: profiles.length,
+      search_time: 1,
+      timestamp,
+    },
+    profiles
+  );
+}
+
+describe("CompanyDirectory.list", () => {
+  test("groups spellings of a company and keeps one entry per person", async () => {
+    await search("2025-09-01T10:00:00.000Z", [
+      person("jane", "CTO", "Acme, Inc."),
+      person("john", "VP Engineering", "GLOBEX LABS"),
+    ]);
+    await search("2025-09-02T10:00:00.000Z", [
+      person("jane", "Chief Technology Officer", "Acme Inc"),
+      person("jim", "Engineer", "Globex"),
+    ]);
+
+    const { companies, total } = await directory.list({ limit: 10, q: "acme" });
+
+    expect(total).toBe(1);
+    expect(companies[0]).toMatchObject({
+      company: "Acme",
+      key: "acme",
+      variants: ["Acme, Inc.", "Acme Inc"],
+      people_count: 1,
+      first_seen_at: "2025-09-01T10:00:00.000Z",
+      last_seen_at: "2025-09-02T10:00:00.000Z",
+      cto_claimants: 1,
+      flags: [],
+    });
+    expect(companies[0].leaders).toEqual([
+      {
+        name: "jane",
+        title: "Chief Technology Officer",
+        linkedin_url: "https://www.linkedin.com/in/jane",
+        confidence_score: 80,
+        first_seen_at: "2025-09-01T10:00:00.000Z",
+        last_seen_at: "2025-09-02T10:00:00.000Z",
+        times_seen: 2,
+      },
+    ]);
+  });
+
+  test("picks up searches stored after the last listing", async () => {
+    await search("2025-09-01T10:00:00.000Z", [person("jane", "CTO", "Acme")]);
+    expect((await directory.list({ limit: 10 })).total).toBe(1);
+
+    await search("2025-09-02T10:00:00.000Z", [
+      person("john", "CTO", "Acme"),
+      person("jim", "CTO", "Globex"),
+    ]);
+    const { companies, total } = await directory.list({ limit: 1 });
+
+    expect(total).toBe(2);
+    expect(companies).toHaveLength(1);
+    expect(companies[0]).toMatchObject({ company: "Acme", people_count: 2 });
+  });
+
+  test("flags companies with more than one current CTO", async () => {
+    await search("2025-09-01T10:00:00.000Z", [
+      person("jane", "CTO", "Acme"),
+      person("john", "Chief Technology Officer", "Acme"),
+      person("jim", "CTO", "Globex"),
+      person("joan", "Former CTO", "Globex"),
+    ]);
+
+    const { companies } = await directory.list({ limit: 10, flagged: true });
+
+    expect(companies.map((company) => company.company)).toEqual(["Acme"]);
+    expect(companies[0]).toMatchObject({
+      cto_claimants: 2,
+      flags: ["multiple_cto_claimants"],
+    });
+  });
+
+  test("doesn't count CTOs last seen long before the company's latest sighting", async () => {
+    await search("2024-01-15T10:00:00.000Z", [person("jane", "CTO", "Acme")]);
+    await search("2025-09-01T10:00:00.000Z", [person("john", "CTO", "Acme")]);
+
+    const { companies } = await directory.list({ limit: 10 });
+
+    expect(companies[0]).toMatchObject({ people_count: 2, cto_claimants: 1, flags: [] });
+  });
+});
@@ -0,0 +1,600 @@
+import { Database } from "bun:sqlite";
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import { SearchStore, ProfileSighting } from "./search-store.js";
+import { containsTitle } from "./confidence-scorer.js";
+import { profileKey } from "./linkedin-url.js";
+import { parseJsonFile, v } from "./validation.js";
+
+// Types and Interfaces
+interface NormalizedCompany {
+  // Display name: the alias's canonical name, or the cleaned-up input
+  name: string;
+  // Matching key; spellings of the same company share it
+  key: string;
+}
+
+// A person found at a company, from their latest sighting
+interface CompanyLeader {
+  name: string;
+  title: string;
+  linkedin_url: string;
+  // Best confidence score any search gave them
+  confidence_score: number;
+  first_seen_at: string;
+  last_seen_at: string;
+  times_seen: number;
+}
+
+interface CompanySummary {
+  company: string;
+  key: string;
+  // Company strings as they were extracted
+  variants: string[];
+  people_count: number;
+  first_seen_at: string;
+  last_seen_at: string;
+  leaders: CompanyLeader[];
+  // People whose current title is a CTO title
+  cto_claimants: number;
+  // "multiple_cto_claimants": more than one person claims to be the CTO,
+  // which usually means a parsing error
+  flags: string[];
+}
+
+interface CompanyFilter {
+  limit: number;
+  // Substring of the company name or one of its variants
+  q?: string;
+  // Only companies with flags
+  flagged?: boolean;
+  min_people?: number;
+}
+
+interface CompanyListing {
+  companies: CompanySummary[];
+  total: number;
+}
+
+// A stored search result, normalized for the company index
+interface CompanySighting {
+  profile_id: number;
+  company_key: string;
+  // Normalized display name and the company string as it was extracted
+  company: string;
+  variant: string;
+  profile_key: string;
+  name: string;
+  title: string;
+  linkedin_url: string;
+  confidence_score: number;
+  seen_at: string;
+  // Whether this title claims the CTO role
+  is_cto: boolean;
+}
+
+interface CompanyIndexState {
+  // Last search profile added to the index
+  last_profile_id: number;
+  // Aliases and CTO titles the index was built with
+  fingerprint: string;
+}
+
+// Companies and the people found at each, maintained from the search
+// history as it grows so listing them doesn't re-read every stored result
+interface CompanyIndexStore {
+  state(): Promise<CompanyIndexState>;
+  // Adds sightings and moves the index past lastProfileId in one transaction
+  add(sightings: CompanySighting[], lastProfileId: number): Promise<void>;
+  // Empties the index, to be rebuilt with the settings of the fingerprint
+  reset(fingerprint: string): Promise<void>;
+  list(filter: CompanyFilter): Promise<CompanyListing>;
+}
+
+interface CompanyRow {
+  company_key: string;
+  company: string;
+  people_count: number;
+  first_seen_at: string;
+  last_seen_at: string;
+  cto_claimants: number;
+  total: number;
+}
+
+interface CompanyPersonRow extends CompanyLeader {
+  company_key: string;
+}
+
+// Legal forms stripped from the end of company names, longest first so
+// "GmbH & Co. KG" goes before "KG"
+const LEGAL_SUFFIXES = [
+  "gmbh & co\\.? kg",
+  "sp\\. z o\\.o",
+  "pty\\.? ltd",
+  "pte\\.? ltd",
+  "s\\.à r\\.l",
+  "incorporated",
+  "corporation",
+  "limited",
+  "l\\.l\\.c",
+  "s\\.a\\.s",
+  "s\\.r\\.l",
+  "s\\.p\\.a",
+  "gmbh",
+  "corp",
+  "inc",
+  "llc",
+  "llp",
+  "ltd",
+  "plc",
+  "sarl",
+  "s\\.a",
+  "b\\.v",
+  "n\\.v",
+  "k\\.k",
+  "a/s",
+  "aps",
+  "srl",
+  "spa",
+  "sas",
+  "co",
+  "ag",
+  "se",
+  "sa",
+  "bv",
+  "nv",
+  "oy",
+  "ab",
+  "as",
+  "kg",
+  "lp",
+];
+
+// A legal form after a space or comma, with or without its final dot
+const LEGAL_SUFFIX = new RegExp(`[\\s,]+(?:${LEGAL_SUFFIXES.join("|")})\\.?$`, "i");
+
+const PAST_TITLE = /^(former|formerly|ex|previous|previously|retired)[\s-]+/i;
+
+// People count as a company's CTO claimants if they were seen with a CTO
+// title this close to the company's latest sighting. Older claims are
+// usually a CTO who has since left.
+const CTO_CLAIMANT_WINDOW_DAYS = 90;
+
+// Stored profiles read per transaction while the index catches up
+const INDEX_PAGE_SIZE = 500;
+
+// Bump when the way sightings are indexed changes, to rebuild existing indexes
+const COMPANY_INDEX_VERSION = 1;
+
+const COMPANY_INDEX_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS company_index_state (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    last_profile_id INTEGER NOT NULL,
+    fingerprint TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS company_people (
+    company_key TEXT NOT NULL,
+    profile_key TEXT NOT NULL,
+    name TEXT NOT NULL,
+    title TEXT NOT NULL,
+    linkedin_url TEXT NOT NULL,
+    confidence_score REAL NOT NULL,
+    first_seen_at TEXT NOT NULL,
+    last_seen_at TEXT NOT NULL,
+    times_seen INTEGER NOT NULL DEFAULT 1,
+    is_cto INTEGER NOT NULL,
+    first_profile_id INTEGER NOT NULL,
+    PRIMARY KEY (company_key, profile_key)
+  );
+
+  CREATE TABLE IF NOT EXISTS company_names (
+    company_key TEXT NOT NULL,
+    name TEXT NOT NULL,
+    name_lower TEXT NOT NULL,
+    sightings INTEGER NOT NULL DEFAULT 1,
+    first_profile_id INTEGER NOT NULL,
+    PRIMARY KEY (company_key, name)
+  );
+
+  CREATE TABLE IF NOT EXISTS company_variants (
+    company_key TEXT NOT NULL,
+    variant TEXT NOT NULL,
+    variant_lower TEXT NOT NULL,
+    first_profile_id INTEGER NOT NULL,
+    PRIMARY KEY (company_key, variant)
+  );
+`;
+
+// The latest sighting sets a person's name, title and CTO claim
+const PERSON_UPSERT = `
+  INSERT INTO company_people (company_key, profile_key, name, title, linkedin_url,
+    confidence_score, first_seen_at, last_seen_at, is_cto, first_profile_id)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  ON CONFLICT (company_key, profile_key) DO UPDATE SET
+    name = excluded.name,
+    title = excluded.title,
+    linkedin_url = excluded.linkedin_url,
+    confidence_score = MAX(confidence_score, excluded.confidence_score),
+    last_seen_at = excluded.last_seen_at,
+    times_seen = times_seen + 1,
+    is_cto = excluded.is_cto
+`;
+
+const NAME_UPSERT = `
+  INSERT INTO company_names (company_key, name, name_lower, first_profile_id)
+  VALUES (?, ?, ?, ?)
+  ON CONFLICT (company_key, name) DO UPDATE SET sightings = sightings + 1
+`;
+
+const VARIANT_INSERT = `
+  INSERT OR IGNORE INTO company_variants (company_key, variant, variant_lower,
+    first_profile_id)
+  VALUES (?, ?, ?, ?)
+`;
+
+// Canonical company name -> other names it is known by
+const COMPANY_ALIASES_FILE = v.record(v.array(v.string().min(1)));
+
+function companyKey(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^\p{L}\p{N}]+/gu, "");
+}
+
+// Normalizes extracted company strings: strips legal suffixes (Inc, Ltd,
+// GmbH, ...), fixes all-lowercase and shouted names, and maps known aliases
+// from a JSON file ("Facebook" -> "Meta") to one name
+class CompanyNormalizer {
+  // Key of an alias or canonical name -> canonical name
+  private aliases: Map<string, string> = new Map();
+  // Canonical name -> the names it is known by, itself first
+  private spellings: Map<string, string[]> = new Map();
+  // Hash of the alias file, changes when its contents do
+  readonly fingerprint: string;
+
+  constructor(filePath: string) {
+    const raw: Record<string, string[]> = parseJsonFile(filePath, COMPANY_ALIASES_FILE);
+    this.fingerprint = createHash("sha256").update(JSON.stringify(raw)).digest("hex");
+
+    for (const [name, aliases] of Object.entries(raw)) {
+      for (const alias of [name, ...aliases]) {
+        this.aliases.set(companyKey(this.stripSuffixes(alias)), name);
+      }
+      this.spellings.set(name, [name, ...aliases]);
+    }
+  }
+
+  normalize(company: string): NormalizedCompany | null {
+    const stripped = this.stripSuffixes(company.trim().replace(/\s+/g, " "));
+    const key = companyKey(stripped);
+    if (!key) {
+      return null;
+    }
+
+    const alias = this.aliases.get(key);
+    if (alias) {
+      return { name: alias, key: companyKey(alias) };
+    }
+    return { name: this.fixCase(stripped), key };
+  }
+
+  // Names a company may be written as: its normalized name, the aliases of
+  // that name and the input without its legal form ("Acme Labs, Inc." ->
+  // ["Acme Labs"], "Facebook" -> ["Meta", "Facebook", "Meta Platforms", ...])
+  variants(company: string): string[] {
+    const normalized = this.normalize(company);
+    if (!normalized) {
+      return [];
+    }
+
+    const names = [
+      ...(this.spellings.get(normalized.name) || [normalized.name]),
+      this.stripSuffixes(company.trim().replace(/\s+/g, " ")),
+    ].map((name) => this.stripSuffixes(name));
+
+    // One spelling per case-insensitive name
+    const unique: Map<string, string> = new Map();
+    for (const name of names) {
+      if (!unique.has(name.toLowerCase())) {
+        unique.set(name.toLowerCase(), name);
+      }
+    }
+    return [...unique.values()];
+  }
+
+  // "Acme, Inc." -> "Acme", "Acme GmbH & Co. KG" -> "Acme"
+  private stripSuffixes(name: string): string {
+    let stripped = name.replace(/[\s,;:]+$/, "");
+    for (;;) {
+      // "Johnson & Johnson & Co." leaves a dangling "&"
+      const next = stripped
+        .replace(LEGAL_SUFFIX, "")
+        .replace(/(?:\s+(?:&|and))?[\s,]*$/i, "");
+      // Keep names that are nothing but a legal form
+      if (next === stripped || !next) {
+        return stripped.replace(/[\s.]+$/, "");
+      }
+      stripped = next;
+    }
+  }
+
+  // "acme labs" -> "Acme Labs", "ACME LABS" -> "Acme Labs". Mixed case
+  // ("GitHub") and short acronyms ("IBM") are kept.
+  private fixCase(name: string): string {
+    const letters = name.replace(/[^\p{L}]/gu, "");
+    const lower = name === name.toLowerCase();
+    const shouted = name === name.toUpperCase() && letters.length > 4 && /\s/.test(name);
+    if (!lower && !shouted) {
+      return name;
+    }
+    return name
+      .toLowerCase()
+      .replace(/(^|[\s\-/(])(\p{L})/gu, (_, before, letter) => before + letter.toUpperCase());
+  }
+}
+
+class SqliteCompanyIndexStore implements CompanyIndexStore {
+  private db: Database;
+
+  constructor(filename: string) {
+    if (filename !== ":memory:") {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL;");
+    this.db.exec(COMPANY_INDEX_SCHEMA);
+  }
+
+  async state(): Promise<CompanyIndexState> {
+    return (
+      this.db
+        .query<CompanyIndexState, []>(
+          "SELECT last_profile_id, fingerprint FROM company_index_state WHERE id = 1"
+        )
+        .get() || { last_profile_id: 0, fingerprint: "" }
+    );
+  }
+
+  async add(sightings: CompanySighting[], lastProfileId: number): Promise<void> {
+    const addPerson = this.db.prepare(PERSON_UPSERT);
+    const addName = this.db.prepare(NAME_UPSERT);
+    const addVariant = this.db.prepare(VARIANT_INSERT);
+
+    this.db.transaction(() => {
+      for (const sighting of sightings) {
+        addPerson.run(
+          sighting.company_key,
+          sighting.profile_key,
+          sighting.name,
+          sighting.title,
+          sighting.linkedin_url,
+          sighting.confidence_score,
+          sighting.seen_at,
+          sighting.seen_at,
+          sighting.is_cto ? 1 : 0,
+          sighting.profile_id
+        );
+        addName.run(
+          sighting.company_key,
+          sighting.company,
+          sighting.company.toLowerCase(),
+          sighting.profile_id
+        );
+        addVariant.run(
+          sighting.company_key,
+          sighting.variant,
+          sighting.variant.toLowerCase(),
+          sighting.profile_id
+        );
+      }
+      this.db
+        .prepare("UPDATE company_index_state SET last_profile_id = ? WHERE id = 1")
+        .run(lastProfileId);
+    })();
+  }
+
+  async reset(fingerprint: string): Promise<void> {
+    this.db.transaction(() => {
+      this.db.exec("DELETE FROM company_people");
+      this.db.exec("DELETE FROM company_names");
+      this.db.exec("DELETE FROM company_variants");
+      this.db
+        .prepare(
+          "INSERT OR REPLACE INTO company_index_state (id, last_profile_id, fingerprint) VALUES (1, 0, ?)"
+        )
+        .run(fingerprint);
+    })();
+  }
+
+  async list(filter: CompanyFilter): Promise<CompanyListing> {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (filter.q) {
+      const needle = filter.q.toLowerCase();
+      conditions.push(
+        `company_key IN (
+           SELECT company_key FROM company_names WHERE instr(name_lower, ?) > 0
+           UNION
+           SELECT company_key FROM company_variants WHERE instr(variant_lower, ?) > 0
+         )`
+      );
+      params.push(needle, needle);
+    }
+    if (filter.flagged) {
+      conditions.push("cto_claimants > 1");
+    }
+    if (filter.min_people) {
+      conditions.push("people_count >= ?");
+      params.push(filter.min_people);
+    }
+
+    const rows = this.db
+      .query<CompanyRow, (string | number)[]>(
+        `WITH companies AS (
+           SELECT company_key, COUNT(*) AS people_count,
+             MIN(first_seen_at) AS first_seen_at, MAX(last_seen_at) AS last_seen_at
+           FROM company_people
+           GROUP BY company_key
+         ), summaries AS (
+           SELECT c.*,
+             (SELECT COUNT(*) FROM company_people p
+              WHERE p.company_key = c.company_key AND p.is_cto = 1
+                AND p.last_seen_at >= strftime('%Y-%m-%dT%H:%M:%fZ', c.last_seen_at,
+                  '-${CTO_CLAIMANT_WINDOW_DAYS} days')) AS cto_claimants,
+             -- The most common spelling, the first one seen on ties
+             (SELECT name FROM company_names n
+              WHERE n.company_key = c.company_key
+              ORDER BY n.sightings DESC, n.first_profile_id
+              LIMIT 1) AS company
+           FROM companies c
+         )
+         SELECT *, COUNT(*) OVER () AS total
+         FROM summaries
+         ${conditions.length ? `WHERE ${conditions.join(" AND ")}` : ""}
+         ORDER BY last_seen_at DESC, people_count DESC, company_key
+         LIMIT ?`
+      )
+      .all(...params, filter.limit);
+    if (rows.length === 0) {
+      return { companies: [], total: 0 };
+    }
+
+    const keys = rows.map((row) => row.company_key);
+    const placeholders = keys.map(() => "?").join(", ");
+    const people = this.db
+      .query<CompanyPersonRow, string[]>(
+        `SELECT company_key, name, title, linkedin_url, confidence_score,
+           first_seen_at, last_seen_at, times_seen
+         FROM company_people WHERE company_key IN (${placeholders})
+         ORDER BY confidence_score DESC, first_profile_id`
+      )
+      .all(...keys);
+    const variants = this.db
+      .query<{ company_key: string; variant: string }, string[]>(
+        `SELECT company_key, variant FROM company_variants
+         WHERE company_key IN (${placeholders})
+         ORDER BY first_profile_id`
+      )
+      .all(...keys);
+
+    const companies = rows.map((row) => ({
+      company: row.company,
+      key: row.company_key,
+      variants: variants
+        .filter((variant) => variant.company_key === row.company_key)
+        .map((variant) => variant.variant),
+      people_count: row.people_count,
+      first_seen_at: row.first_seen_at,
+      last_seen_at: row.last_seen_at,
+      leaders: people
+        .filter((person) => person.company_key === row.company_key)
+        .map(({ company_key: _, ...leader }) => leader),
+      cto_claimants: row.cto_claimants,
+      flags: row.cto_claimants > 1 ? ["multiple_cto_claimants"] : [],
+    }));
+
+    return { companies, total: rows[0].total };
+  }
+}
+
+// Companies clustered from the stored search results, with the people found
+// at each. The index catches up with the search history before every
+// listing, so it reflects searches from both the API and the bot.
+class CompanyDirectory {
+  private store: SearchStore;
+  private index: CompanyIndexStore;
+  private normalizer: CompanyNormalizer;
+  private ctoTitles: string[];
+  // Catch-up in progress; listings wait for it instead of indexing twice
+  private indexing: Promise<void> = Promise.resolve();
+
+  constructor(
+    store: SearchStore,
+    index: CompanyIndexStore,
+    normalizer: CompanyNormalizer,
+    ctoTitles: string[]
+  ) {
+    this.store = store;
+    this.index = index;
+    this.normalizer = normalizer;
+    this.ctoTitles = ctoTitles;
+  }
+
+  async list(filter: CompanyFilter): Promise<CompanyListing> {
+    const indexing = this.indexing.then(() => this.catchUp());
+    this.indexing = indexing.catch(() => undefined);
+    await indexing;
+
+    return this.index.list(filter);
+  }
+
+  // Adds the search results stored since the last listing. Changed aliases
+  // or CTO titles group people differently, so the index is rebuilt then.
+  private async catchUp() {
+    const fingerprint = createHash("sha256")
+      .update(
+        JSON.stringify([COMPANY_INDEX_VERSION, this.normalizer.fingerprint, this.ctoTitles])
+      )
+      .digest("hex");
+
+    let { last_profile_id: after, fingerprint: indexed } = await this.index.state();
+    if (indexed !== fingerprint) {
+      await this.index.reset(fingerprint);
+      after = 0;
+    }
+
+    for (;;) {
+      const page = await this.store.listCompanyProfiles(after, INDEX_PAGE_SIZE);
+      if (page.length === 0) {
+        return;
+      }
+      after = page[page.length - 1].profile_id;
+      await this.index.add(
+        page.flatMap((sighting) => this.toCompanySighting(sighting) || []),
+        after
+      );
+    }
+  }
+
+  private toCompanySighting(sighting: ProfileSighting): CompanySighting | null {
+    const normalized = this.normalizer.normalize(sighting.company);
+    if (!normalized) {
+      return null;
+    }
+
+    return {
+      profile_id: sighting.profile_id,
+      company_key: normalized.key,
+      company: normalized.name,
+      variant: sighting.company,
+      profile_key: profileKey(sighting.linkedin_url),
+      name: sighting.name,
+      title: sighting.title,
+      linkedin_url: sighting.linkedin_url,
+      confidence_score: sighting.confidence_score,
+      seen_at: sighting.seen_at,
+      is_cto:
+        !PAST_TITLE.test(sighting.title) &&
+        this.ctoTitles.some((title) => containsTitle(sighting.title, title)),
+    };
+  }
+}
+
+export {
+  CompanyNormalizer,
+  CompanyDirectory,
+  CompanyIndexStore,
+  SqliteCompanyIndexStore,
+  NormalizedCompany,
+  CompanySummary,
+  CompanyLeader,
+  CompanyFilter,
+  CompanyListing,
+  companyKey
+};
@@ -0,0 +1,207 @@
+import { LinkedInProfile } from "./search-services.js";
+import { CompanyNormalizer } from "./company-directory.js";
+import { ValidationError } from "./api-errors.js";
+
+// Types and Interfaces
+// The company a company-targeted search ("who is the CTO of Acme?") is
+// scoped to
+interface TargetCompany {
+  // Normalized name, e.g. "Meta" for "Facebook, Inc."
+  name: string;
+  key: string;
+  // Names searched for and matched in snippets
+  variants: string[];
+  // Company website, e.g. "acme.com"
+  domain?: string;
+}
+
+// How a profile is tied to the target company, strongest first:
+// "company" when the parsed company is the target, "employer" for "CTO at
+// Acme" style phrases, "domain" for the company's website or email domain,
+// "mention" when the snippet only names the company
+type CompanyTie = "company" | "employer" | "domain" | "mention";
+
+// Confidence points per tie. Profiles with no tie to the company are dropped.
+const TIE_POINTS: Record<CompanyTie, number> = {
+  company: 30,
+  employer: 25,
+  domain: 15,
+  mention: 10,
+};
+
+// "at Acme", "@ Acme", "joined Acme", "Acme's CTO"
+const EMPLOYER_BEFORE = /(?:^|[^\p{L}\p{N}])(?:at|@|joined|joining|for)\s+$/iu;
+const EMPLOYER_AFTER = /^(?:'s|’s)\s/;
+
+// "formerly at Acme", "ex-Acme": the person has left
+const PAST_BEFORE = /(?:^|[^\p{L}\p{N}])(?:former|formerly|previously|ex|past|alumni|alumnus)(?:[\s-]+\S+){0,3}[\s-]+$/iu;
+
+const DOMAIN = /^(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/i;
+
+// Results a company-targeted search fetches unless the request asks for
+// more. The company's leaders are on the first pages, so searching all pages
+// only spends budget.
+const COMPANY_SEARCH_RESULTS = 20;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Resolve a request's company and optional domain. Throws a
+// ValidationError when either can't be used.
+function resolveTargetCompany(
+  normalizer: CompanyNormalizer,
+  company: string,
+  domain?: string
+): TargetCompany {
+  const normalized =
+    typeof company === "string" ? normalizer.normalize(company) : null;
+  if (!normalized) {
+    throw new ValidationError("company must be a company name", [
+      { path: "company", message: "must be a company name" },
+    ]);
+  }
+
+  let website: string | undefined;
+  if (domain) {
+    // Accept "https://www.acme.com/about" as well as "acme.com"
+    website = String(domain)
+      .trim()
+      .toLowerCase()
+      .replace(/^[a-z]+:\/\//, "")
+      .replace(/^www\./, "")
+      .replace(/[/?#].*$/, "");
+    if (!DOMAIN.test(website)) {
+      throw new ValidationError(
+        `company_domain must be a domain such as acme.com, got "${domain}"`,
+        [{ path: "company_domain", message: "must be a domain such as acme.com" }]
+      );
+    }
+  }
+
+  return {
+    name: normalized.name,
+    key: normalized.key,
+    variants: normalizer.variants(company),
+    domain: website,
+  };
+}
+
+// Query terms for the company: its name variants and its domain
+function companyQueryTerms(target: TargetCompany): string[] {
+  // One-letter names ("X") would match nearly every result
+  const names = target.variants.filter((name) => name.length > 1);
+  return [
+    ...(names.length > 0 ? names : target.variants),
+    ...(target.domain ? [target.domain] : []),
+  ];
+}
+
+// Where the text names the company as the person's current employer, or
+// just mentions it. Mentions after "formerly", "ex-" etc. don't count.
+function findMention(
+  text: string,
+  variants: string[]
+): { tie: "employer" | "mention"; evidence: string } | null {
+  let mention: { tie: "employer" | "mention"; evidence: string } | null = null;
+
+  for (const variant of variants) {
+    const pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}])${escapeRegExp(variant)}(?![\\p{L}\\p{N}])`,
+      "giu"
+    );
+    for (const match of text.matchAll(pattern)) {
+      const index = match.index ?? 0;
+      const before = text.slice(Math.max(0, index - 40), index);
+      const after = text.slice(index + match[0].length);
+      if (PAST_BEFORE.test(before)) {
+        continue;
+      }
+
+      const employer = before.match(EMPLOYER_BEFORE);
+      if (employer) {
+        return {
+          tie: "employer",
+          evidence: `${employer[0].trim()} ${match[0]}`,
+        };
+      }
+      if (EMPLOYER_AFTER.test(after)) {
+        return { tie: "employer", evidence: `${match[0]}${after.slice(0, 2)}` };
+      }
+      mention = mention || { tie: "mention", evidence: match[0] };
+    }
+  }
+
+  return mention;
+}
+
+// The strongest tie between a profile and the target company
+function companyTie(
+  profile: LinkedInProfile,
+  target: TargetCompany,
+  normalizer: CompanyNormalizer
+): { tie: CompanyTie; evidence: string } | null {
+  if (profile.company && normalizer.normalize(profile.company)?.key === target.key) {
+    return { tie: "company", evidence: profile.company };
+  }
+
+  const text = `${profile.title} ${profile.snippet}`;
+  const mention = findMention(text, target.variants);
+  if (mention?.tie === "employer") {
+    return mention;
+  }
+
+  if (
+    target.domain &&
+    new RegExp(`(?<![a-z0-9.-])(?:[a-z0-9._%+-]+@)?${escapeRegExp(target.domain)}(?![a-z0-9-])`, "i").test(text)
+  ) {
+    return { tie: "domain", evidence: target.domain };
+  }
+
+  return mention;
+}
+
+// Rank profiles by how strongly they're tied to the target company: the
+// tie's points are added to the confidence score and profiles with no tie,
+// or that only left the company, are dropped
+function applyCompanyMatch<T extends LinkedInProfile>(
+  profiles: T[],
+  normalizer: CompanyNormalizer,
+  target?: TargetCompany
+): T[] {
+  if (!target) {
+    return profiles;
+  }
+
+  return profiles.flatMap((profile) => {
+    const tie = companyTie(profile, target, normalizer);
+    if (!tie) {
+      return [];
+    }
+
+    const boosted = Math.min(profile.confidence_score + TIE_POINTS[tie.tie], 100);
+    return [
+      {
+        ...profile,
+        confidence_score: boosted,
+        score_breakdown: [
+          ...(profile.score_breakdown || []),
+          {
+            feature: "company_match",
+            points: boosted - profile.confidence_score,
+            reason: `${tie.tie} tie to ${target.name}: "${tie.evidence}"`,
+          },
+        ],
+      },
+    ];
+  });
+}
+
+export {
+  TargetCompany,
+  CompanyTie,
+  COMPANY_SEARCH_RESULTS,
+  resolveTargetCompany,
+  companyQueryTerms,
+  applyCompanyMatch
+};
@@ -0,0 +1,117 @@
+import { LinkedInProfile } from "./search-services.js";
+import { TaxonomyEntry } from "./taxonomy.js";
+
+// Types and Interfaces
+// How a profile's company size bucket was worked out:
+// "employee_count" from an explicit headcount such as "51-200 employees",
+// "keyword" from a bucket keyword such as "Series A", "none" when unknown
+interface CompanySizeInference {
+  bucket: string | null;
+  method: "employee_count" | "keyword" | "none";
+  // The text the bucket was inferred from
+  evidence: string | null;
+}
+
+// Confidence boost for profiles whose inferred size matches the requested one
+const SIZE_MATCH_BOOST = 10;
+
+// "51-200 employees", "10,000+ employees", "1.2k employees"
+const EMPLOYEE_COUNT = /(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?k?)\s*\+?\s*(?:(?:-|–|to)\s*[\d,.]+k?\s*)?employees/i;
+
+function parseHeadcount(value: string): number {
+  const normalized = value.replace(/,/g, "").toLowerCase();
+  return normalized.endsWith("k")
+    ? parseFloat(normalized) * 1000
+    : parseFloat(normalized);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Infer a company size bucket from a profile's title and snippet
+function inferCompanySize(
+  text: string,
+  buckets: TaxonomyEntry[]
+): CompanySizeInference {
+  // An explicit headcount beats keywords. Ranges use their lower bound.
+  const count = text.match(EMPLOYEE_COUNT);
+  if (count) {
+    const headcount = parseHeadcount(count[1]);
+    const bucket = buckets.find(
+      (entry) =>
+        entry.min_employees !== undefined &&
+        headcount >= entry.min_employees &&
+        (entry.max_employees === undefined || headcount <= entry.max_employees)
+    );
+    if (bucket) {
+      return { bucket: bucket.name, method: "employee_count", evidence: count[0] };
+    }
+  }
+
+  // Otherwise use the keyword that appears first in the text
+  let best: { bucket: string; evidence: string; index: number } | null = null;
+  for (const entry of buckets) {
+    for (const keyword of entry.keywords) {
+      const match = text.match(new RegExp(`(^|\\W)${escapeRegExp(keyword)}(?=\\W|$)`, "i"));
+      if (match && match.index !== undefined && (!best || match.index < best.index)) {
+        best = {
+          bucket: entry.name,
+          evidence: match[0].slice(match[1].length),
+          index: match.index,
+        };
+      }
+    }
+  }
+  if (best) {
+    return { bucket: best.bucket, method: "keyword", evidence: best.evidence };
+  }
+
+  return { bucket: null, method: "none", evidence: null };
+}
+
+// Annotate profiles with their inferred company size. With a requested
+// size, profiles inferred to be another size are dropped and matches get a
+// confidence boost; profiles of unknown size are kept as they are.
+function applyCompanySize<T extends LinkedInProfile>(
+  profiles: T[],
+  buckets: TaxonomyEntry[],
+  requested?: TaxonomyEntry
+): T[] {
+  const annotated = profiles.map((profile) => ({
+    ...profile,
+    company_size: inferCompanySize(`${profile.title} ${profile.snippet}`, buckets),
+  }));
+
+  if (!requested) {
+    return annotated;
+  }
+
+  return annotated
+    .filter(
+      (profile) =>
+        profile.company_size.bucket === null ||
+        profile.company_size.bucket === requested.name
+    )
+    .map((profile) => {
+      if (profile.company_size.bucket !== requested.name) {
+        return profile;
+      }
+
+      const boosted = Math.min(profile.confidence_score + SIZE_MATCH_BOOST, 100);
+      return {
+        ...profile,
+        confidence_score: boosted,
+        score_breakdown: [
+          ...(profile.score_breakdown || []),
+          {
+            feature: "company_size_match",
+            points: boosted - profile.confidence_score,
+            reason: `company size ${requested.name} was requested`,
+          },
+        ],
+      };
+    });
+}
+
+export { CompanySizeInference, inferCompanySize, applyCompanySize };
@@ -0,0 +1,313 @@
+import { TitleFamily } from "./title-catalog.js";
+import { FieldConfidence } from "./profile-parser.js";
+import { parseJsonFile, v, Schema } from "./validation.js";
+
+// Types and Interfaces
+// What a profile is scored on
+interface ScoringInput {
+  // Parsed job title and company
+  title: string;
+  company: string;
+  snippet: string;
+  // Region, sector and company type of the search, space separated
+  searchContext: string;
+  family: TitleFamily;
+  field_confidence?: FieldConfidence;
+}
+
+// How strongly a feature is present (usually 0 or 1, or a count) and why
+interface FeatureValue {
+  value: number;
+  reason: string;
+}
+
+// One named signal. Its value is multiplied by the feature's weight from the
+// scoring config.
+interface FeatureScorer {
+  readonly name: string;
+  evaluate(input: ScoringInput): FeatureValue | null;
+}
+
+// One line of a profile's score_breakdown. The points of all lines add up
+// to the profile's confidence_score.
+interface ScoreContribution {
+  feature: string;
+  points: number;
+  reason: string;
+}
+
+interface ScoreResult {
+  score: number;
+  breakdown: ScoreContribution[];
+}
+
+interface ScoringConfig {
+  // Profiles must score above this to be kept
+  min_score: number;
+  weights: Record<string, number>;
+}
+
+// Titles parsed from the headline are at least this confident, lower ones
+// come from the snippet (see ProfileParser)
+const HEADLINE_TITLE_CONFIDENCE = 0.85;
+
+const JUNIOR_ROLE = /(^|[^a-z0-9])(student|intern|internship|trainee)($|[^a-z0-9])/i;
+
+// "Former CTO", "ex-CTO", "Previously CTO at", "Retired CTO"
+const PAST_MARKER = /(^|[^a-z0-9])(former|formerly|ex|previous|previously|retired)[\s-]+$/i;
+
+// "Aspiring CTO", "Student interested in becoming a CTO", "future CTO"
+const ASPIRING_MARKER = /(^|[^a-z0-9])(aspiring|future|wannabe|would-be|becoming|become|to be|interested in|path to|road to)(?:\s+(?:a|an|the))?[\s-]+$/i;
+
+// "our former CTO", "the ex-CTO", "Acme's former CTO": someone else's role
+const OTHER_PERSON = /(?:^|[^a-z0-9])(?:the|our|his|her|their|a|an|with|to|by|replaced|replacing|succeeded|succeeding)\s+$|'s\s+$/i;
+
+function containsTitle(text: string, title: string): boolean {
+  return titleIndex(text, title) !== -1;
+}
+
+// Whole-word position so "cto" doesn't match inside "director"
+function titleIndex(text: string, title: string): number {
+  const escaped = title.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const match = text
+    .toLowerCase()
+    .match(new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`));
+  return match && match.index !== undefined ? match.index + match[1].length : -1;
+}
+
+const hasTitle: FeatureScorer = {
+  name: "has_title",
+  evaluate: ({ title }) => (title ? { value: 1, reason: `title "${title}"` } : null),
+};
+
+const primaryTitle: FeatureScorer = {
+  name: "primary_title",
+  evaluate: ({ title, family }) => {
+    const primary = family.primary_titles.find((entry) => containsTitle(title, entry));
+    return primary
+      ? { value: 1, reason: `"${primary}" is a primary ${family.label} title` }
+      : null;
+  },
+};
+
+const hasCompany: FeatureScorer = {
+  name: "has_company",
+  evaluate: ({ company }) =>
+    company ? { value: 1, reason: `company "${company}"` } : null,
+};
+
+// Search filter words found in the snippet, one point of weight each
+const contextMatch: FeatureScorer = {
+  name: "context_match",
+  evaluate: ({ searchContext, snippet }) => {
+    const snippetLower = snippet.toLowerCase();
+    const words = [
+      ...new Set(
+        searchContext
+          .toLowerCase()
+          .split(/\s+/)
+          .filter((word) => word.length > 3 && snippetLower.includes(word))
+      ),
+    ];
+    return words.length > 0
+      ? { value: words.length, reason: `snippet mentions ${words.map((w) => `"${w}"`).join(", ")}` }
+      : null;
+  },
+};
+
+// Students and interns whose profiles mention an executive title
+const juniorRole: FeatureScorer = {
+  name: "junior_role",
+  evaluate: ({ title, snippet }) => {
+    const match = title.match(JUNIOR_ROLE) || snippet.match(JUNIOR_ROLE);
+    return match ? { value: 1, reason: `mentions "${match[2]}"` } : null;
+  },
+};
+
+// The title is a goal rather than a role: "Aspiring CTO", "Student
+// interested in becoming a CTO"
+const aspiringRole: FeatureScorer = {
+  name: "aspiring_role",
+  evaluate: ({ title, snippet, family }) => {
+    for (const text of [title, snippet]) {
+      for (const entry of family.titles) {
+        const index = titleIndex(text, entry);
+        const marker =
+          index === -1 ? null : text.slice(Math.max(0, index - 40), index).match(ASPIRING_MARKER);
+        if (marker) {
+          return {
+            value: 1,
+            reason: `"${marker[2]} ${text.slice(index, index + entry.length)}" is an aspiration`,
+          };
+        }
+      }
+    }
+    return null;
+  },
+};
+
+// The text just before the first family title in the snippet, when the
+// title was parsed from the snippet rather than the headline
+function snippetTitle(
+  input: ScoringInput
+): { before: string; title: string } | null {
+  const { title, snippet, family, field_confidence } = input;
+  if (!title || (field_confidence?.title ?? 0) >= HEADLINE_TITLE_CONFIDENCE) {
+    return null;
+  }
+
+  const found = family.titles
+    .map((entry) => ({ entry, index: titleIndex(snippet, entry) }))
+    .filter(({ index }) => index !== -1)
+    .sort((a, b) => a.index - b.index)[0];
+  if (!found) {
+    return null;
+  }
+
+  return {
+    before: snippet.slice(Math.max(0, found.index - 40), found.index),
+    title: snippet.slice(found.index, found.index + found.entry.length),
+  };
+}
+
+// The matched title is the person's own past role. A headline title is the
+// current role, so the snippet is only checked when the title came from it,
+// and "our former CTO" is about someone else.
+const pastRole: FeatureScorer = {
+  name: "past_role",
+  evaluate: (input) => {
+    if (/^(former|formerly|ex|previous|previously|retired)[\s-]+/i.test(input.title)) {
+      return { value: 1, reason: `title "${input.title}" is a past role` };
+    }
+
+    const mention = snippetTitle(input);
+    const marker = mention?.before.match(PAST_MARKER);
+    if (!mention || !marker || marker.index === undefined) {
+      return null;
+    }
+    if (OTHER_PERSON.test(mention.before.slice(0, marker.index + marker[1].length))) {
+      return null;
+    }
+    return { value: 1, reason: `snippet says "${marker[2]} ${mention.title}"` };
+  },
+};
+
+// The title in the snippet belongs to someone else: "reporting to our CTO",
+// "replacing the former CTO"
+const otherPersonTitle: FeatureScorer = {
+  name: "other_person_title",
+  evaluate: (input) => {
+    const mention = snippetTitle(input);
+    if (!mention) {
+      return null;
+    }
+
+    const marker = mention.before.match(PAST_MARKER);
+    const before =
+      marker && marker.index !== undefined
+        ? mention.before.slice(0, marker.index + marker[1].length)
+        : mention.before;
+    return OTHER_PERSON.test(before)
+      ? { value: 1, reason: `snippet mentions someone else's "${mention.title}"` }
+      : null;
+  },
+};
+
+const DEFAULT_FEATURES: FeatureScorer[] = [
+  hasTitle,
+  primaryTitle,
+  hasCompany,
+  contextMatch,
+  juniorRole,
+  aspiringRole,
+  pastRole,
+  otherPersonTitle,
+];
+
+// Scores profiles as a weighted sum of named features. Weights and the
+// minimum score come from a JSON file, so scoring can be tuned (and checked
+// with evaluate-scoring.ts) without a code change.
+class ConfidenceScorer {
+  private features: FeatureScorer[] = [];
+  private config: ScoringConfig;
+
+  // Weights may only name the given features, so a misspelt feature fails
+  // instead of silently not counting
+  constructor(filePath: string, features: FeatureScorer[] = DEFAULT_FEATURES) {
+    const weights: Record<string, Schema<number | undefined>> = Object.fromEntries(
+      features.map((feature) => [feature.name, v.number().optional()])
+    );
+    const raw = parseJsonFile(
+      filePath,
+      v.object<Partial<ScoringConfig>>({
+        min_score: v.number().min(0).max(100).optional(),
+        weights: v.object<Record<string, number>>(weights).optional(),
+      })
+    );
+
+    this.config = { min_score: raw.min_score ?? 10, weights: raw.weights || {} };
+    features.forEach((feature) => this.register(feature));
+  }
+
+  get minScore(): number {
+    return this.config.min_score;
+  }
+
+  // Add a feature. Features without a weight in the config don't count.
+  register(feature: FeatureScorer): this {
+    this.features = [
+      ...this.features.filter((existing) => existing.name !== feature.name),
+      feature,
+    ];
+    return this;
+  }
+
+  score(input: ScoringInput): ScoreResult {
+    const breakdown: ScoreContribution[] = [];
+
+    for (const feature of this.features) {
+      const weight = this.config.weights[feature.name];
+      if (!weight) {
+        continue;
+      }
+
+      const result = feature.evaluate(input);
+      if (result && result.value !== 0) {
+        breakdown.push({
+          feature: feature.name,
+          points: weight * result.value,
+          reason: result.reason,
+        });
+      }
+    }
+
+    const raw = breakdown.reduce((sum, entry) => sum + entry.points, 0);
+    const score = Math.max(0, Math.min(100, raw));
+    if (score !== raw) {
+      breakdown.push({
+        feature: "bounds",
+        points: score - raw,
+        reason: "scores are kept between 0 and 100",
+      });
+    }
+
+    return { score, breakdown };
+  }
+
+  // Whether a score is high enough to keep the profile
+  passes(score: number, threshold: number = this.config.min_score): boolean {
+    return score > threshold;
+  }
+}
+
+export {
+  ConfidenceScorer,
+  FeatureScorer,
+  FeatureValue,
+  ScoringInput,
+  ScoreContribution,
+  ScoreResult,
+  ScoringConfig,
+  DEFAULT_FEATURES,
+  containsTitle
+};
@@ -0,0 +1,344 @@
+import fs from "fs";
+import { HttpClient, RetryPolicy } from "./http-client.js";
+import { ExportColumnId, CellValue, EXPORT_COLUMN_IDS } from "./export.js";
+import { profileKey, profileUrlPatterns } from "./linkedin-url.js";
+
+// Types and Interfaces
+// CRM field -> export column it is filled from, e.g. { "jobtitle": "title" }
+type FieldMapping = Record<string, ExportColumnId>;
+
+// Field values of a CRM record, by CRM field name
+type CrmFields = Record<string, CellValue | null>;
+
+interface CrmRecord {
+  id: string;
+  fields: CrmFields;
+}
+
+interface CrmSinkOptions {
+  // API base URL, e.g. to point a sink at a sandbox or a mock server
+  baseUrl?: string;
+  retry?: Partial<RetryPolicy>;
+}
+
+// A CRM that profiles are pushed to. Records are matched by the CRM field the
+// mapping fills from linkedin_url.
+interface CrmSink {
+  // Registry key, e.g. "hubspot"
+  readonly name: string;
+  // Human readable name, used in logs and errors
+  readonly label: string;
+  readonly mapping: FieldMapping;
+
+  isConfigured(): boolean;
+
+  // The CRM record with this LinkedIn URL, however it's written there
+  // (scheme, subdomain, slug casing, query string), with the mapped fields
+  findByLinkedInUrl(linkedinUrl: string): Promise<CrmRecord | null>;
+  // Create a record and return its id
+  create(fields: CrmFields): Promise<string>;
+  update(id: string, fields: CrmFields): Promise<void>;
+}
+
+interface HubSpotSearchResponse {
+  total: number;
+  results: { id: string; properties: Record<string, string | null> }[];
+}
+
+interface SalesforceQueryResponse {
+  totalSize: number;
+  records: ({ Id: string } & Record<string, unknown>)[];
+}
+
+// Configuration
+const HUBSPOT_API_URL = "https://api.hubapi.com";
+const HUBSPOT_CONTACTS_PATH = "/crm/v3/objects/contacts";
+const SALESFORCE_API_VERSION = "v59.0";
+
+// CRM field names end up in SOQL queries, so only plain identifiers are allowed
+const FIELD_NAME = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+// Records fetched per lookup. A "contains" lookup of "/in/jane" also finds
+// "/in/jane-doe", which is filtered out afterwards.
+const LOOKUP_LIMIT = 100;
+
+// Field mappings per sink, loaded from a JSON file
+class CrmFieldMappings {
+  private mappings: Map<string, FieldMapping> = new Map();
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    const raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+
+    for (const [sink, mapping] of Object.entries<Record<string, string>>(raw)) {
+      for (const [field, column] of Object.entries(mapping)) {
+        if (!FIELD_NAME.test(field)) {
+          throw new Error(`Invalid ${sink} field name "${field}" in ${filePath}`);
+        }
+        if (!(EXPORT_COLUMN_IDS as readonly string[]).includes(column)) {
+          throw new Error(
+            `Unknown column "${column}" for ${sink} field "${field}" in ${filePath}. Available columns: ${EXPORT_COLUMN_IDS.join(", ")}`
+          );
+        }
+      }
+      if (!Object.values(mapping).includes("linkedin_url")) {
+        throw new Error(
+          `The ${sink} mapping in ${filePath} must map a field from linkedin_url, records are matched by it`
+        );
+      }
+
+      this.mappings.set(sink.toLowerCase(), mapping as FieldMapping);
+    }
+  }
+
+  get(sink: string): FieldMapping {
+    const mapping = this.mappings.get(sink.toLowerCase());
+    if (!mapping) {
+      throw new Error(`${this.filePath} has no field mapping for "${sink}"`);
+    }
+    return mapping;
+  }
+}
+
+// The CRM field that holds the LinkedIn URL
+function keyField(mapping: FieldMapping): string {
+  return Object.keys(mapping).find((field) => mapping[field] === "linkedin_url")!;
+}
+
+// Shared HTTP handling. Concrete sinks only know their CRM's REST contract.
+abstract class BaseCrmSink implements CrmSink {
+  abstract readonly name: string;
+  abstract readonly label: string;
+  readonly mapping: FieldMapping;
+
+  protected baseUrl: string;
+  private retryPolicy?: Partial<RetryPolicy>;
+  private http?: HttpClient;
+
+  constructor(mapping: FieldMapping, baseUrl: string, options: CrmSinkOptions = {}) {
+    this.mapping = mapping;
+    this.baseUrl = (options.baseUrl || baseUrl).replace(/\/+$/, "");
+    this.retryPolicy = options.retry;
+  }
+
+  abstract isConfigured(): boolean;
+  abstract findByLinkedInUrl(linkedinUrl: string): Promise<CrmRecord | null>;
+  abstract create(fields: CrmFields): Promise<string>;
+  abstract update(id: string, fields: CrmFields): Promise<void>;
+
+  protected abstract headers(): Record<string, string>;
+
+  // The record whose LinkedIn URL is the same profile, however it's written
+  protected matching(records: CrmRecord[], linkedinUrl: string): CrmRecord | null {
+    const key = profileKey(linkedinUrl);
+    const field = keyField(this.mapping);
+    return (
+      records.find((record) => profileKey(String(record.fields[field] ?? "")) === key) ||
+      null
+    );
+  }
+
+  // Call the CRM with timeouts and retries. Throws ProviderRequestError.
+  protected async request<T>(method: string, path: string, body?: unknown): Promise<T | null> {
+    // Created lazily since `label` is only set once the subclass is constructed
+    this.http ??= new HttpClient(this.label, this.retryPolicy);
+    const response = await this.http.fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: { ...this.headers(), "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    // Updates answer 204 No Content
+    return response.status === 204 ? null : ((await response.json()) as T);
+  }
+}
+
+// HubSpot contacts through the CRM v3 objects API, with a private app token
+class HubSpotSink extends BaseCrmSink {
+  readonly name = "hubspot";
+  readonly label = "HubSpot";
+
+  private accessToken: string;
+
+  constructor(accessToken: string, mapping: FieldMapping, options: CrmSinkOptions = {}) {
+    super(mapping, HUBSPOT_API_URL, options);
+    this.accessToken = accessToken;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.accessToken);
+  }
+
+  async findByLinkedInUrl(linkedinUrl: string): Promise<CrmRecord | null> {
+    const data = await this.request<HubSpotSearchResponse>(
+      "POST",
+      `${HUBSPOT_CONTACTS_PATH}/search`,
+      {
+        // Filter groups are ORed; CONTAINS_TOKEN with wildcards is a
+        // case-insensitive substring match
+        filterGroups: profileUrlPatterns(linkedinUrl).map((pattern) => ({
+          filters: [
+            {
+              propertyName: keyField(this.mapping),
+              operator: "CONTAINS_TOKEN",
+              value: `*${pattern}*`,
+            },
+          ],
+        })),
+        properties: Object.keys(this.mapping),
+        limit: LOOKUP_LIMIT,
+      }
+    );
+
+    const contacts = (data?.results || []).map((contact) => ({
+      id: contact.id,
+      fields: contact.properties,
+    }));
+    return this.matching(contacts, linkedinUrl);
+  }
+
+  async create(fields: CrmFields): Promise<string> {
+    const data = await this.request<{ id: string }>("POST", HUBSPOT_CONTACTS_PATH, {
+      properties: fields,
+    });
+    return data!.id;
+  }
+
+  async update(id: string, fields: CrmFields): Promise<void> {
+    await this.request("PATCH", `${HUBSPOT_CONTACTS_PATH}/${encodeURIComponent(id)}`, {
+      properties: fields,
+    });
+  }
+
+  protected headers(): Record<string, string> {
+    return { Authorization: `Bearer ${this.accessToken}` };
+  }
+}
+
+// Salesforce leads (or another object) through the REST API, with an OAuth
+// access token for the org's instance URL
+class SalesforceSink extends BaseCrmSink {
+  readonly name = "salesforce";
+  readonly label = "Salesforce";
+
+  private accessToken: string;
+  private objectName: string;
+
+  constructor(
+    instanceUrl: string,
+    accessToken: string,
+    mapping: FieldMapping,
+    objectName: string = "Lead",
+    options: CrmSinkOptions = {}
+  ) {
+    super(mapping, instanceUrl, options);
+    this.accessToken = accessToken;
+    this.objectName = objectName;
+    if (!FIELD_NAME.test(objectName)) {
+      throw new Error(`Invalid Salesforce object name: ${objectName}`);
+    }
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.baseUrl && this.accessToken);
+  }
+
+  async findByLinkedInUrl(linkedinUrl: string): Promise<CrmRecord | null> {
+    const fields = Object.keys(this.mapping).filter((field) => field !== "Id");
+    // LIKE is case-insensitive in SOQL
+    const conditions = profileUrlPatterns(linkedinUrl).map(
+      (pattern) => `${keyField(this.mapping)} LIKE '%${soqlLike(pattern)}%'`
+    );
+    const soql = `SELECT Id, ${fields.join(", ")} FROM ${this.objectName} WHERE ${conditions.join(
+      " OR "
+    )} LIMIT ${LOOKUP_LIMIT}`;
+
+    const data = await this.request<SalesforceQueryResponse>(
+      "GET",
+      `${this.apiPath()}/query?${new URLSearchParams({ q: soql })}`
+    );
+
+    const records = (data?.records || []).map((record) => ({
+      id: record.Id,
+      fields: Object.fromEntries(
+        fields.map((field) => [field, (record[field] ?? null) as CellValue | null])
+      ),
+    }));
+    return this.matching(records, linkedinUrl);
+  }
+
+  async create(fields: CrmFields): Promise<string> {
+    const data = await this.request<{ id: string }>(
+      "POST",
+      `${this.apiPath()}/sobjects/${this.objectName}`,
+      fields
+    );
+    return data!.id;
+  }
+
+  async update(id: string, fields: CrmFields): Promise<void> {
+    await this.request(
+      "PATCH",
+      `${this.apiPath()}/sobjects/${this.objectName}/${encodeURIComponent(id)}`,
+      fields
+    );
+  }
+
+  protected headers(): Record<string, string> {
+    return { Authorization: `Bearer ${this.accessToken}` };
+  }
+
+  private apiPath(): string {
+    return `/services/data/${SALESFORCE_API_VERSION}`;
+  }
+}
+
+// Quote a value for a SOQL string literal
+function soqlString(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/'/g, "\\'");
+}
+
+// Quote a value for a SOQL LIKE pattern, where % and _ are wildcards
+function soqlLike(value: string): string {
+  return soqlString(value).replace(/([%_])/g, "\\$1");
+}
+
+// Sinks are looked up by name so routes don't need to know which CRMs exist
+class CrmSinkRegistry {
+  private sinks: Map<string, CrmSink> = new Map();
+
+  register(sink: CrmSink): this {
+    if (this.sinks.has(sink.name)) {
+      throw new Error(`CRM sink already registered: ${sink.name}`);
+    }
+
+    this.sinks.set(sink.name, sink);
+    return this;
+  }
+
+  get(name: string): CrmSink | undefined {
+    return this.sinks.get(name.toLowerCase());
+  }
+
+  names(): string[] {
+    return [...this.sinks.keys()];
+  }
+
+  list(): CrmSink[] {
+    return [...this.sinks.values()];
+  }
+}
+
+export {
+  CrmSink,
+  CrmRecord,
+  CrmFields,
+  CrmSinkOptions,
+  FieldMapping,
+  CrmFieldMappings,
+  HubSpotSink,
+  SalesforceSink,
+  CrmSinkRegistry,
+  keyField
+};
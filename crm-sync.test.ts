@@ -0,0 +1,252 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import {
+  CrmFieldMappings,
+  CrmSink,
+  CrmSinkRegistry,
+  HubSpotSink,
+  SalesforceSink,
+} from "./crm-sinks.js";
+import { CrmSync, SqliteSyncStatusStore } from "./crm-sync.js";
+import { ExportProfile } from "./export.js";
+
+type MockFields = Record<string, unknown>;
+
+interface MockWrite {
+  action: "create" | "update";
+  id: string;
+  fields: MockFields;
+}
+
+const SALESFORCE_PATH = "/services/data/v59.0";
+
+// Records and writes of the mock CRM, shared by the HubSpot and Salesforce
+// routes below
+const records: Map<string, MockFields> = new Map();
+const writes: MockWrite[] = [];
+let failStatus: number | null = null;
+
+function write(
+  action: MockWrite["action"],
+  id: string | undefined,
+  fields: MockFields
+): string {
+  const recordId = id ?? String(records.size + 1);
+  records.set(recordId, { ...records.get(recordId), ...fields });
+  writes.push({ action, id: recordId, fields });
+  return recordId;
+}
+
+// Records whose field contains one of the patterns, ignoring case like the
+// CRMs do
+function recordsWith(field: string, patterns: string[]): [string, MockFields][] {
+  return [...records].filter(([, fields]) =>
+    patterns.some((pattern) =>
+      String(fields[field]).toLowerCase().includes(pattern.toLowerCase())
+    )
+  );
+}
+
+const server = Bun.serve({
+  port: 0,
+  async fetch(request) {
+    if (failStatus) {
+      return Response.json({ message: "Mock CRM failure" }, { status: failStatus });
+    }
+
+    const { pathname, searchParams } = new URL(request.url);
+    const body = request.method === "GET" ? null : await request.json();
+
+    // HubSpot contacts
+    if (pathname === "/crm/v3/objects/contacts/search") {
+      const patterns = body.filterGroups.map(
+        (group: { filters: { value: string }[] }) => group.filters[0].value.replace(/\*/g, "")
+      );
+      const results = recordsWith("hs_linkedin_url", patterns).map(([id, properties]) => ({
+        id,
+        properties,
+      }));
+      return Response.json({ total: results.length, results });
+    }
+    if (pathname === "/crm/v3/objects/contacts") {
+      const id = write("create", undefined, body.properties);
+      return Response.json({ id }, { status: 201 });
+    }
+    if (pathname.startsWith("/crm/v3/objects/contacts/")) {
+      const id = write("update", pathname.split("/").pop(), body.properties);
+      return Response.json({ id });
+    }
+
+    // Salesforce leads
+    if (pathname === `${SALESFORCE_PATH}/query`) {
+      const patterns = [
+        ...searchParams.get("q")!.matchAll(/LIKE '%((?:[^'\\]|\\.)*)%'/g),
+      ].map(([, value]) => value.replace(/\\(.)/g, "$1"));
+      const found = recordsWith("LinkedIn_URL__c", patterns).map(([Id, fields]) => ({
+        Id,
+        ...fields,
+      }));
+      return Response.json({ totalSize: found.length, done: true, records: found });
+    }
+    if (pathname === `${SALESFORCE_PATH}/sobjects/Lead`) {
+      const id = write("create", undefined, body);
+      return Response.json({ id, success: true }, { status: 201 });
+    }
+    if (pathname.startsWith(`${SALESFORCE_PATH}/sobjects/Lead/`)) {
+      write("update", pathname.split("/").pop(), body);
+      return new Response(null, { status: 204 });
+    }
+
+    return new Response("Not found", { status: 404 });
+  },
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+const baseUrl = `http://localhost:${server.port}`;
+const mappings = new CrmFieldMappings("crm-mapping.json");
+const retry = { attempts: 1 };
+
+const SINKS: { sink: CrmSink; urlField: string; titleField: string }[] = [
+  {
+    sink: new HubSpotSink("token", mappings.get("hubspot"), { baseUrl, retry }),
+    urlField: "hs_linkedin_url",
+    titleField: "jobtitle",
+  },
+  {
+    sink: new SalesforceSink(baseUrl, "token", mappings.get("salesforce"), "Lead", { retry }),
+    urlField: "LinkedIn_URL__c",
+    titleField: "Title",
+  },
+];
+
+const profile: ExportProfile = {
+  name: "Jane Doe",
+  title: "CTO",
+  company: "Acme",
+  linkedin_url: "https://www.linkedin.com/in/janedoe",
+  snippet: "Berlin, Germany · CTO at Acme",
+  confidence_score: 90,
+  location: { city: "Berlin", region: "Berlin", country: "Germany", iso_code: "DE" },
+  sources: ["title"],
+};
+
+for (const { sink, urlField, titleField } of SINKS) {
+  describe(`${sink.label} sync`, () => {
+    let store: SqliteSyncStatusStore;
+    let crmSync: CrmSync;
+
+    beforeEach(() => {
+      records.clear();
+      writes.length = 0;
+      failStatus = null;
+      store = new SqliteSyncStatusStore(":memory:");
+      crmSync = new CrmSync(new CrmSinkRegistry().register(sink), store);
+    });
+
+    test("creates a record for a new profile", async () => {
+      const report = await crmSync.sync(sink.name, [profile]);
+
+      expect(report.results[0]).toMatchObject({ action: "create", crm_id: "1" });
+      expect(writes).toHaveLength(1);
+      expect(writes[0].fields).toMatchObject({
+        [urlField]: profile.linkedin_url,
+        [titleField]: "CTO",
+      });
+      expect(await store.get(sink.name, "janedoe")).toMatchObject({
+        status: "synced",
+        crm_id: "1",
+      });
+    });
+
+    test("sends only the changed fields of an existing record", async () => {
+      await crmSync.sync(sink.name, [profile]);
+      const report = await crmSync.sync(sink.name, [
+        { ...profile, title: "Chief Technology Officer" },
+      ]);
+
+      expect(report.results[0]).toMatchObject({
+        action: "update",
+        crm_id: "1",
+        changes: [{ field: titleField, from: "CTO", to: "Chief Technology Officer" }],
+      });
+      expect(writes[1]).toEqual({
+        action: "update",
+        id: "1",
+        fields: { [titleField]: "Chief Technology Officer" },
+      });
+    });
+
+    test("reports records that already have the profile's values as unchanged", async () => {
+      await crmSync.sync(sink.name, [profile]);
+      const report = await crmSync.sync(sink.name, [profile], { force: true });
+
+      expect(report.summary.unchanged).toBe(1);
+      expect(writes).toHaveLength(1);
+    });
+
+    test("skips profiles whose fields haven't changed since their last sync", async () => {
+      await crmSync.sync(sink.name, [profile]);
+      // Would fail if the CRM were asked
+      failStatus = 500;
+      const report = await crmSync.sync(sink.name, [profile]);
+
+      expect(report.results[0]).toMatchObject({ action: "skipped", crm_id: "1" });
+    });
+
+    test("records failed requests so the next sync tries again", async () => {
+      failStatus = 400;
+      const report = await crmSync.sync(sink.name, [profile]);
+
+      expect(report.results[0].action).toBe("failed");
+      expect(report.results[0].error).toBeTruthy();
+      expect(await store.get(sink.name, "janedoe")).toMatchObject({ status: "failed" });
+
+      failStatus = null;
+      const retried = await crmSync.sync(sink.name, [profile]);
+      expect(retried.results[0].action).toBe("create");
+    });
+
+    test("writes neither to the CRM nor to the sync status in a dry run", async () => {
+      const report = await crmSync.sync(sink.name, [profile], { dry_run: true });
+
+      expect(report).toMatchObject({ dry_run: true, summary: { create: 1 } });
+      expect(writes).toEqual([]);
+      expect(await store.list(sink.name, { limit: 10 })).toEqual([]);
+    });
+
+    test("matches records whose LinkedIn URL is written differently", async () => {
+      await crmSync.sync(sink.name, [profile]);
+      for (const url of [
+        "http://linkedin.com/in/janedoe",
+        "https://www.linkedin.com/in/janedoe/",
+        "http://www.linkedin.com/in/janedoe/",
+        "https://uk.linkedin.com/in/janedoe",
+        "https://www.linkedin.com/in/JaneDoe",
+        "https://www.linkedin.com/in/janedoe?originalSubdomain=uk",
+        "linkedin.com/in/janedoe",
+      ]) {
+        records.set("1", { ...records.get("1"), [urlField]: url, [titleField]: "Founder" });
+
+        const report = await crmSync.sync(sink.name, [profile], { force: true });
+
+        // The URL spelling isn't a change, so only the title is sent
+        expect(report.results[0]).toMatchObject({
+          action: "update",
+          crm_id: "1",
+          changes: [{ field: titleField, from: "Founder", to: "CTO" }],
+        });
+      }
+      expect(records.size).toBe(1);
+    });
+
+    test("doesn't match profiles whose slug only starts the same", async () => {
+      write("create", undefined, { [urlField]: "https://www.linkedin.com/in/janedoe-2" });
+
+      const report = await crmSync.sync(sink.name, [profile]);
+
+      expect(report.results[0]).toMatchObject({ action: "create", crm_id: "2" });
+    });
+  });
+}
@@ -0,0 +1,323 @@
+import { Database } from "bun:sqlite";
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import { CrmSink, CrmSinkRegistry, CrmFields, keyField } from "./crm-sinks.js";
+import { ExportProfile, ExportCriteria, ExportColumnId, CellValue, columnValue } from "./export.js";
+import { profileKey } from "./linkedin-url.js";
+import { NotFoundError, ProviderUnavailableError } from "./api-errors.js";
+
+// Types and Interfaces
+// What a sync did (or, in a dry run, would do) with a profile:
+// - create: no CRM record has its LinkedIn URL yet
+// - update: the CRM record differs in some mapped fields
+// - unchanged: the CRM record already has the profile's values
+// - skipped: the profile's values haven't changed since its last sync, so
+//   the CRM wasn't asked
+// - failed: a CRM request failed; the next sync tries again
+type SyncAction = "create" | "update" | "unchanged" | "skipped" | "failed";
+
+interface FieldChange {
+  field: string;
+  // Value in the CRM, null for new records and empty fields
+  from: CellValue | null;
+  to: CellValue | null;
+}
+
+interface SyncResult {
+  linkedin_url: string;
+  name: string;
+  action: SyncAction;
+  crm_id: string | null;
+  changes: FieldChange[];
+  error?: string;
+}
+
+interface SyncReport {
+  sink: string;
+  dry_run: boolean;
+  summary: Record<SyncAction, number>;
+  results: SyncResult[];
+}
+
+interface SyncOptions {
+  // Compare with the CRM without writing to it or to the sync status
+  dry_run?: boolean;
+  // Ask the CRM even for profiles that haven't changed since their last sync
+  force?: boolean;
+  criteria?: ExportCriteria;
+}
+
+type SyncState = "synced" | "failed";
+
+// Last sync of a profile to a sink
+interface SyncStatus {
+  sink: string;
+  profile_key: string;
+  linkedin_url: string;
+  crm_id: string | null;
+  // Hash of the mapped fields last pushed
+  fields_hash: string;
+  status: SyncState;
+  error: string | null;
+  synced_at: string;
+}
+
+interface SyncStatusFilter {
+  status?: SyncState;
+  limit: number;
+}
+
+// Repository for per-profile sync state, so reruns only push changes
+interface SyncStatusStore {
+  get(sink: string, profileKey: string): Promise<SyncStatus | null>;
+  save(status: SyncStatus): Promise<void>;
+  // Most recent first
+  list(sink: string, filter: SyncStatusFilter): Promise<SyncStatus[]>;
+}
+
+const SYNC_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS crm_sync_status (
+    sink TEXT NOT NULL,
+    profile_key TEXT NOT NULL,
+    linkedin_url TEXT NOT NULL,
+    crm_id TEXT,
+    fields_hash TEXT NOT NULL,
+    status TEXT NOT NULL,
+    error TEXT,
+    synced_at TEXT NOT NULL,
+    PRIMARY KEY (sink, profile_key)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_crm_sync_status_synced_at ON crm_sync_status (sink, synced_at);
+`;
+
+class SqliteSyncStatusStore implements SyncStatusStore {
+  private db: Database;
+
+  constructor(filename: string) {
+    if (filename !== ":memory:") {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL;");
+    this.db.exec(SYNC_SCHEMA);
+  }
+
+  async get(sink: string, profileKey: string): Promise<SyncStatus | null> {
+    return this.db
+      .query<SyncStatus, [string, string]>(
+        "SELECT * FROM crm_sync_status WHERE sink = ? AND profile_key = ?"
+      )
+      .get(sink, profileKey);
+  }
+
+  async save(status: SyncStatus): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO crm_sync_status (sink, profile_key, linkedin_url,
+           crm_id, fields_hash, status, error, synced_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        status.sink,
+        status.profile_key,
+        status.linkedin_url,
+        status.crm_id,
+        status.fields_hash,
+        status.status,
+        status.error,
+        status.synced_at
+      );
+  }
+
+  async list(sink: string, filter: SyncStatusFilter): Promise<SyncStatus[]> {
+    const conditions = ["sink = ?"];
+    const params: (string | number)[] = [sink];
+    if (filter.status) {
+      conditions.push("status = ?");
+      params.push(filter.status);
+    }
+
+    return this.db
+      .query<SyncStatus, (string | number)[]>(
+        `SELECT * FROM crm_sync_status WHERE ${conditions.join(" AND ")}
+         ORDER BY synced_at DESC LIMIT ?`
+      )
+      .all(...params, filter.limit);
+  }
+}
+
+// The CRM fields of a profile. Empty values are left out, so a sync never
+// clears a field someone filled in by hand.
+function mapProfile(
+  sink: CrmSink,
+  profile: ExportProfile,
+  criteria?: ExportCriteria
+): CrmFields {
+  const fields: CrmFields = {};
+  for (const [field, column] of Object.entries<ExportColumnId>(sink.mapping)) {
+    const value = columnValue(column, profile, criteria);
+    if (value !== "") {
+      fields[field] = value;
+    }
+  }
+  return fields;
+}
+
+function fieldsHash(fields: CrmFields): string {
+  const entries = Object.entries(fields).sort(([a], [b]) => a.localeCompare(b));
+  return createHash("sha256").update(JSON.stringify(entries)).digest("hex");
+}
+
+// Fields whose CRM value differs. CRMs return numbers as strings, so values
+// are compared as text, and LinkedIn URLs by the profile they point to.
+function diffFields(
+  current: CrmFields | null,
+  fields: CrmFields,
+  urlField: string
+): FieldChange[] {
+  const text = (value: CellValue | null | undefined, field: string) =>
+    field === urlField ? profileKey(String(value ?? "")) : String(value ?? "");
+
+  return Object.entries(fields)
+    .filter(([field, value]) => text(current?.[field], field) !== text(value, field))
+    .map(([field, value]) => ({ field, from: current?.[field] ?? null, to: value }));
+}
+
+// Pushes profiles to CRM sinks: each profile is upserted by its LinkedIn URL,
+// with only the changed fields sent on updates
+class CrmSync {
+  private sinks: CrmSinkRegistry;
+  private store: SyncStatusStore;
+
+  constructor(sinks: CrmSinkRegistry, store: SyncStatusStore) {
+    this.sinks = sinks;
+    this.store = store;
+  }
+
+  // Throws NotFoundError for unknown sinks and ProviderUnavailableError for
+  // sinks without credentials
+  sink(name: string): CrmSink {
+    const sink = this.sinks.get(name);
+    if (!sink) {
+      throw new NotFoundError(
+        `Unknown CRM sink: ${name}. Available sinks: ${this.sinks.names().join(", ")}`
+      );
+    }
+    if (!sink.isConfigured()) {
+      throw new ProviderUnavailableError(`${sink.label} is not configured`);
+    }
+    return sink;
+  }
+
+  async sync(
+    sinkName: string,
+    profiles: AsyncIterable<ExportProfile> | Iterable<ExportProfile>,
+    options: SyncOptions = {}
+  ): Promise<SyncReport> {
+    const sink = this.sink(sinkName);
+    const dryRun = Boolean(options.dry_run);
+    const summary: Record<SyncAction, number> = {
+      create: 0,
+      update: 0,
+      unchanged: 0,
+      skipped: 0,
+      failed: 0,
+    };
+    const results: SyncResult[] = [];
+
+    for await (const profile of profiles) {
+      const result = await this.syncProfile(sink, profile, dryRun, options);
+      summary[result.action]++;
+      results.push(result);
+    }
+
+    console.log(
+      `🔄 ${dryRun ? "Dry run of " : ""}${sink.label} sync: ${summary.create} created, ${summary.update} updated, ${summary.unchanged + summary.skipped} unchanged, ${summary.failed} failed`
+    );
+    return { sink: sink.name, dry_run: dryRun, summary, results };
+  }
+
+  async statuses(sinkName: string, filter: SyncStatusFilter): Promise<SyncStatus[]> {
+    return this.store.list(this.sink(sinkName).name, filter);
+  }
+
+  private async syncProfile(
+    sink: CrmSink,
+    profile: ExportProfile,
+    dryRun: boolean,
+    options: SyncOptions
+  ): Promise<SyncResult> {
+    const fields = mapProfile(sink, profile, options.criteria);
+    const key = profileKey(profile.linkedin_url);
+    const hash = fieldsHash(fields);
+    const result: SyncResult = {
+      linkedin_url: profile.linkedin_url,
+      name: profile.name,
+      action: "skipped",
+      crm_id: null,
+      changes: [],
+    };
+
+    const previous = await this.store.get(sink.name, key);
+    if (!options.force && previous?.status === "synced" && previous.fields_hash === hash) {
+      result.crm_id = previous.crm_id;
+      return result;
+    }
+
+    try {
+      const existing = await sink.findByLinkedInUrl(profile.linkedin_url);
+      result.changes = diffFields(existing?.fields || null, fields, keyField(sink.mapping));
+      result.crm_id = existing?.id || null;
+      result.action = !existing ? "create" : result.changes.length > 0 ? "update" : "unchanged";
+
+      if (dryRun) {
+        return result;
+      }
+
+      if (result.action === "create") {
+        result.crm_id = await sink.create(fields);
+      } else if (result.action === "update") {
+        const changed = Object.fromEntries(
+          result.changes.map((change) => [change.field, change.to])
+        );
+        await sink.update(existing!.id, changed);
+      }
+    } catch (error) {
+      result.action = "failed";
+      result.error = (error as Error).message;
+      console.error(`${sink.label} sync of ${profile.linkedin_url} failed:`, error);
+      if (dryRun) {
+        return result;
+      }
+    }
+
+    await this.store.save({
+      sink: sink.name,
+      profile_key: key,
+      linkedin_url: profile.linkedin_url,
+      crm_id: result.crm_id,
+      fields_hash: hash,
+      status: result.action === "failed" ? "failed" : "synced",
+      error: result.error ?? null,
+      synced_at: new Date().toISOString(),
+    });
+    return result;
+  }
+}
+
+export {
+  CrmSync,
+  SqliteSyncStatusStore,
+  SyncStatusStore,
+  SyncStatus,
+  SyncStatusFilter,
+  SyncState,
+  SyncAction,
+  SyncResult,
+  SyncReport,
+  SyncOptions,
+  FieldChange
+};
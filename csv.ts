@@ -0,0 +1,89 @@
+// Types and Interfaces
+interface CsvColumn {
+  // Record property the column is read from
+  id: string;
+  // Header cell
+  title: string;
+}
+
+// RFC 4180 CSV: quoted fields may contain commas, newlines and "" escapes
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  // Spreadsheet exports often start with a byte order mark
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+// Parse a CSV with a header row into one record per row, keyed by the
+// lowercased header names
+function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  return rows.map((cells) =>
+    Object.fromEntries(columns.map((name, index) => [name, cells[index] ?? ""]))
+  );
+}
+
+function formatCsvField(value: unknown): string {
+  const text =
+    value === null || value === undefined
+      ? ""
+      : typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Render records as CSV with a header row, CRLF line endings as in RFC 4180
+function formatCsv(columns: CsvColumn[], records: Record<string, unknown>[]): string {
+  const lines = [
+    columns.map((column) => formatCsvField(column.title)).join(","),
+    ...records.map((record) =>
+      columns.map((column) => formatCsvField(record[column.id])).join(",")
+    ),
+  ];
+  return lines.join("\r\n") + "\r\n";
+}
+
+export { CsvColumn, parseCsv, parseCsvRecords, formatCsvField, formatCsv };
@@ -0,0 +1,170 @@
+import fs from "fs";
+import { ProfileParser } from "./profile-parser.js";
+import { ConfidenceScorer } from "./confidence-scorer.js";
+import { TitleCatalog } from "./title-catalog.js";
+import { parseCsv } from "./csv.js";
+import dotenv from "dotenv";
+dotenv.config();
+
+// Offline evaluation of the confidence scoring against a labeled CSV.
+//
+//   bun run evaluate-scoring.ts labeled.csv [--family cto] [--context "berlin fintech"]
+//
+// The CSV needs a `title` (the search result title), a `snippet` and a
+// `label` column (1/0, true/false or yes/no: is this person really in the
+// family?). An optional `search_context` column overrides --context per row.
+// Reports precision and recall of the profiles validateProfile would keep at
+// each minimum score.
+
+// Types and Interfaces
+interface LabeledRow {
+  title: string;
+  snippet: string;
+  label: boolean;
+  search_context?: string;
+}
+
+interface ThresholdReport {
+  threshold: number;
+  kept: number;
+  true_positives: number;
+  false_positives: number;
+  false_negatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+const THRESHOLDS = [0, 10, 20, 30, 40, 50, 60, 70, 80, 90];
+
+// Configuration
+const TITLE_FAMILIES_PATH =
+  process.env.TITLE_FAMILIES_PATH || "title-families.json";
+const SCORING_PATH = process.env.SCORING_PATH || "scoring.json";
+
+function parseLabel(value: string, line: number): boolean {
+  const normalized = value.trim().toLowerCase();
+  if (["1", "true", "yes", "y"].includes(normalized)) {
+    return true;
+  }
+  if (["0", "false", "no", "n"].includes(normalized)) {
+    return false;
+  }
+  throw new Error(`Line ${line}: label must be 1/0, true/false or yes/no, got "${value}"`);
+}
+
+function readLabeledRows(filePath: string): LabeledRow[] {
+  const [header, ...rows] = parseCsv(fs.readFileSync(filePath, "utf-8"));
+  if (!header) {
+    throw new Error(`${filePath} is empty`);
+  }
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  for (const required of ["title", "snippet", "label"]) {
+    if (!columns.includes(required)) {
+      throw new Error(`${filePath} has no "${required}" column`);
+    }
+  }
+
+  const cell = (cells: string[], name: string) =>
+    columns.includes(name) ? cells[columns.indexOf(name)] ?? "" : "";
+
+  return rows.map((cells, index) => ({
+    title: cell(cells, "title"),
+    snippet: cell(cells, "snippet"),
+    label: parseLabel(cell(cells, "label"), index + 2),
+    search_context: cell(cells, "search_context") || undefined,
+  }));
+}
+
+function report(
+  scored: { score: number; label: boolean }[],
+  scorer: ConfidenceScorer,
+  threshold: number
+): ThresholdReport {
+  const kept = scored.filter(({ score }) => scorer.passes(score, threshold));
+  const truePositives = kept.filter(({ label }) => label).length;
+  const falsePositives = kept.length - truePositives;
+  const falseNegatives = scored.filter(
+    ({ score, label }) => label && !scorer.passes(score, threshold)
+  ).length;
+
+  const precision = kept.length > 0 ? truePositives / kept.length : 0;
+  const recall =
+    truePositives + falseNegatives > 0
+      ? truePositives / (truePositives + falseNegatives)
+      : 0;
+  const f1 =
+    precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+
+  return {
+    threshold,
+    kept: kept.length,
+    true_positives: truePositives,
+    false_positives: falsePositives,
+    false_negatives: falseNegatives,
+    precision,
+    recall,
+    f1,
+  };
+}
+
+function main(args: string[]) {
+  const [filePath] = args;
+  if (!filePath || filePath.startsWith("--")) {
+    console.error(
+      'Usage: bun run evaluate-scoring.ts labeled.csv [--family cto] [--context "berlin fintech"]'
+    );
+    process.exit(1);
+  }
+
+  const option = (name: string) => {
+    const index = args.indexOf(`--${name}`);
+    return index !== -1 ? args[index + 1] : undefined;
+  };
+
+  const family = new TitleCatalog(TITLE_FAMILIES_PATH).resolve({
+    title_family: option("family") || "cto",
+  });
+  const scorer = new ConfidenceScorer(SCORING_PATH);
+  const parser = new ProfileParser();
+  const context = option("context") || "";
+
+  const rows = readLabeledRows(filePath);
+  const scored = rows.map((row) => {
+    const parsed = parser.parse(row.title, row.snippet, family.titles);
+    const { score } = scorer.score({
+      title: parsed.title,
+      company: parsed.company,
+      snippet: row.snippet,
+      searchContext: row.search_context ?? context,
+      family,
+      field_confidence: parsed.confidence,
+    });
+    return { score, label: row.label };
+  });
+
+  const positives = scored.filter(({ label }) => label).length;
+  console.log(
+    `📊 ${rows.length} labeled profiles (${positives} ${family.label}, ${rows.length - positives} not) scored with ${SCORING_PATH}\n`
+  );
+
+  const thresholds = [...new Set([...THRESHOLDS, scorer.minScore])].sort((a, b) => a - b);
+  console.table(
+    thresholds.map((threshold) => {
+      const result = report(scored, scorer, threshold);
+      return {
+        min_score: threshold === scorer.minScore ? `${threshold} (current)` : threshold,
+        kept: result.kept,
+        tp: result.true_positives,
+        fp: result.false_positives,
+        fn: result.false_negatives,
+        precision: result.precision.toFixed(3),
+        recall: result.recall.toFixed(3),
+        f1: result.f1.toFixed(3),
+      };
+    })
+  );
+}
+
+main(process.argv.slice(2));
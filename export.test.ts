@@ -0,0 +1,166 @@
+import { describe, expect, test } from "bun:test";
+import { inflateRawSync } from "zlib";
+import { ExportOptions, ExportProfile, exportProfiles } from "./export.js";
+
+const profile: ExportProfile = {
+  name: "Jane Doe",
+  title: "CTO",
+  company: "Acme, Inc.",
+  linkedin_url: "https://www.linkedin.com/in/janedoe",
+  snippet: "Berlin, Germany · CTO at Acme",
+  confidence_score: 90,
+  location: { city: "Berlin", region: "Berlin", country: "Germany", iso_code: "DE" },
+  sources: ["title"],
+  found_by: ["google"],
+};
+
+async function exported(profiles: ExportProfile[], options: ExportOptions): Promise<string> {
+  let output = "";
+  for await (const chunk of exportProfiles(profiles, options)) {
+    output += typeof chunk === "string" ? chunk : new TextDecoder().decode(chunk);
+  }
+  return output;
+}
+
+async function exportedBytes(profiles: ExportProfile[], options: ExportOptions): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of exportProfiles(profiles, options)) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+// The files of a ZIP archive, read through its central directory
+function unzip(zip: Buffer): Map<string, string> {
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = zip.readUInt16LE(end + 10);
+  let record = zip.readUInt32LE(end + 16);
+
+  const files: Map<string, string> = new Map();
+  for (let index = 0; index < count; index++) {
+    expect(zip.readUInt32LE(record)).toBe(0x02014b50);
+    const compressedSize = zip.readUInt32LE(record + 20);
+    const nameLength = zip.readUInt16LE(record + 28);
+    const extraLength = zip.readUInt16LE(record + 30);
+    const commentLength = zip.readUInt16LE(record + 32);
+    const offset = zip.readUInt32LE(record + 42);
+    const name = zip.toString("utf8", record + 46, record + 46 + nameLength);
+
+    expect(zip.readUInt32LE(offset)).toBe(0x04034b50);
+    const data = offset + 30 + zip.readUInt16LE(offset + 26) + zip.readUInt16LE(offset + 28);
+    files.set(name, inflateRawSync(zip.subarray(data, data + compressedSize)).toString());
+
+    record += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+}
+
+// Cell texts and numbers of a sheet by reference, e.g. { A1: "Name" }
+function sheetCells(xml: string): Record<string, string | number> {
+  const cells: Record<string, string | number> = {};
+  for (const [, ref, body] of xml.matchAll(/<c r="([A-Z]+\d+)"[^>]*>(.*?)<\/c>/g)) {
+    const number = body.match(/^<v>(.*)<\/v>$/);
+    const text = body.match(/<t[^>]*>(.*)<\/t>/);
+    cells[ref] = number
+      ? Number(number[1])
+      : text![1].replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
+  }
+  return cells;
+}
+
+describe("exportProfiles", () => {
+  test("puts the location in the vCard ADR components", async () => {
+    const card = await exported([profile], { format: "vcf" });
+    expect(card.split("\r\n")).toContain("ADR;TYPE=work:;;;Berlin;Berlin;;Germany");
+  });
+
+  test("leaves missing ADR components empty and escapes the others", async () => {
+    const location = {
+      city: "Washington, D.C.",
+      region: null,
+      country: "United States",
+      iso_code: "US",
+    };
+    const card = await exported([{ ...profile, location }], { format: "vcf" });
+    expect(card.split("\r\n")).toContain(
+      "ADR;TYPE=work:;;;Washington\\, D.C.;;;United States"
+    );
+  });
+
+  test("quotes CSV cells with commas", async () => {
+    const csv = await exported([profile], { format: "csv", columns: ["name", "company"] });
+    expect(csv.trim().split(/\r?\n/)).toEqual(["Name,Company", 'Jane Doe,"Acme, Inc."']);
+  });
+
+  test("writes the selected columns as JSON Lines", async () => {
+    const jsonl = await exported([profile], {
+      format: "jsonl",
+      columns: ["name", "country_code", "confidence_score"],
+    });
+    expect(JSON.parse(jsonl)).toEqual({
+      name: "Jane Doe",
+      country_code: "DE",
+      confidence_score: 90,
+    });
+  });
+
+  test("writes a workbook whose sheet holds the header and the rows", async () => {
+    const many = Array.from({ length: 2000 }, (_, index) => ({
+      ...profile,
+      name: `Person ${index + 1}`,
+    }));
+    const files = unzip(
+      await exportedBytes([{ ...profile, company: "R&D <Labs>" }, ...many], {
+        format: "xlsx",
+        columns: ["name", "company", "confidence_score"],
+      })
+    );
+
+    expect([...files.keys()]).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/worksheets/sheet1.xml",
+    ]);
+    const cells = sheetCells(files.get("xl/worksheets/sheet1.xml")!);
+    expect(cells).toMatchObject({
+      A1: "Name",
+      B1: "Company",
+      C1: "Confidence Score",
+      A2: "Jane Doe",
+      B2: "R&D <Labs>",
+      C2: 90,
+      A2002: "Person 2000",
+    });
+    expect(Object.keys(cells)).toHaveLength(3 * 2002);
+  });
+
+  test("keeps cells that start like a formula from running in csv and xlsx", async () => {
+    const formulas = {
+      ...profile,
+      name: "=HYPERLINK(\"http://example.com\")",
+      title: "+CTO",
+      company: "-Acme",
+      snippet: "@SUM(A1)",
+    };
+    const columns: ExportOptions["columns"] = ["name", "title", "company", "snippet"];
+
+    const csv = await exported([formulas], { format: "csv", columns });
+    expect(csv.trim().split("\r\n")[1]).toBe(
+      `"'=HYPERLINK(""http://example.com"")",'+CTO,'-Acme,'@SUM(A1)`
+    );
+
+    const sheet = unzip(await exportedBytes([formulas], { format: "xlsx", columns }));
+    expect(sheetCells(sheet.get("xl/worksheets/sheet1.xml")!)).toMatchObject({
+      A2: "'=HYPERLINK(\"http://example.com\")",
+      B2: "'+CTO",
+      C2: "'-Acme",
+      D2: "'@SUM(A1)",
+    });
+
+    const jsonl = await exported([formulas], { format: "jsonl", columns });
+    expect(JSON.parse(jsonl).title).toBe("+CTO");
+    expect(await exported([formulas], { format: "vcf" })).toContain("TITLE:+CTO\r\n");
+  });
+});
@@ -0,0 +1,581 @@
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { constants, deflateRawSync } from "zlib";
+import { StoredProfile } from "./search-store.js";
+import { formatLocation } from "./gazetteer.js";
+import { formatCsvField } from "./csv.js";
+
+// Types and Interfaces
+type ExportFormat = "csv" | "xlsx" | "jsonl" | "vcf";
+
+// A profile to export. Company searches from the bot record the company
+// each profile was searched at, batches the rows that found it.
+type ExportProfile = StoredProfile & { search_company?: string; batch_rows?: number[] };
+
+// Search criteria shown in the search_* columns
+interface ExportCriteria {
+  company?: string | null;
+  region?: string;
+  company_sector?: string;
+  company_type?: string;
+  company_size?: string;
+}
+
+interface ExportOptions {
+  format: ExportFormat;
+  // Columns in order, for csv, xlsx and jsonl; defaults to DEFAULT_EXPORT_COLUMNS
+  columns?: ExportColumnId[];
+  criteria?: ExportCriteria;
+}
+
+type ExportChunk = string | Uint8Array;
+type CellValue = string | number;
+
+interface ExportColumn {
+  title: string;
+  value(profile: ExportProfile, criteria: ExportCriteria): CellValue;
+}
+
+// Configuration
+const EXPORT_FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: "text/csv; charset=utf-8", extension: "csv" },
+  xlsx: {
+    contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    extension: "xlsx",
+  },
+  jsonl: { contentType: "application/x-ndjson; charset=utf-8", extension: "jsonl" },
+  vcf: { contentType: "text/vcard; charset=utf-8", extension: "vcf" },
+};
+
+const EXPORT_FORMAT_NAMES = Object.keys(EXPORT_FORMATS) as ExportFormat[];
+
+const EXPORT_COLUMN_IDS = [
+  "name",
+  "first_name",
+  "last_name",
+  "title",
+  "company",
+  "linkedin_url",
+  "location",
+  "city",
+  "region",
+  "country",
+  "country_code",
+  "confidence_score",
+  "snippet",
+  "sources",
+  "found_by",
+  "search_company",
+  "search_region",
+  "search_sector",
+  "search_company_type",
+  "search_company_size",
+  "inferred_company_size",
+  "company_size_evidence",
+  "batch_rows",
+] as const;
+
+type ExportColumnId = (typeof EXPORT_COLUMN_IDS)[number];
+
+const NOT_SPECIFIED = "Not specified";
+
+// "Jane van der Berg" -> { first: "Jane van der", last: "Berg" }. A single
+// name is the last name, which CRMs and vCards require.
+function splitName(name: string): { first: string; last: string } {
+  const names = name.trim().split(/\s+/);
+  const last = names.pop() || "";
+  return { first: names.join(" "), last };
+}
+
+const EXPORT_COLUMNS: Record<ExportColumnId, ExportColumn> = {
+  name: { title: "Name", value: (profile) => profile.name },
+  first_name: { title: "First Name", value: (profile) => splitName(profile.name).first },
+  last_name: { title: "Last Name", value: (profile) => splitName(profile.name).last },
+  title: { title: "Job Title", value: (profile) => profile.title },
+  company: { title: "Company", value: (profile) => profile.company },
+  linkedin_url: { title: "LinkedIn URL", value: (profile) => profile.linkedin_url },
+  location: { title: "Location", value: (profile) => formatLocation(profile.location) },
+  city: { title: "City", value: (profile) => profile.location?.city || "" },
+  region: { title: "Region", value: (profile) => profile.location?.region || "" },
+  country: { title: "Country", value: (profile) => profile.location?.country || "" },
+  country_code: {
+    title: "Country Code",
+    value: (profile) => profile.location?.iso_code || "",
+  },
+  confidence_score: {
+    title: "Confidence Score",
+    value: (profile) => profile.confidence_score,
+  },
+  snippet: { title: "Description", value: (profile) => profile.snippet },
+  sources: { title: "Sources", value: (profile) => profile.sources.join("; ") },
+  found_by: {
+    title: "Found By",
+    value: (profile) => (profile.found_by || []).join("; "),
+  },
+  search_company: {
+    title: "Search Company",
+    value: (profile, criteria) =>
+      profile.search_company || criteria.company || NOT_SPECIFIED,
+  },
+  search_region: {
+    title: "Search Region",
+    value: (_, criteria) => criteria.region || NOT_SPECIFIED,
+  },
+  search_sector: {
+    title: "Search Sector",
+    value: (_, criteria) => criteria.company_sector || NOT_SPECIFIED,
+  },
+  search_company_type: {
+    title: "Search Company Type",
+    value: (_, criteria) => criteria.company_type || NOT_SPECIFIED,
+  },
+  search_company_size: {
+    title: "Search Company Size",
+    value: (_, criteria) => criteria.company_size || NOT_SPECIFIED,
+  },
+  inferred_company_size: {
+    title: "Inferred Company Size",
+    value: (profile) => profile.company_size?.bucket || "Unknown",
+  },
+  company_size_evidence: {
+    title: "Company Size Evidence",
+    value: (profile) => profile.company_size?.evidence || "",
+  },
+  batch_rows: {
+    title: "Batch Rows",
+    value: (profile) => (profile.batch_rows || []).join("; "),
+  },
+};
+
+// The columns of the bot's CSV downloads
+const DEFAULT_EXPORT_COLUMNS: ExportColumnId[] = [
+  "name",
+  "title",
+  "company",
+  "linkedin_url",
+  "location",
+  "country_code",
+  "confidence_score",
+  "snippet",
+  "search_company",
+  "search_region",
+  "search_sector",
+  "search_company_type",
+  "search_company_size",
+  "inferred_company_size",
+  "company_size_evidence",
+];
+
+// Export files are written under temp/ in a directory of their own
+const EXPORT_DIR = path.join(process.cwd(), "temp");
+const EXPORT_DIR_PREFIX = "export-";
+
+// Uncompressed sheet XML collected before each deflate call
+const XLSX_CHUNK_SIZE = 64 * 1024;
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_START = /^[=+\-@]/;
+
+// vCard content lines are folded at 75 octets (RFC 6350)
+const VCARD_LINE_OCTETS = 75;
+
+// Render profiles in an export format chunk by chunk, so a large result set
+// is never held in memory as a whole file
+async function* exportProfiles(
+  profiles: AsyncIterable<ExportProfile> | Iterable<ExportProfile>,
+  options: ExportOptions
+): AsyncGenerator<ExportChunk> {
+  const columns = options.columns?.length ? options.columns : DEFAULT_EXPORT_COLUMNS;
+  const criteria = options.criteria || {};
+  const rows = exportRows(profiles, columns, criteria);
+
+  switch (options.format) {
+    case "csv":
+      yield* csvChunks(columns, rows);
+      break;
+    case "jsonl":
+      yield* jsonlChunks(columns, rows);
+      break;
+    case "xlsx":
+      yield* xlsxChunks(columns, rows);
+      break;
+    case "vcf":
+      for await (const profile of profiles) {
+        yield vcard(profile);
+      }
+      break;
+  }
+}
+
+function columnValue(
+  id: ExportColumnId,
+  profile: ExportProfile,
+  criteria: ExportCriteria = {}
+): CellValue {
+  return EXPORT_COLUMNS[id].value(profile, criteria);
+}
+
+// Text that would start a formula gets a leading quote, so a scraped name or
+// snippet like "=HYPERLINK(...)" shows as text in Excel and Sheets
+function spreadsheetCell(value: CellValue): CellValue {
+  return typeof value === "string" && FORMULA_START.test(value) ? `'${value}` : value;
+}
+
+async function* exportRows(
+  profiles: AsyncIterable<ExportProfile> | Iterable<ExportProfile>,
+  columns: ExportColumnId[],
+  criteria: ExportCriteria
+): AsyncGenerator<CellValue[]> {
+  for await (const profile of profiles) {
+    yield columns.map((id) => columnValue(id, profile, criteria));
+  }
+}
+
+// CSV with a header row and CRLF line endings, like formatCsv
+async function* csvChunks(
+  columns: ExportColumnId[],
+  rows: AsyncIterable<CellValue[]>
+): AsyncGenerator<ExportChunk> {
+  const line = (cells: unknown[]) => cells.map(formatCsvField).join(",") + "\r\n";
+
+  yield line(columns.map((id) => EXPORT_COLUMNS[id].title));
+  for await (const cells of rows) {
+    yield line(cells.map(spreadsheetCell));
+  }
+}
+
+// One JSON object per line, keyed by column id
+async function* jsonlChunks(
+  columns: ExportColumnId[],
+  rows: AsyncIterable<CellValue[]>
+): AsyncGenerator<ExportChunk> {
+  for await (const cells of rows) {
+    const record = Object.fromEntries(columns.map((id, index) => [id, cells[index]]));
+    yield JSON.stringify(record) + "\n";
+  }
+}
+
+// vCard 4.0 escaping of property values
+function vcardText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/([,;])/g, "\\$1")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Fold a content line into lines of at most 75 octets, continued with a space
+function foldVcardLine(line: string): string {
+  const lines: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > VCARD_LINE_OCTETS) {
+      lines.push(current);
+      current = " ";
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join("\r\n");
+}
+
+// A contact card per profile, for importing into address books and CRMs
+function vcard(profile: ExportProfile): string {
+  const { first, last } = splitName(profile.name);
+  const location = profile.location;
+
+  const lines = [
+    "BEGIN:VCARD",
+    "VERSION:4.0",
+    `FN:${vcardText(profile.name)}`,
+    `N:${vcardText(last)};${vcardText(first)};;;`,
+    profile.title && `TITLE:${vcardText(profile.title)}`,
+    profile.company && `ORG:${vcardText(profile.company)}`,
+    `URL;TYPE=work:${profile.linkedin_url}`,
+    // ADR components: PO box;extended;street;locality;region;postal code;country
+    location &&
+      `ADR;TYPE=work:;;;${vcardText(location.city || "")};${vcardText(
+        location.region || ""
+      )};;${vcardText(location.country || "")}`,
+    profile.snippet && `NOTE:${vcardText(profile.snippet)}`,
+    "END:VCARD",
+  ];
+
+  return lines
+    .filter((line): line is string => Boolean(line))
+    .map(foldVcardLine)
+    .join("\r\n") + "\r\n";
+}
+
+// XLSX
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Uint8Array, crc = 0): number {
+  let c = ~crc;
+  for (const byte of data) {
+    c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8);
+  }
+  return ~c >>> 0;
+}
+
+// A file of a ZIP archive that is written before its size and CRC are known:
+// the data is deflated in pieces and the sizes follow in a data descriptor
+class ZipEntry {
+  readonly name: Buffer;
+  readonly offset: number;
+  crc = 0;
+  size = 0;
+  compressedSize = 0;
+
+  constructor(name: string, offset: number) {
+    this.name = Buffer.from(name);
+    this.offset = offset;
+  }
+
+  // Each piece is flushed to a byte boundary without ending the deflate
+  // stream, so the pieces concatenate into one valid stream
+  deflate(data: string): Buffer {
+    const bytes = Buffer.from(data);
+    this.crc = crc32(bytes, this.crc);
+    this.size += bytes.length;
+    return this.count(deflateRawSync(bytes, { finishFlush: constants.Z_SYNC_FLUSH }));
+  }
+
+  // The final, empty deflate block
+  finish(): Buffer {
+    return this.count(deflateRawSync(Buffer.alloc(0)));
+  }
+
+  private count(compressed: Buffer): Buffer {
+    this.compressedSize += compressed.length;
+    return compressed;
+  }
+}
+
+// DOS date and time of a ZIP entry
+function dosDateTime(date: Date): [number, number] {
+  return [
+    (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  ];
+}
+
+// Writes ZIP entries one after the other, then the central directory
+class ZipWriter {
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+  private time: number;
+  private date: number;
+
+  constructor(modified: Date = new Date()) {
+    [this.time, this.date] = dosDateTime(modified);
+  }
+
+  async *file(name: string, content: AsyncIterable<string> | Iterable<string>): AsyncGenerator<Buffer> {
+    const entry = new ZipEntry(name, this.offset);
+    this.entries.push(entry);
+
+    // Flag 0x08: CRC and sizes follow the data
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(0x08, 6);
+    header.writeUInt16LE(8, 8);
+    header.writeUInt16LE(this.time, 10);
+    header.writeUInt16LE(this.date, 12);
+    header.writeUInt16LE(entry.name.length, 26);
+    yield this.written(Buffer.concat([header, entry.name]));
+
+    for await (const data of content) {
+      yield this.written(entry.deflate(data));
+    }
+    yield this.written(entry.finish());
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    yield this.written(descriptor);
+  }
+
+  finish(): Buffer {
+    const records = this.entries.map((entry) => {
+      const record = Buffer.alloc(46);
+      record.writeUInt32LE(0x02014b50, 0);
+      record.writeUInt16LE(20, 4);
+      record.writeUInt16LE(20, 6);
+      record.writeUInt16LE(0x08, 8);
+      record.writeUInt16LE(8, 10);
+      record.writeUInt16LE(this.time, 12);
+      record.writeUInt16LE(this.date, 14);
+      record.writeUInt32LE(entry.crc, 16);
+      record.writeUInt32LE(entry.compressedSize, 20);
+      record.writeUInt32LE(entry.size, 24);
+      record.writeUInt16LE(entry.name.length, 28);
+      record.writeUInt32LE(entry.offset, 42);
+      return Buffer.concat([record, entry.name]);
+    });
+    const directory = Buffer.concat(records);
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(this.offset, 16);
+    return this.written(Buffer.concat([directory, end]));
+  }
+
+  private written(data: Buffer): Buffer {
+    this.offset += data.length;
+    return data;
+  }
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const XLSX_PARTS: [string, string][] = [
+  [
+    "[Content_Types].xml",
+    `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`,
+  ],
+  [
+    "_rels/.rels",
+    `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+  ],
+  [
+    "xl/workbook.xml",
+    `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Profiles" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+  ],
+  [
+    "xl/_rels/workbook.xml.rels",
+    `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+  ],
+];
+
+// Column letters of a 0-based column index: 0 -> A, 26 -> AA
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function xmlText(value: string): string {
+  return value
+    // Control characters aren't allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function xlsxRow(row: number, cells: CellValue[]): string {
+  const xml = cells.map((value, index) => {
+    const ref = `${columnName(index)}${row}`;
+    return typeof value === "number"
+      ? `<c r="${ref}"><v>${value}</v></c>`
+      : `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${xmlText(value)}</t></is></c>`;
+  });
+  return `<row r="${row}">${xml.join("")}</row>`;
+}
+
+// The sheet XML in pieces of about XLSX_CHUNK_SIZE
+async function* sheetXml(
+  columns: ExportColumnId[],
+  rows: AsyncIterable<CellValue[]>
+): AsyncGenerator<string> {
+  let xml = `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>`;
+  xml += xlsxRow(1, columns.map((id) => EXPORT_COLUMNS[id].title));
+
+  let row = 1;
+  for await (const cells of rows) {
+    xml += xlsxRow(++row, cells.map(spreadsheetCell));
+    if (xml.length >= XLSX_CHUNK_SIZE) {
+      yield xml;
+      xml = "";
+    }
+  }
+  yield xml + "</sheetData></worksheet>";
+}
+
+// A workbook with one sheet of inline strings: the smallest XLSX that Excel,
+// LibreOffice and Google Sheets open
+async function* xlsxChunks(
+  columns: ExportColumnId[],
+  rows: AsyncIterable<CellValue[]>
+): AsyncGenerator<ExportChunk> {
+  const zip = new ZipWriter();
+  for (const [name, xml] of XLSX_PARTS) {
+    yield* zip.file(name, [xml]);
+  }
+  yield* zip.file("xl/worksheets/sheet1.xml", sheetXml(columns, rows));
+  yield zip.finish();
+}
+
+// Write an export to a file, hand its path to send and delete the file
+// afterwards, whether sending worked or not
+async function withExportFile<T>(
+  chunks: AsyncIterable<ExportChunk>,
+  filename: string,
+  send: (filepath: string) => Promise<T>,
+  dir: string = EXPORT_DIR
+): Promise<T> {
+  await fs.promises.mkdir(dir, { recursive: true });
+  // A directory per export keeps the file name as given
+  const exportDir = await fs.promises.mkdtemp(path.join(dir, EXPORT_DIR_PREFIX));
+  const filepath = path.join(exportDir, filename);
+
+  try {
+    await pipeline(Readable.from(chunks), fs.createWriteStream(filepath));
+    return await send(filepath);
+  } finally {
+    await fs.promises.rm(exportDir, { recursive: true, force: true });
+  }
+}
+
+// Remove exports left behind by a process that stopped while sending them
+async function removeStaleExports(dir: string = EXPORT_DIR): Promise<number> {
+  const entries = await fs.promises.readdir(dir).catch(() => [] as string[]);
+  const stale = entries.filter((entry) => entry.startsWith(EXPORT_DIR_PREFIX));
+
+  await Promise.all(
+    stale.map((entry) =>
+      fs.promises.rm(path.join(dir, entry), { recursive: true, force: true })
+    )
+  );
+  return stale.length;
+}
+
+export {
+  ExportFormat,
+  ExportProfile,
+  ExportCriteria,
+  ExportOptions,
+  ExportChunk,
+  ExportColumnId,
+  CellValue,
+  EXPORT_FORMATS,
+  EXPORT_FORMAT_NAMES,
+  EXPORT_COLUMN_IDS,
+  DEFAULT_EXPORT_COLUMNS,
+  columnValue,
+  exportProfiles,
+  withExportFile,
+  removeStaleExports
+};
@@ -0,0 +1,527 @@
+import { parseJsonFile, v } from "./validation.js";
+
+// Types and Interfaces
+// A profile's location, resolved against the gazetteer. Fields the text
+// didn't pin down are null, e.g. "Germany" has no city or region.
+interface ProfileLocation {
+  city: string | null;
+  // First-level administrative region: a US state, a Canadian province, ...
+  region: string | null;
+  country: string | null;
+  // ISO 3166-1 alpha-2 country code
+  iso_code: string | null;
+}
+
+interface Country {
+  iso_code: string;
+  name: string;
+  alternate_names: string[];
+  continent: string;
+}
+
+interface AdminRegion {
+  name: string;
+  code: string;
+  country: string;
+  alternate_names: string[];
+}
+
+interface City {
+  name: string;
+  region: string | null;
+  country: string;
+  population: number;
+  alternate_names: string[];
+}
+
+// Groups of countries such as "europe" or "dach"
+interface MacroRegion {
+  name: string;
+  label: string;
+  alternate_names: string[];
+  countries: string[];
+  // Terms OR-ed together in the search query in place of the region name
+  query_terms: string[];
+}
+
+// A request's `region`, resolved to the places a profile must be in
+interface RegionFilter {
+  kind: "global" | "macro_region" | "country" | "region" | "city";
+  label: string;
+  // ISO codes of the matching countries; empty for "global"
+  countries: string[];
+  region?: string;
+  city?: string;
+  query_terms: string[];
+}
+
+// A gazetteer entry a name in a text can refer to
+type Place =
+  | { kind: "city"; city: City }
+  | { kind: "region"; region: AdminRegion }
+  | { kind: "country"; country: Country };
+
+interface Mention {
+  index: number;
+  end: number;
+  places: Place[];
+}
+
+// The gazetteer file. Countries are keyed by ISO code and macro regions by
+// name; the other places refer to their country by ISO code.
+interface GazetteerFile {
+  countries: Record<string, { name: string; alternate_names?: string[]; continent: string }>;
+  regions: { name: string; code: string; country: string; alternate_names?: string[] }[];
+  cities: {
+    name: string;
+    region?: string | null;
+    country: string;
+    population?: number;
+    alternate_names?: string[];
+  }[];
+  macro_regions: Record<
+    string,
+    { label?: string; alternate_names?: string[]; countries: string[]; query_terms?: string[] }
+  >;
+}
+
+const nameList = () => v.array(v.string().min(1));
+
+const GAZETTEER_FILE = v.object<GazetteerFile>({
+  countries: v.record(
+    v.object({
+      name: v.string().min(1),
+      alternate_names: nameList().optional(),
+      continent: v.string().min(1),
+    })
+  ),
+  regions: v.array(
+    v.object({
+      name: v.string().min(1),
+      code: v.string().min(1),
+      country: v.string().min(1),
+      alternate_names: nameList().optional(),
+    })
+  ),
+  cities: v.array(
+    v.object({
+      name: v.string().min(1),
+      region: v.string().nullable().optional(),
+      country: v.string().min(1),
+      population: v.integer().min(0).optional(),
+      alternate_names: nameList().optional(),
+    })
+  ),
+  macro_regions: v.record(
+    v.object({
+      label: v.string().optional(),
+      alternate_names: nameList().optional(),
+      countries: nameList().min(1),
+      query_terms: nameList().min(1).optional(),
+    })
+  ),
+});
+
+// Region inputs that mean "anywhere"
+const GLOBAL_REGIONS = ["global", "worldwide", "world", "anywhere"];
+
+// "Location: Berlin" in snippets, localized
+const LOCATION_LABELS = [
+  "Location",
+  "Standort",
+  "Ort",
+  "Localisation",
+  "Lieu",
+  "Ubicación",
+  "Località",
+  "Locatie",
+  "Localização",
+];
+
+// Offline place names (GeoNames-style countries, first-level regions, cities
+// and macro regions) loaded from a JSON file. Used to turn free text into a
+// structured location and to check profiles against a requested region.
+class Gazetteer {
+  private countries: Map<string, Country> = new Map();
+  private regions: AdminRegion[] = [];
+  private cities: City[] = [];
+  private macroRegions: Map<string, MacroRegion> = new Map();
+  // Lowercased place name -> places of that name, cities first
+  private places: Map<string, Place[]> = new Map();
+  // Every place name, longest first, so "New York City" beats "New York"
+  private namePattern: RegExp;
+
+  constructor(filePath: string) {
+    const raw = parseJsonFile(filePath, GAZETTEER_FILE);
+
+    for (const [isoCode, entry] of Object.entries(raw.countries)) {
+      this.countries.set(isoCode.toUpperCase(), {
+        iso_code: isoCode.toUpperCase(),
+        name: entry.name,
+        alternate_names: entry.alternate_names || [],
+        continent: entry.continent,
+      });
+    }
+
+    for (const entry of raw.regions) {
+      this.regions.push({
+        name: entry.name,
+        code: entry.code,
+        country: this.countryCode(entry.country, filePath),
+        alternate_names: entry.alternate_names || [],
+      });
+    }
+
+    for (const entry of raw.cities) {
+      this.cities.push({
+        name: entry.name,
+        region: entry.region || null,
+        country: this.countryCode(entry.country, filePath),
+        population: entry.population || 0,
+        alternate_names: entry.alternate_names || [],
+      });
+    }
+    // Ambiguous names ("Cambridge", "Portland") default to the larger city
+    this.cities.sort((a, b) => b.population - a.population);
+
+    for (const [name, entry] of Object.entries(raw.macro_regions)) {
+      this.macroRegions.set(normalize(name), {
+        name: normalize(name),
+        label: entry.label || name,
+        alternate_names: entry.alternate_names || [],
+        countries: entry.countries.map((code) => this.countryCode(code, filePath)),
+        query_terms: entry.query_terms || [entry.label || name],
+      });
+    }
+
+    for (const city of this.cities) {
+      this.addNames([city.name, ...city.alternate_names], { kind: "city", city });
+    }
+    for (const region of this.regions) {
+      this.addNames([region.name, ...region.alternate_names], { kind: "region", region });
+    }
+    for (const country of this.countries.values()) {
+      this.addNames([country.name, ...country.alternate_names], { kind: "country", country });
+    }
+
+    const names = [...this.places.keys()].sort((a, b) => b.length - a.length);
+    this.namePattern = new RegExp(
+      `(?<![\\p{L}\\p{N}])(?:${names.map(escapeRegExp).join("|")})(?![\\p{L}\\p{N}])`,
+      "giu"
+    );
+  }
+
+  // The location a text mentions, preferring an explicit "Location: ..."
+  // label over places mentioned anywhere else in the text
+  locate(text: string): ProfileLocation | undefined {
+    const label = text.match(
+      new RegExp(`(?<!\\p{L})(?:${LOCATION_LABELS.join("|")})\\s?:\\s*([^·|;\\n]+)`, "iu")
+    );
+    if (label) {
+      const labelled = this.locateIn(label[1]);
+      if (labelled) {
+        return labelled;
+      }
+    }
+    return this.locateIn(text);
+  }
+
+  // Resolve a request's region to a filter. Returns undefined for names the
+  // gazetteer doesn't know.
+  resolveRegion(input: string): RegionFilter | undefined {
+    const needle = normalize(input.replace(/_/g, " "));
+    if (GLOBAL_REGIONS.includes(needle)) {
+      return { kind: "global", label: "Global", countries: [], query_terms: [] };
+    }
+
+    const macro = [...this.macroRegions.values()].find((entry) =>
+      [entry.name.replace(/_/g, " "), entry.label, ...entry.alternate_names].some(
+        (name) => normalize(name) === needle
+      )
+    );
+    if (macro) {
+      return {
+        kind: "macro_region",
+        label: macro.label,
+        countries: macro.countries,
+        query_terms: macro.query_terms,
+      };
+    }
+
+    const byCode = this.countries.get(needle.toUpperCase());
+    if (byCode) {
+      return this.countryFilter(byCode);
+    }
+
+    // A name shared by a city and its region ("New York", "Berlin") is
+    // resolved to the wider region
+    const places = this.places.get(needle) || [];
+    const country = places.find((place) => place.kind === "country");
+    if (country && country.kind === "country") {
+      return this.countryFilter(country.country);
+    }
+    const region = places.find((place) => place.kind === "region");
+    if (region && region.kind === "region") {
+      return {
+        kind: "region",
+        label: region.region.name,
+        countries: [region.region.country],
+        region: region.region.name,
+        query_terms: [this.displayName(input, region.region.name, region.region.alternate_names)],
+      };
+    }
+    const city = places.find((place) => place.kind === "city");
+    if (city && city.kind === "city") {
+      return {
+        kind: "city",
+        label: city.city.name,
+        countries: [city.city.country],
+        region: city.city.region ?? undefined,
+        city: city.city.name,
+        query_terms: [this.displayName(input, city.city.name, city.city.alternate_names)],
+      };
+    }
+
+    return undefined;
+  }
+
+  private locateIn(text: string): ProfileLocation | undefined {
+    const mentions = this.mentions(text);
+
+    if (mentions.length > 0) {
+      const first = mentions[0];
+      const context = mentions.slice(1).flatMap((mention) => mention.places);
+      // "Seattle, Washington": after a comma a shared name is the region
+      const afterComma = /,\s*$/.test(text.slice(0, first.index));
+      const cities = afterComma
+        ? []
+        : first.places.flatMap((place) => (place.kind === "city" ? [place.city] : []));
+
+      if (cities.length > 0) {
+        const city = this.pickCity(cities, text.slice(first.end), context);
+
+        // "London, Ontario": a region or country right after the name that
+        // doesn't fit any city we know means a namesake we don't know
+        const next = mentions[1];
+        const qualifier =
+          next && /^\s*,\s*$/.test(text.slice(first.end, next.index))
+            ? next.places.find((place) => place.kind !== "city")
+            : undefined;
+        const qualifierCountry =
+          qualifier?.kind === "region"
+            ? qualifier.region.country
+            : qualifier?.kind === "country"
+            ? qualifier.country.iso_code
+            : undefined;
+        if (qualifier && qualifierCountry !== city.country) {
+          const location = this.placeLocation(qualifier);
+          return { ...location, city: text.slice(first.index, first.end) };
+        }
+
+        return this.cityLocation(city);
+      }
+
+      const place =
+        first.places.find((entry) => entry.kind === "region") ||
+        first.places.find((entry) => entry.kind === "country");
+      if (place) {
+        return this.placeLocation(place);
+      }
+    }
+
+    // Cities missing from the gazetteer, when followed by a known region
+    // code: "Boise, ID"
+    const coded = text.match(/(?<![\p{L}\p{N}])(\p{Lu}\p{Ll}+(?:\s\p{Lu}\p{Ll}+)?),\s*([A-Z]{2,3})(?![\p{L}\p{N}])/u);
+    if (coded) {
+      const region = this.regions.find((entry) => entry.code === coded[2]);
+      if (region) {
+        return {
+          city: coded[1],
+          region: region.name,
+          country: this.countries.get(region.country)?.name ?? null,
+          iso_code: region.country,
+        };
+      }
+    }
+
+    return undefined;
+  }
+
+  // Place names in a text, in order. All-caps names such as "UK" or "NYC"
+  // only match in capitals, so "us" and "la" in prose are not places.
+  private mentions(text: string): Mention[] {
+    const mentions: Mention[] = [];
+    for (const match of text.matchAll(this.namePattern)) {
+      const places = this.places.get(normalize(match[0])) || [];
+      const names = places.flatMap((place) => this.placeNames(place));
+      const written = names.find((name) => normalize(name) === normalize(match[0]));
+      if (!written || (written === written.toUpperCase() && match[0] !== written)) {
+        continue;
+      }
+      mentions.push({ index: match.index!, end: match.index! + match[0].length, places });
+    }
+    return mentions;
+  }
+
+  // Pick between cities of the same name using a region code right after
+  // the name ("Cambridge, MA") or other places the text mentions
+  private pickCity(cities: City[], after: string, context: Place[]): City {
+    const code = after.match(/^,\s*([A-Z]{2,3})(?![\p{L}\p{N}])/u)?.[1];
+    if (code) {
+      const coded = cities.find(
+        (city) =>
+          city.country === code ||
+          this.regions.some(
+            (region) =>
+              region.code === code &&
+              region.country === city.country &&
+              region.name === city.region
+          )
+      );
+      if (coded) {
+        return coded;
+      }
+    }
+
+    const inContext = cities.find((city) =>
+      context.some(
+        (place) =>
+          (place.kind === "region" &&
+            place.region.name === city.region &&
+            place.region.country === city.country) ||
+          (place.kind === "country" && place.country.iso_code === city.country)
+      )
+    );
+    return inContext || cities[0];
+  }
+
+  private placeLocation(place: Place): ProfileLocation {
+    switch (place.kind) {
+      case "city":
+        return this.cityLocation(place.city);
+      case "region":
+        return {
+          city: null,
+          region: place.region.name,
+          country: this.countries.get(place.region.country)?.name ?? null,
+          iso_code: place.region.country,
+        };
+      case "country":
+        return {
+          city: null,
+          region: null,
+          country: place.country.name,
+          iso_code: place.country.iso_code,
+        };
+    }
+  }
+
+  private cityLocation(city: City): ProfileLocation {
+    return {
+      city: city.name,
+      region: city.region,
+      country: this.countries.get(city.country)?.name ?? null,
+      iso_code: city.country,
+    };
+  }
+
+  private countryFilter(country: Country): RegionFilter {
+    return {
+      kind: "country",
+      label: country.name,
+      countries: [country.iso_code],
+      query_terms: [country.name],
+    };
+  }
+
+  // The name as the user typed it if it is a known spelling, e.g. "New York"
+  // rather than the region's canonical "New York State"
+  private displayName(input: string, name: string, alternates: string[]): string {
+    const needle = normalize(input.replace(/_/g, " "));
+    return [...alternates, name].find((entry) => normalize(entry) === needle) || name;
+  }
+
+  private placeNames(place: Place): string[] {
+    switch (place.kind) {
+      case "city":
+        return [place.city.name, ...place.city.alternate_names];
+      case "region":
+        return [place.region.name, ...place.region.alternate_names];
+      case "country":
+        return [place.country.name, ...place.country.alternate_names];
+    }
+  }
+
+  private addNames(names: string[], place: Place) {
+    for (const name of names) {
+      const key = normalize(name);
+      this.places.set(key, [...(this.places.get(key) || []), place]);
+    }
+  }
+
+  private countryCode(code: string, filePath: string): string {
+    const isoCode = String(code || "").toUpperCase();
+    if (!this.countries.has(isoCode)) {
+      throw new Error(`Unknown country code "${code}" in ${filePath}`);
+    }
+    return isoCode;
+  }
+}
+
+// Whether a profile's location is inside the requested region. Profiles
+// without a known location can't be ruled out and are kept.
+function matchesRegion(
+  location: ProfileLocation | undefined,
+  filter: RegionFilter
+): boolean {
+  if (filter.kind === "global" || !location || !location.iso_code) {
+    return true;
+  }
+  if (!filter.countries.includes(location.iso_code)) {
+    return false;
+  }
+  if (filter.region && location.region && location.region !== filter.region) {
+    return false;
+  }
+  if (filter.city && location.city && location.city !== filter.city) {
+    return false;
+  }
+  return true;
+}
+
+// Drop profiles located outside the requested region
+function filterByRegion<T extends { location?: ProfileLocation }>(
+  profiles: T[],
+  filter?: RegionFilter
+): T[] {
+  return filter
+    ? profiles.filter((profile) => matchesRegion(profile.location, filter))
+    : profiles;
+}
+
+// "Austin, Texas, United States"
+function formatLocation(location?: ProfileLocation): string {
+  if (!location) {
+    return "";
+  }
+  return [location.city, location.region, location.country]
+    .filter((part, index, parts) => part && parts.indexOf(part) === index)
+    .join(", ");
+}
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export {
+  Gazetteer,
+  ProfileLocation,
+  RegionFilter,
+  matchesRegion,
+  filterByRegion,
+  formatLocation
+};
@@ -0,0 +1,208 @@
+// Types and Interfaces
+interface RetryPolicy {
+  // Total attempts per request, including the first one
+  attempts: number;
+  // Backoff before retry n is a random delay up to baseDelayMs * 2^(n-1),
+  // capped at maxDelayMs
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Longest Retry-After we are willing to wait; longer ones fail right away
+  maxRetryAfterMs: number;
+  // Per-attempt timeout
+  timeoutMs: number;
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 30000,
+  timeoutMs: 10000,
+};
+
+// Statuses worth retrying: rate limiting and transient server errors
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+// A provider request that failed after all retries
+class ProviderRequestError extends Error {
+  provider: string;
+  // HTTP status, or null when no response was received
+  status: number | null;
+  retryable: boolean;
+  attempts: number;
+
+  constructor(
+    provider: string,
+    message: string,
+    status: number | null,
+    retryable: boolean,
+    attempts: number = 1
+  ) {
+    super(`${provider} request failed: ${message}`);
+    this.name = "ProviderRequestError";
+    this.provider = provider;
+    this.status = status;
+    this.retryable = retryable;
+    this.attempts = attempts;
+  }
+}
+
+// 429 Too Many Requests
+class ProviderRateLimitError extends ProviderRequestError {
+  // Delay the provider asked for, if it sent a Retry-After header
+  retryAfterMs: number | null;
+
+  constructor(provider: string, retryAfterMs: number | null, attempts: number = 1) {
+    super(provider, "rate limited (429)", 429, true, attempts);
+    this.name = "ProviderRateLimitError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// The request didn't complete within the policy's timeout
+class ProviderTimeoutError extends ProviderRequestError {
+  constructor(provider: string, timeoutMs: number, attempts: number = 1) {
+    super(provider, `timed out after ${timeoutMs}ms`, null, true, attempts);
+    this.name = "ProviderTimeoutError";
+  }
+}
+
+// Called before every attempt, retries included. Throwing stops the request,
+// e.g. when a provider is over its budget.
+type AttemptHook = () => void;
+
+// Fetch wrapper shared by the search providers: per-attempt timeouts,
+// retries with exponential backoff and jitter, and Retry-After handling
+class HttpClient {
+  private provider: string;
+  private policy: RetryPolicy;
+  private beforeAttempt?: AttemptHook;
+
+  constructor(provider: string, policy: Partial<RetryPolicy> = {}, beforeAttempt?: AttemptHook) {
+    this.provider = provider;
+    this.policy = { ...DEFAULT_RETRY_POLICY, ...policy };
+    this.beforeAttempt = beforeAttempt;
+  }
+
+  async getJson<T>(url: string, init: RequestInit = {}): Promise<T> {
+    const response = await this.fetch(url, init);
+    try {
+      return (await response.json()) as T;
+    } catch (error) {
+      throw new ProviderRequestError(
+        this.provider,
+        `invalid JSON response (${error})`,
+        response.status,
+        false
+      );
+    }
+  }
+
+  // Fetch with retries. Resolves with an OK response or throws a
+  // ProviderRequestError (or one of its subclasses).
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const { attempts } = this.policy;
+
+    for (let attempt = 1; ; attempt++) {
+      let error: ProviderRequestError;
+      let retryAfterMs: number | null = null;
+
+      this.beforeAttempt?.();
+      try {
+        const response = await this.fetchOnce(url, init);
+        if (response.ok) {
+          return response;
+        }
+
+        if (response.status === 429 || response.status === 503) {
+          retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"));
+        }
+        error =
+          response.status === 429
+            ? new ProviderRateLimitError(this.provider, retryAfterMs, attempt)
+            : new ProviderRequestError(
+                this.provider,
+                `${response.status} ${response.statusText}`.trim(),
+                response.status,
+                RETRYABLE_STATUSES.includes(response.status),
+                attempt
+              );
+      } catch (caught) {
+        error =
+          caught instanceof ProviderRequestError
+            ? caught
+            : new ProviderRequestError(this.provider, String(caught), null, true, attempt);
+        error.attempts = attempt;
+      }
+
+      if (!error.retryable || attempt >= attempts) {
+        throw error;
+      }
+
+      // Honor Retry-After unless it's longer than we want to wait
+      let delayMs = this.backoff(attempt);
+      if (retryAfterMs !== null) {
+        if (retryAfterMs > this.policy.maxRetryAfterMs) {
+          throw error;
+        }
+        delayMs = retryAfterMs;
+      }
+
+      console.warn(
+        `${error.message}, retrying in ${delayMs}ms (attempt ${attempt + 1}/${attempts})`
+      );
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+
+  private async fetchOnce(url: string, init: RequestInit): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.policy.timeoutMs);
+
+    try {
+      return await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new ProviderTimeoutError(this.provider, this.policy.timeoutMs);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // Exponential backoff with full jitter
+  private backoff(attempt: number): number {
+    const ceiling = Math.min(
+      this.policy.maxDelayMs,
+      this.policy.baseDelayMs * 2 ** (attempt - 1)
+    );
+    return Math.round(Math.random() * ceiling);
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+export {
+  HttpClient,
+  RetryPolicy,
+  AttemptHook,
+  DEFAULT_RETRY_POLICY,
+  ProviderRequestError,
+  ProviderRateLimitError,
+  ProviderTimeoutError,
+  parseRetryAfter
+};
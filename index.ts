@@ -1,64 +1,308 @@
-import { Hono } from "hono";
+import { Hono, Context, Handler } from "hono";
 import { cors } from "hono/cors";
 import { logger } from "hono/logger";
+import { stream, streamSSE } from "hono/streaming";
 import { serve } from "@hono/node-server";
 import { TelegramExecutiveBot } from "./telegram-bot.js";
 import {
-  LinkedInProfileSearchService,
-  SerpApiSearchService,
+  GoogleSearchProvider,
+  SerpApiSearchProvider,
+  SearchProviderRegistry,
   ProfileExtractor,
-  GoogleSearchResponse,
-  SerpApiResponse,
-  LinkedInProfile,
 } from "./search-services.js";
+import {
+  ProfileMerger,
+  MergedProfile,
+  ProviderCoverage,
+} from "./profile-merger.js";
+import { profileKey } from "./linkedin-url.js";
+import { SqliteSearchStore, SearchStore } from "./search-store.js";
+import { TitleCatalog } from "./title-catalog.js";
+import { Taxonomy } from "./taxonomy.js";
+import { Gazetteer } from "./gazetteer.js";
+import { ConfidenceScorer } from "./confidence-scorer.js";
+import {
+  CompanyNormalizer,
+  CompanyDirectory,
+  SqliteCompanyIndexStore,
+} from "./company-directory.js";
+import { COMPANY_SEARCH_RESULTS } from "./company-search.js";
+import {
+  SearchPipeline,
+  SearchRequest,
+  ProviderError,
+  ProviderFallback,
+  SearchOutcome,
+} from "./search-pipeline.js";
+import { SearchJobRunner, SqliteJobStore } from "./search-jobs.js";
+import {
+  SearchBatchRunner,
+  SqliteBatchStore,
+  SearchBatch,
+  batchRowsFromCsv,
+  batchResults,
+} from "./search-batches.js";
+import { EXPORT_FORMATS, exportProfiles } from "./export.js";
+import { SearchCache } from "./search-cache.js";
+import {
+  CrmFieldMappings,
+  CrmSinkRegistry,
+  HubSpotSink,
+  SalesforceSink,
+} from "./crm-sinks.js";
+import { CrmSync, SqliteSyncStatusStore } from "./crm-sync.js";
+import { QuotaTracker } from "./quota-tracker.js";
+import {
+  SqliteApiKeyStore,
+  TokenBucketLimiter,
+  AuthVariables,
+  apiKeyAuth,
+} from "./api-keys.js";
+import {
+  ValidationError,
+  NotFoundError,
+  RequestIdVariables,
+  requestId,
+  toApiError,
+  errorEnvelope,
+  handleError,
+  handleNotFound,
+} from "./api-errors.js";
+import { Schema, v } from "./validation.js";
+import { ApiSpec, docsPage } from "./openapi.js";
+import {
+  searchRequestSchema,
+  searchOptionsQuerySchema,
+  searchQuerySchema,
+  jobRequestSchema,
+  companyBatchSchema,
+  batchRequestSchema,
+  batchResultsQuerySchema,
+  exportQuerySchema,
+  crmSyncRequestSchema,
+  syncStatusQuerySchema,
+  historyQuerySchema,
+  companiesQuerySchema,
+  apiKeySchema,
+  numericIdSchema,
+  searchResponseSchema,
+  searchPlanSchema,
+  companyBatchResponseSchema,
+  jobAcceptedSchema,
+  jobSchema,
+  batchSummarySchema,
+  batchResultsSchema,
+  providersSchema,
+  cacheStatsSchema,
+  quotaSchema,
+  taxonomySchema,
+  titleFamiliesSchema,
+  historyPageSchema,
+  searchDetailSchema,
+  companyListingSchema,
+  issuedApiKeySchema,
+  apiKeyRecordSchema,
+  apiKeyListSchema,
+  crmSinksSchema,
+  syncReportSchema,
+  syncStatusListSchema,
+  statusSchema,
+  healthSchema,
+} from "./api-schemas.js";
+import packageJson from "./package.json";
 import dotenv from "dotenv";
 dotenv.config();
 
 // Types and Interfaces
-interface SearchRequest {
-  region?: string;
-  company_sector?: string;
-  company_type?: string;
-  company_size?: string;
-  num_results?: number;
-  get_all_pages?: boolean;
+interface CompanyCandidate {
+  company: string;
+  company_domain?: string;
+  search_id: number | null;
+  // The highest ranked tech leader found at the company, if any
+  candidate: Partial<MergedProfile> | null;
+  candidates_found: number;
+  error?: string;
 }
 
 interface SearchResponse {
+  search_id: number;
   query: string;
+  providers: string[];
   total_results: number;
   search_time: number;
   linkedin_urls: string[];
+  profiles: Partial<MergedProfile>[];
+  provider_coverage: ProviderCoverage[];
+  provider_errors: ProviderError[];
+  provider_fallbacks: ProviderFallback[];
+  quota_exhausted: string[];
+  pages_failed: number;
+  skipped_seen: number;
   timestamp: string;
 }
 
+// A search request with the options only the routes read
+interface RouteSearchRequest {
+  request: SearchRequest;
+  provider?: string;
+  fields: (keyof MergedProfile)[] | null;
+}
+
+type AppEnv = { Variables: AuthVariables & RequestIdVariables };
+
 // Configuration
 const GOOGLE_API_KEY = process.env.GOOGLE_API_KEY || "";
 const GOOGLE_CSE_ID = process.env.GOOGLE_CSE_ID || "";
 const SERPAPI_KEY = process.env.SERPAPI_KEY || "";
 const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN || "";
 const CORS_ORIGINS = process.env.CORS_ORIGINS || "*";
+const DATABASE_PATH = process.env.DATABASE_PATH || "data/cto-finder.db";
+const TITLE_FAMILIES_PATH =
+  process.env.TITLE_FAMILIES_PATH || "title-families.json";
+const TAXONOMY_PATH = process.env.TAXONOMY_PATH || "taxonomy.json";
+const GAZETTEER_PATH = process.env.GAZETTEER_PATH || "gazetteer.json";
+const SCORING_PATH = process.env.SCORING_PATH || "scoring.json";
+const COMPANY_ALIASES_PATH =
+  process.env.COMPANY_ALIASES_PATH || "company-aliases.json";
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || "";
+// Accepted with every scope without being stored; use it to issue keys
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY || "";
+// Default requests per minute per API key
+const RATE_LIMIT_PER_MINUTE = parseInt(
+  process.env.RATE_LIMIT_PER_MINUTE || "60"
+);
+const JOB_CONCURRENCY = parseInt(process.env.JOB_CONCURRENCY || "2");
+// Batch rows run at the same time, and rows per batch
+const BATCH_CONCURRENCY = parseInt(process.env.BATCH_CONCURRENCY || "2");
+const BATCH_MAX_ROWS = parseInt(process.env.BATCH_MAX_ROWS || "100");
+// Provider response cache, set CACHE_TTL_SECONDS=0 to disable
+const CACHE_TTL_SECONDS = parseInt(process.env.CACHE_TTL_SECONDS || "86400");
+const CACHE_MEMORY_ENTRIES = parseInt(
+  process.env.CACHE_MEMORY_ENTRIES || "500"
+);
+// Request budgets per provider, 0 means unlimited. Defaults match the free
+// tiers (Google CSE: 100 queries/day, SerpApi: 100 searches/month).
+const GOOGLE_DAILY_BUDGET = parseInt(process.env.GOOGLE_DAILY_BUDGET || "100");
+const GOOGLE_MONTHLY_BUDGET = parseInt(
+  process.env.GOOGLE_MONTHLY_BUDGET || "0"
+);
+const SERPAPI_DAILY_BUDGET = parseInt(process.env.SERPAPI_DAILY_BUDGET || "0");
+const SERPAPI_MONTHLY_BUDGET = parseInt(
+  process.env.SERPAPI_MONTHLY_BUDGET || "100"
+);
+// Provider HTTP requests: attempts per page and per-attempt timeout
+const PROVIDER_RETRY_ATTEMPTS = parseInt(
+  process.env.PROVIDER_RETRY_ATTEMPTS || "3"
+);
+const PROVIDER_TIMEOUT_MS = parseInt(process.env.PROVIDER_TIMEOUT_MS || "10000");
+// Most provider requests per search and provider, across sub-queries and pages
+const PROVIDER_MAX_REQUESTS = parseInt(process.env.PROVIDER_MAX_REQUESTS || "30");
+// CRM sinks: field mappings, HubSpot private app token, Salesforce org
+const CRM_MAPPING_PATH = process.env.CRM_MAPPING_PATH || "crm-mapping.json";
+const HUBSPOT_ACCESS_TOKEN = process.env.HUBSPOT_ACCESS_TOKEN || "";
+const HUBSPOT_API_URL = process.env.HUBSPOT_API_URL || "";
+const SALESFORCE_INSTANCE_URL = process.env.SALESFORCE_INSTANCE_URL || "";
+const SALESFORCE_ACCESS_TOKEN = process.env.SALESFORCE_ACCESS_TOKEN || "";
+const SALESFORCE_OBJECT = process.env.SALESFORCE_OBJECT || "Lead";
 
-// In-memory storage for search history (replacing MongoDB)
-const searchHistory: Array<{
-  query: string;
-  company: string | null;
-  region?: string;
-  company_sector?: string;
-  company_type?: string;
-  company_size?: string;
-  results_count: number;
-  search_time: number;
-  timestamp: string;
-}> = [];
+// Persistent storage for search runs and their profiles
+const searchStore: SearchStore = new SqliteSearchStore(DATABASE_PATH);
+const apiKeyStore = new SqliteApiKeyStore(DATABASE_PATH);
 
 // Service instances
-const searchService = new LinkedInProfileSearchService(
-  GOOGLE_API_KEY,
-  GOOGLE_CSE_ID
+const searchCache = new SearchCache(
+  DATABASE_PATH,
+  CACHE_TTL_SECONDS,
+  CACHE_MEMORY_ENTRIES
+);
+const quotaTracker = new QuotaTracker(DATABASE_PATH, {
+  google: { daily: GOOGLE_DAILY_BUDGET, monthly: GOOGLE_MONTHLY_BUDGET },
+  serpapi: { daily: SERPAPI_DAILY_BUDGET, monthly: SERPAPI_MONTHLY_BUDGET },
+});
+const providerServices = {
+  cache: searchCache,
+  quota: quotaTracker,
+  retry: { attempts: PROVIDER_RETRY_ATTEMPTS, timeoutMs: PROVIDER_TIMEOUT_MS },
+  maxRequests: PROVIDER_MAX_REQUESTS,
+};
+const searchProviders = new SearchProviderRegistry()
+  .register(
+    new GoogleSearchProvider(GOOGLE_API_KEY, GOOGLE_CSE_ID, providerServices),
+    true
+  )
+  .register(new SerpApiSearchProvider(SERPAPI_KEY, providerServices));
+const titleCatalog = new TitleCatalog(TITLE_FAMILIES_PATH);
+const taxonomy = new Taxonomy(TAXONOMY_PATH);
+taxonomy.watch();
+const gazetteer = new Gazetteer(GAZETTEER_PATH);
+const confidenceScorer = new ConfidenceScorer(SCORING_PATH);
+const profileExtractor = new ProfileExtractor(gazetteer, confidenceScorer);
+const profileMerger = new ProfileMerger();
+const companyNormalizer = new CompanyNormalizer(COMPANY_ALIASES_PATH);
+const searchPipeline = new SearchPipeline(
+  searchProviders,
+  titleCatalog,
+  taxonomy,
+  gazetteer,
+  companyNormalizer,
+  profileExtractor,
+  profileMerger,
+  searchStore,
+  quotaTracker
+);
+const companyDirectory = new CompanyDirectory(
+  searchStore,
+  new SqliteCompanyIndexStore(DATABASE_PATH),
+  companyNormalizer,
+  titleCatalog.get("cto")?.primary_titles || ["CTO"]
+);
+const jobRunner = new SearchJobRunner(
+  searchPipeline,
+  new SqliteJobStore(DATABASE_PATH),
+  WEBHOOK_SECRET,
+  JOB_CONCURRENCY
+);
+
+const batchRunner = new SearchBatchRunner(
+  searchPipeline,
+  new SqliteBatchStore(DATABASE_PATH),
+  BATCH_CONCURRENCY,
+  BATCH_MAX_ROWS
 );
-const serpApiService = new SerpApiSearchService(SERPAPI_KEY);
-const profileExtractor = new ProfileExtractor();
+
+const crmMappings = new CrmFieldMappings(CRM_MAPPING_PATH);
+const crmSinkOptions = {
+  retry: { attempts: PROVIDER_RETRY_ATTEMPTS, timeoutMs: PROVIDER_TIMEOUT_MS },
+};
+const crmSinks = new CrmSinkRegistry()
+  .register(
+    new HubSpotSink(HUBSPOT_ACCESS_TOKEN, crmMappings.get("hubspot"), {
+      ...crmSinkOptions,
+      baseUrl: HUBSPOT_API_URL,
+    })
+  )
+  .register(
+    new SalesforceSink(
+      SALESFORCE_INSTANCE_URL,
+      SALESFORCE_ACCESS_TOKEN,
+      crmMappings.get("salesforce"),
+      SALESFORCE_OBJECT,
+      crmSinkOptions
+    )
+  );
+const crmSync = new CrmSync(crmSinks, new SqliteSyncStatusStore(DATABASE_PATH));
+
+// Pick up jobs that were queued or running before a restart
+jobRunner.resume().then((count) => {
+  if (count > 0) {
+    console.log(`⚙️ Resumed ${count} unfinished search jobs`);
+  }
+});
+batchRunner.resume().then((count) => {
+  if (count > 0) {
+    console.log(`📦 Resumed ${count} unfinished search batches`);
+  }
+});
 
 // Initialize Telegram bot if token is provided
 let telegramBot: TelegramExecutiveBot | null = null;
@@ -66,9 +310,12 @@ if (TELEGRAM_BOT_TOKEN) {
   try {
     telegramBot = new TelegramExecutiveBot(
       TELEGRAM_BOT_TOKEN,
-      searchService,
-      serpApiService,
-      profileExtractor
+      searchProviders,
+      searchPipeline,
+      titleCatalog,
+      taxonomy,
+      gazetteer,
+      batchRunner
     );
     telegramBot.start();
     console.log("🤖 Telegram bot initialized and started!");
@@ -79,238 +326,920 @@ if (TELEGRAM_BOT_TOKEN) {
   console.log("⚠️ Telegram bot token not provided. Telegram bot disabled.");
 }
 
+// Validate the JSON body. A body that isn't JSON is a validation error too.
+async function readJsonBody<T>(c: Context, schema: Schema<T>): Promise<T> {
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    throw new ValidationError("The request body must be valid JSON");
+  }
+  return schema.parse(body);
+}
+
+// Validate the query string, where lists are comma separated
+function readQuery<T>(c: Context, schema: Schema<T>): T {
+  return schema.parse(c.req.query(), { coerce: true });
+}
+
+function selectProfileFields(
+  profile: MergedProfile,
+  fields: (keyof MergedProfile)[] | null
+): Partial<MergedProfile> {
+  if (!fields) {
+    return profile;
+  }
+
+  const selected: Partial<MergedProfile> = {};
+  for (const field of fields) {
+    if (profile[field] !== undefined) {
+      (selected as Record<string, unknown>)[field] = profile[field];
+    }
+  }
+  return selected;
+}
+
+// Read a search request from the JSON body, or from the query string for GET
+// requests (EventSource can only send GETs). provider, fields,
+// min_confidence, cache, fallback, dry_run and only_new in the query string
+// override the body.
+async function readSearchRequest(c: Context): Promise<RouteSearchRequest> {
+  let provider: string | undefined;
+  let request: SearchRequest;
+  if (c.req.method === "GET") {
+    ({ provider, ...request } = readQuery(c, searchQuerySchema));
+  } else {
+    const body = await readJsonBody(c, searchRequestSchema);
+    const options = readQuery(c, searchOptionsQuerySchema);
+    ({ provider, ...request } = { ...body, ...options });
+  }
+
+  // No fields selector returns every field
+  const fields = request.fields?.length
+    ? (request.fields as (keyof MergedProfile)[])
+    : null;
+  return { request, provider, fields };
+}
+
+// A batch without its combined profiles, which are served as a file
+function batchSummary(batch: SearchBatch) {
+  const { id, profiles, ...details } = batch;
+  return {
+    batch_id: id,
+    ...details,
+    profiles_found: profiles.length,
+    status_url: `/api/batch/${id}`,
+    results_url: `/api/batch/${id}/results`,
+  };
+}
+
+function buildSearchResponse(
+  outcome: SearchOutcome,
+  fields: (keyof MergedProfile)[] | null
+): SearchResponse {
+  const { search, profiles } = outcome;
+
+  return {
+    search_id: search.id,
+    query: search.query,
+    providers: outcome.providers,
+    total_results: profiles.length,
+    search_time: search.search_time,
+    // Extract only LinkedIn URLs from profiles
+    linkedin_urls: profiles.map((profile) => profile.linkedin_url),
+    profiles: profiles.map((profile) => selectProfileFields(profile, fields)),
+    provider_coverage: outcome.coverage,
+    provider_errors: outcome.provider_errors,
+    provider_fallbacks: outcome.provider_fallbacks,
+    quota_exhausted: outcome.quota_exhausted,
+    pages_failed: outcome.pages_failed,
+    skipped_seen: outcome.skipped_seen,
+    timestamp: new Date().toISOString(),
+  };
+}
+
 // Create Hono app
-const app = new Hono();
+const app = new Hono<AppEnv>();
+
+// Every error becomes { error: { code, message, details?, request_id } }
+// with a matching status
+app.onError(handleError);
+app.notFound(handleNotFound);
 
 // Middleware
+app.use("*", requestId());
 app.use("*", logger());
 app.use(
   "*",
   cors({
     origin: CORS_ORIGINS === "*" ? "*" : CORS_ORIGINS.split(","),
     allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-    allowHeaders: ["Content-Type", "Authorization"],
-    credentials: true,
+    allowHeaders: ["Content-Type", "Authorization", "X-API-Key", "X-Request-Id"],
+    exposeHeaders: [
+      "X-Request-Id",
+      "X-RateLimit-Limit",
+      "X-RateLimit-Remaining",
+      "X-RateLimit-Reset",
+      "Retry-After",
+    ],
+    // Browsers refuse credentials with a wildcard origin, and API keys
+    // aren't cookies anyway
+    credentials: CORS_ORIGINS !== "*",
   })
 );
 
+// Routes are declared with their schemas, which generate the OpenAPI
+// document served at /api/openapi.json
+const api = new ApiSpec(app, {
+  title: "LinkedIn CTO Finder API",
+  version: packageJson.version,
+  description: "Find CTOs and other tech leaders on LinkedIn through search providers.",
+});
+
+// Every API route but the public ones needs an API key
+const authenticate = apiKeyAuth(
+  apiKeyStore,
+  new TokenBucketLimiter(),
+  RATE_LIMIT_PER_MINUTE,
+  ADMIN_API_KEY || undefined
+);
+app.use("/api/*", async (c: Context, next) =>
+  api.isPublic(c.req.path) ? next() : authenticate(c, next)
+);
+
 // API Routes
-app.post("/api/search/profiles", async (c) => {
-  try {
-    const request: SearchRequest = await c.req.json();
-    const startTime = Date.now();
-
-    // Execute search - get all pages by default unless num_results is specified
-    const getAllPages =
-      request.get_all_pages !== undefined
-        ? request.get_all_pages
-        : !request.num_results;
-    const numResults = request.num_results || 10;
-
-    let searchResults;
-    if (getAllPages) {
-      searchResults = await searchService.searchCtoProfiles(
-        request.region,
-        request.company_sector,
-        request.company_type,
-        undefined,
-        true
-      );
+api.route(
+  {
+    method: "POST",
+    path: "/api/search/profiles",
+    tag: "Search",
+    summary: "Search for profiles",
+    description: "Searches by job title or title family (CTOs by default) with optional filters. Options in the query string override the body.",
+    scope: "search",
+    query: searchOptionsQuerySchema,
+    body: searchRequestSchema,
+    responses: {
+      200: {
+        description: "The profiles found, or the provider queries of a dry run",
+        schema: v.union(searchResponseSchema, searchPlanSchema),
+      },
+    },
+    errors: [502, 503],
+  },
+  async (c) => {
+    const { request, provider, fields } = await readSearchRequest(c);
+    const prepared = searchPipeline.prepare(request, provider);
+
+    // Show the generated provider queries without spending any requests
+    if (prepared.request.dry_run) {
+      return c.json({
+        dry_run: true,
+        title_family: prepared.family.name,
+        providers: searchPipeline.plan(prepared),
+      });
+    }
+
+    const outcome = await searchPipeline.run(prepared);
+    return c.json(buildSearchResponse(outcome, fields));
+  }
+);
+
+// Company-targeted search for a batch of companies: the best tech-leader
+// candidate per company. Companies are searched one after another so the
+// provider budgets are checked before each one, and each fetches
+// COMPANY_SEARCH_RESULTS results unless the request asks for all pages.
+api.route(
+  {
+    method: "POST",
+    path: "/api/search/companies",
+    tag: "Search",
+    summary: "Find the best tech-leader candidate per company",
+    scope: "search",
+    query: searchOptionsQuerySchema,
+    body: companyBatchSchema,
+    responses: {
+      200: { description: "One result per company", schema: companyBatchResponseSchema },
+    },
+  },
+  async (c) => {
+    const { companies, ...shared } = await readJsonBody(c, companyBatchSchema);
+    const options = readQuery(c, searchOptionsQuerySchema);
+    const selector = options.fields ?? shared.fields;
+    const fields = selector?.length ? (selector as (keyof MergedProfile)[]) : null;
+
+    const results: CompanyCandidate[] = [];
+    for (const entry of companies) {
+      const target = typeof entry === "string" ? { company: entry } : { ...entry };
+      const result: CompanyCandidate = {
+        company: target.company,
+        company_domain: target.company_domain,
+        search_id: null,
+        candidate: null,
+        candidates_found: 0,
+      };
+
+      try {
+        const prepared = searchPipeline.prepare(
+          {
+            ...shared,
+            ...target,
+            num_results: shared.num_results ?? COMPANY_SEARCH_RESULTS,
+            dry_run: false,
+          },
+          options.provider
+        );
+        const outcome = await searchPipeline.run(prepared);
+        result.search_id = outcome.search.id;
+        result.candidates_found = outcome.profiles.length;
+        result.candidate = outcome.profiles[0]
+          ? selectProfileFields(outcome.profiles[0], fields)
+          : null;
+      } catch (error) {
+        const apiError = toApiError(error);
+        if (apiError.code === "INTERNAL_ERROR") {
+          console.error(`Company search for ${target.company} failed:`, error);
+        }
+        result.error = apiError.message;
+      }
+      results.push(result);
+    }
+
+    return c.json({ results, timestamp: new Date().toISOString() });
+  }
+);
+
+// Streaming variant: sends each profile as a Server-Sent Event as soon as
+// its page is parsed, then a summary event with the full search response
+const streamSearch: Handler<AppEnv> = async (c) => {
+  // Invalid requests are rejected before the stream starts
+  const { request, provider, fields } = await readSearchRequest(c);
+  const prepared = searchPipeline.prepare(request, provider);
+
+  return streamSSE(c, async (stream) => {
+    // Only send each person once, even if several pages or providers return them
+    const seen: Set<string> = new Set();
+
+    try {
+      const outcome = await searchPipeline.run(prepared, async (page) => {
+        for (const profile of page.profiles) {
+          const key = profileKey(profile.linkedin_url);
+          if (profile.confidence_score < prepared.minConfidence || seen.has(key)) {
+            continue;
+          }
+
+          seen.add(key);
+          await stream.writeSSE({
+            event: "profile",
+            id: String(seen.size),
+            data: JSON.stringify(
+              selectProfileFields({ ...profile, found_by: [page.provider] }, fields)
+            ),
+          });
+        }
+
+        await stream.writeSSE({
+          event: "progress",
+          data: JSON.stringify({
+            provider: page.provider,
+            page: page.page,
+            profiles_found: seen.size,
+          }),
+        });
+      });
+
+      await stream.writeSSE({
+        event: "summary",
+        data: JSON.stringify(buildSearchResponse(outcome, fields)),
+      });
+    } catch (error) {
+      console.error(`Streaming search failed [${c.get("requestId")}]:`, error);
+      await stream.writeSSE({
+        event: "error",
+        data: JSON.stringify(errorEnvelope(toApiError(error), c.get("requestId"))),
+      });
+    }
+  });
+};
+
+const STREAM_EVENTS = {
+  "text/event-stream":
+    "Events: profile (one profile), progress ({ provider, page, profiles_found }), summary (the search response) and error (the error envelope)",
+};
+
+api.route(
+  {
+    method: "GET",
+    path: "/api/search/profiles/stream",
+    tag: "Search",
+    summary: "Stream a search as Server-Sent Events",
+    description: "For EventSource: the whole search request in the query string, lists comma separated.",
+    scope: "search",
+    query: searchQuerySchema,
+    responses: { 200: { description: "The event stream", content: STREAM_EVENTS } },
+    errors: [503],
+  },
+  streamSearch
+);
+
+api.route(
+  {
+    method: "POST",
+    path: "/api/search/profiles/stream",
+    tag: "Search",
+    summary: "Stream a search as Server-Sent Events",
+    scope: "search",
+    query: searchOptionsQuerySchema,
+    body: searchRequestSchema,
+    responses: { 200: { description: "The event stream", content: STREAM_EVENTS } },
+    errors: [503],
+  },
+  streamSearch
+);
+
+// Asynchronous search jobs
+api.route(
+  {
+    method: "POST",
+    path: "/api/jobs",
+    tag: "Jobs",
+    summary: "Start a search in the background",
+    scope: "search",
+    body: jobRequestSchema,
+    responses: { 202: { description: "The job was queued", schema: jobAcceptedSchema } },
+    errors: [503],
+  },
+  async (c) => {
+    const { provider, callback_url, ...request } = await readJsonBody(
+      c,
+      jobRequestSchema
+    );
+    const job = await jobRunner.submit(request, provider, callback_url);
+
+    return c.json(
+      {
+        job_id: job.id,
+        status: job.status,
+        status_url: `/api/jobs/${job.id}`,
+      },
+      202
+    );
+  }
+);
+
+api.route(
+  {
+    method: "GET",
+    path: "/api/jobs/:id",
+    tag: "Jobs",
+    summary: "Get a search job's status and results",
+    scope: "search",
+    responses: { 200: { description: "The job", schema: jobSchema } },
+    errors: [404],
+  },
+  async (c) => {
+    const job = await jobRunner.get(c.req.param("id"));
+    if (!job) {
+      throw new NotFoundError("Job not found");
+    }
+
+    const { id, ...details } = job;
+    return c.json({ job_id: id, ...details });
+  }
+);
+
+// Bulk search: a CSV (one search request per row, the request fields as
+// header) or a JSON list of search requests, run in the background. Each
+// row is validated on its own; rows that can't run are marked failed.
+api.route(
+  {
+    method: "POST",
+    path: "/api/batch",
+    tag: "Batches",
+    summary: "Run many searches from a CSV or a JSON list",
+    scope: "search",
+    query: searchOptionsQuerySchema.omit("fields", "min_confidence", "cache", "fallback", "dry_run", "only_new"),
+    body: batchRequestSchema,
+    bodyContent: { "text/csv": "One search request per row, the request fields as header" },
+    responses: { 202: { description: "The batch was queued", schema: batchSummarySchema } },
+  },
+  async (c) => {
+    let requests: unknown[];
+    let provider = readQuery(c, searchOptionsQuerySchema).provider;
+    if (/text\/(csv|plain)/.test(c.req.header("Content-Type") || "")) {
+      requests = batchRowsFromCsv(await c.req.text());
     } else {
-      searchResults = await searchService.searchCtoProfilesLimited(
-        request.region,
-        request.company_sector,
-        request.company_type,
-        undefined,
-        numResults
-      );
+      const body = await readJsonBody(c, batchRequestSchema);
+      if (Array.isArray(body)) {
+        requests = body;
+      } else {
+        requests = body.requests;
+        provider = provider ?? body.provider;
+      }
     }
 
-    // Extract and validate profiles
-    const searchContext = [
-      request.region,
-      request.company_sector,
-      request.company_type,
-    ]
-      .filter(Boolean)
-      .join(" ");
-    const profiles = profileExtractor.extractProfiles(
-      searchResults,
-      searchContext
+    const batch = await batchRunner.submit(
+      requests as (SearchRequest & { provider?: string })[],
+      provider
     );
+    return c.json(batchSummary(batch), 202);
+  }
+);
+
+api.route(
+  {
+    method: "GET",
+    path: "/api/batch/:id",
+    tag: "Batches",
+    summary: "Get a batch's status and rows",
+    scope: "search",
+    responses: { 200: { description: "The batch", schema: batchSummarySchema } },
+    errors: [404],
+  },
+  async (c) => {
+    const batch = await batchRunner.get(c.req.param("id"));
+    if (!batch) {
+      throw new NotFoundError("Batch not found");
+    }
+    return c.json(batchSummary(batch));
+  }
+);
 
-    // Calculate search metrics
-    const endTime = Date.now();
-    const searchTime = (endTime - startTime) / 1000;
-    const totalResults = profiles.length;
-
-    // Construct query string for logging
-    const queryParts = [
-      request.region,
-      request.company_sector,
-      request.company_type,
-      request.company_size,
-    ].filter(Boolean);
-    const query = queryParts.length > 0 ? queryParts.join(" ") : "All CTOs";
-
-    // Store search in memory for analytics (replacing MongoDB)
-    const searchRecord = {
-      query,
-      company: null,
-      region: request.region,
-      company_sector: request.company_sector,
-      company_type: request.company_type,
-      company_size: request.company_size,
-      results_count: totalResults,
-      search_time: searchTime,
-      timestamp: new Date().toISOString(),
-    };
-    searchHistory.unshift(searchRecord);
-
-    // Keep only last 100 searches
-    if (searchHistory.length > 100) {
-      searchHistory.splice(100);
+// Combined, deduplicated results of a batch so far, in an export format
+// (CSV by default) or as JSON
+api.route(
+  {
+    method: "GET",
+    path: "/api/batch/:id/results",
+    tag: "Batches",
+    summary: "Download a batch's combined results",
+    description:
+      "Downloads the profiles as CSV, XLSX, JSON Lines or vCard like a search export, or as JSON with `format=json`. `columns` picks the columns of csv, xlsx and jsonl downloads.",
+    scope: "export",
+    query: batchResultsQuerySchema,
+    responses: {
+      200: {
+        description: "Deduplicated profiles of all rows so far",
+        schema: batchResultsSchema,
+        content: {
+          "text/csv": "format=csv, the default",
+          [EXPORT_FORMATS.xlsx.contentType]: "format=xlsx",
+          "application/x-ndjson": "format=jsonl: one JSON object per profile",
+          "text/vcard": "format=vcf: one vCard per profile",
+        },
+      },
+    },
+    errors: [404],
+  },
+  async (c) => {
+    const { format = "csv", columns } = readQuery(c, batchResultsQuerySchema);
+    const batch = await batchRunner.get(c.req.param("id"));
+    if (!batch) {
+      throw new NotFoundError("Batch not found");
     }
 
-    // Extract only LinkedIn URLs from profiles
-    const linkedinUrls = profiles.map((profile) => profile.linkedin_url);
+    if (format === "json") {
+      return c.json({
+        batch_id: batch.id,
+        status: batch.status,
+        total_results: batch.profiles.length,
+        profiles: batch.profiles,
+      });
+    }
 
-    const response: SearchResponse = {
-      query,
-      total_results: totalResults,
-      search_time: searchTime,
-      linkedin_urls: linkedinUrls,
-      timestamp: new Date().toISOString(),
-    };
+    const { contentType, extension } = EXPORT_FORMATS[format];
+    c.header("Content-Type", contentType);
+    c.header(
+      "Content-Disposition",
+      `attachment; filename="batch-${batch.id}.${extension}"`
+    );
 
-    return c.json(response);
-  } catch (error) {
-    console.error("Search failed:", error);
-    return c.json({ error: `Search failed: ${error}` }, 500);
+    return stream(c, async (output) => {
+      let aborted = false;
+      output.onAbort(() => {
+        aborted = true;
+      });
+
+      try {
+        for await (const chunk of batchResults(batch, { format, columns })) {
+          if (aborted) break;
+          await output.write(chunk);
+        }
+      } catch (error) {
+        // The status is already sent, so the download just ends early
+        console.error(`Export of batch ${batch.id} failed [${c.get("requestId")}]:`, error);
+      }
+    });
   }
-});
+);
 
-// SerpAPI endpoint
-app.post("/api/search/profiles-serpapi", async (c) => {
-  try {
-    const request: SearchRequest = await c.req.json();
-    const startTime = Date.now();
+api.route(
+  {
+    method: "GET",
+    path: "/api/search/providers",
+    tag: "Status",
+    summary: "List the search providers",
+    responses: { 200: { description: "Providers and whether they're configured", schema: providersSchema } },
+  },
+  async (c) => {
+    const providers = searchProviders.list().map((provider) => ({
+      name: provider.name,
+      label: provider.label,
+      configured: provider.isConfigured(),
+    }));
+    return c.json({ providers });
+  }
+);
+
+api.route(
+  {
+    method: "GET",
+    path: "/api/cache/stats",
+    tag: "Status",
+    summary: "Provider response cache statistics",
+    scope: "admin",
+    responses: { 200: { description: "Cache statistics", schema: cacheStatsSchema } },
+  },
+  async (c) => {
+    return c.json(searchCache.stats());
+  }
+);
+
+// Requests used and remaining per provider for the current day and month
+api.route(
+  {
+    method: "GET",
+    path: "/api/quota",
+    tag: "Status",
+    summary: "Provider request budgets",
+    responses: { 200: { description: "Usage per provider", schema: quotaSchema } },
+  },
+  async (c) => {
+    const providers = searchProviders
+      .list()
+      .map((provider) => quotaTracker.usage(provider.name));
+    return c.json({ providers });
+  }
+);
+
+// Sectors and company types, for building search forms and keyboards
+api.route(
+  {
+    method: "GET",
+    path: "/api/taxonomy",
+    tag: "Catalog",
+    summary: "Sectors, company types and company sizes",
+    responses: { 200: { description: "The taxonomy", schema: taxonomySchema } },
+  },
+  async (c) => {
+    return c.json(taxonomy);
+  }
+);
+
+api.route(
+  {
+    method: "GET",
+    path: "/api/title-families",
+    tag: "Catalog",
+    summary: "Title families of the catalog",
+    responses: { 200: { description: "The title families", schema: titleFamiliesSchema } },
+  },
+  async (c) => {
+    return c.json({ families: titleCatalog.list() });
+  }
+);
+
+api.route(
+  {
+    method: "GET",
+    path: "/api/search/history",
+    tag: "History",
+    summary: "List stored searches, newest first",
+    scope: "history",
+    query: historyQuerySchema,
+    responses: { 200: { description: "A page of searches", schema: historyPageSchema } },
+  },
+  async (c) => {
+    const { limit = 10, ...filter } = readQuery(c, historyQuerySchema);
+    return c.json(await searchStore.listSearches({ limit, ...filter }));
+  }
+);
+
+api.route(
+  {
+    method: "GET",
+    path: "/api/searches/:id",
+    tag: "History",
+    summary: "Get a stored search with its profiles",
+    scope: "history",
+    params: numericIdSchema,
+    responses: { 200: { description: "The search", schema: searchDetailSchema } },
+    errors: [404],
+  },
+  async (c) => {
+    const { id } = numericIdSchema.parse(c.req.param(), { coerce: true });
+    const search = await searchStore.getSearch(id);
+    if (!search) {
+      throw new NotFoundError("Search not found");
+    }
+
+    const profiles = await searchStore.getSearchProfiles(id);
+    return c.json({ search, profiles });
+  }
+);
 
-    // Check if SerpAPI key is configured
-    if (!SERPAPI_KEY) {
-      return c.json({ error: "SerpAPI key not configured" }, 400);
+// A stored search's profiles as a file, streamed as the profiles are read
+api.route(
+  {
+    method: "GET",
+    path: "/api/searches/:id/export",
+    tag: "History",
+    summary: "Export a stored search's profiles",
+    description:
+      "Downloads the profiles as CSV, XLSX, JSON Lines or vCard. `columns` picks the columns of csv, xlsx and jsonl exports.",
+    scope: "export",
+    params: numericIdSchema,
+    query: exportQuerySchema,
+    responses: {
+      200: {
+        description: "The profiles in the requested format",
+        content: {
+          "text/csv": "format=csv, the default",
+          [EXPORT_FORMATS.xlsx.contentType]: "format=xlsx",
+          "application/x-ndjson": "format=jsonl: one JSON object per profile",
+          "text/vcard": "format=vcf: one vCard per profile",
+        },
+      },
+    },
+    errors: [404],
+  },
+  async (c) => {
+    const { id } = numericIdSchema.parse(c.req.param(), { coerce: true });
+    const { format = "csv", columns } = readQuery(c, exportQuerySchema);
+    const search = await searchStore.getSearch(id);
+    if (!search) {
+      throw new NotFoundError("Search not found");
     }
 
-    // Execute search - get all pages by default unless num_results is specified
-    const getAllPages =
-      request.get_all_pages !== undefined
-        ? request.get_all_pages
-        : !request.num_results;
-
-    const searchResults = await serpApiService.searchCtoProfiles(
-      request.region,
-      request.company_sector,
-      request.company_type,
-      undefined,
-      getAllPages
+    const { contentType, extension } = EXPORT_FORMATS[format];
+    c.header("Content-Type", contentType);
+    c.header(
+      "Content-Disposition",
+      `attachment; filename="search-${id}.${extension}"`
     );
 
-    // Extract and validate profiles using SerpAPI extractor
-    const searchContext = [
-      request.region,
-      request.company_sector,
-      request.company_type,
-    ]
-      .filter(Boolean)
-      .join(" ");
-    const profiles = profileExtractor.extractProfilesFromSerpApi(
-      searchResults,
-      searchContext
+    return stream(c, async (output) => {
+      let aborted = false;
+      output.onAbort(() => {
+        aborted = true;
+      });
+
+      try {
+        const chunks = exportProfiles(searchStore.iterateSearchProfiles(id), {
+          format,
+          columns,
+          criteria: search,
+        });
+        for await (const chunk of chunks) {
+          if (aborted) break;
+          await output.write(chunk);
+        }
+      } catch (error) {
+        // The status is already sent, so the download just ends early
+        console.error(`Export of search ${id} failed [${c.get("requestId")}]:`, error);
+      }
+    });
+  }
+);
+
+// Companies from stored search results, with the people found at each
+api.route(
+  {
+    method: "GET",
+    path: "/api/companies",
+    tag: "History",
+    summary: "Companies from stored results with their tech leaders",
+    scope: "history",
+    query: companiesQuerySchema,
+    responses: { 200: { description: "Companies", schema: companyListingSchema } },
+  },
+  async (c) => {
+    const { limit = 50, flagged = false, ...filter } = readQuery(
+      c,
+      companiesQuerySchema
     );
+    return c.json(await companyDirectory.list({ limit, flagged, ...filter }));
+  }
+);
 
-    // Calculate search metrics
-    const endTime = Date.now();
-    const searchTime = (endTime - startTime) / 1000;
-    const totalResults = profiles.length;
-
-    // Construct query string for logging
-    const queryParts = [
-      request.region,
-      request.company_sector,
-      request.company_type,
-      request.company_size,
-    ].filter(Boolean);
-    const query = queryParts.length > 0 ? queryParts.join(" ") : "All CTOs";
-
-    // Store search in memory for analytics
-    const searchRecord = {
-      query: `${query} (SerpAPI)`,
-      company: null,
-      region: request.region,
-      company_sector: request.company_sector,
-      company_type: request.company_type,
-      company_size: request.company_size,
-      results_count: totalResults,
-      search_time: searchTime,
-      timestamp: new Date().toISOString(),
-    };
-    searchHistory.unshift(searchRecord);
-
-    // Keep only last 100 searches
-    if (searchHistory.length > 100) {
-      searchHistory.splice(100);
+// CRM sinks: push stored profiles to a CRM, upserted by LinkedIn URL
+api.route(
+  {
+    method: "GET",
+    path: "/api/crm/sinks",
+    tag: "CRM",
+    summary: "List CRM sinks with their field mappings",
+    scope: "export",
+    responses: { 200: { description: "CRM sinks", schema: crmSinksSchema } },
+  },
+  (c) => {
+    const sinks = crmSinks.list().map((sink) => ({
+      name: sink.name,
+      label: sink.label,
+      configured: sink.isConfigured(),
+      mapping: sink.mapping,
+    }));
+    return c.json({ sinks });
+  }
+);
+
+api.route(
+  {
+    method: "POST",
+    path: "/api/crm/:sink/sync",
+    tag: "CRM",
+    summary: "Push a stored search's profiles to a CRM",
+    description:
+      "Creates a CRM record for each profile whose LinkedIn URL isn't in the CRM yet and updates the changed fields of the others. Profiles that haven't changed since their last sync are skipped. With `dry_run`, only reports the changes.",
+    scope: "export",
+    body: crmSyncRequestSchema,
+    responses: { 200: { description: "What was done per profile", schema: syncReportSchema } },
+    errors: [404, 503],
+  },
+  async (c) => {
+    const { search_id, ...options } = await readJsonBody(c, crmSyncRequestSchema);
+    // Unknown or unconfigured sinks fail before the search is read
+    crmSync.sink(c.req.param("sink"));
+    const search = await searchStore.getSearch(search_id);
+    if (!search) {
+      throw new NotFoundError("Search not found");
     }
 
-    // Extract only LinkedIn URLs from profiles
-    const linkedinUrls = profiles.map((profile) => profile.linkedin_url);
+    const report = await crmSync.sync(
+      c.req.param("sink"),
+      searchStore.iterateSearchProfiles(search_id),
+      { ...options, criteria: search }
+    );
+    return c.json(report);
+  }
+);
 
-    const response: SearchResponse = {
-      query: `${query} (SerpAPI)`,
-      total_results: totalResults,
-      search_time: searchTime,
-      linkedin_urls: linkedinUrls,
-      timestamp: new Date().toISOString(),
-    };
+api.route(
+  {
+    method: "GET",
+    path: "/api/crm/:sink/status",
+    tag: "CRM",
+    summary: "Sync status of profiles pushed to a CRM",
+    scope: "export",
+    query: syncStatusQuerySchema,
+    responses: {
+      200: { description: "Latest syncs first", schema: syncStatusListSchema },
+    },
+    errors: [404, 503],
+  },
+  async (c) => {
+    const { limit = 50, status } = readQuery(c, syncStatusQuerySchema);
+    const statuses = await crmSync.statuses(c.req.param("sink"), { limit, status });
+    return c.json({ statuses });
+  }
+);
 
-    return c.json(response);
-  } catch (error) {
-    console.error("SerpAPI search failed:", error);
-    return c.json({ error: `SerpAPI search failed: ${error}` }, 500);
+// API key management
+api.route(
+  {
+    method: "POST",
+    path: "/api/admin/keys",
+    tag: "Admin",
+    summary: "Issue an API key",
+    scope: "admin",
+    body: apiKeySchema,
+    responses: { 201: { description: "The key, shown only this once", schema: issuedApiKeySchema } },
+  },
+  async (c) => {
+    const body = await readJsonBody(c, apiKeySchema);
+    const issued = await apiKeyStore.create({
+      name: body.name,
+      scopes: [...new Set(body.scopes)],
+      rate_limit: body.rate_limit,
+    });
+    console.log(`🔑 Issued API key ${issued.api_key.prefix}… (${issued.api_key.name})`);
+    return c.json(issued, 201);
   }
-});
+);
 
-app.get("/api/search/history", async (c) => {
-  try {
-    const limit = Math.min(parseInt(c.req.query("limit") || "10"), 50);
-    const searches = searchHistory.slice(0, limit);
-    return c.json({ searches });
-  } catch (error) {
-    console.error("Failed to get search history:", error);
-    return c.json({ error: "Failed to get search history" }, 500);
+api.route(
+  {
+    method: "GET",
+    path: "/api/admin/keys",
+    tag: "Admin",
+    summary: "List API keys",
+    scope: "admin",
+    responses: { 200: { description: "The issued keys", schema: apiKeyListSchema } },
+  },
+  async (c) => {
+    return c.json({ keys: await apiKeyStore.list() });
   }
-});
+);
 
-app.get("/api/", async (c) => {
-  return c.json({ message: "LinkedIn CTO Finder API", status: "active" });
-});
+api.route(
+  {
+    method: "DELETE",
+    path: "/api/admin/keys/:id",
+    tag: "Admin",
+    summary: "Revoke an API key",
+    scope: "admin",
+    responses: { 200: { description: "The revoked key", schema: apiKeyRecordSchema } },
+    errors: [404],
+  },
+  async (c) => {
+    const revoked = await apiKeyStore.revoke(c.req.param("id"));
+    if (!revoked) {
+      throw new NotFoundError("API key not found");
+    }
+    console.log(`🔑 Revoked API key ${revoked.prefix}… (${revoked.name})`);
+    return c.json(revoked);
+  }
+);
 
-app.get("/api/health", async (c) => {
-  return c.json({ status: "healthy", timestamp: new Date().toISOString() });
-});
+api.route(
+  {
+    method: "GET",
+    path: "/api/",
+    tag: "Status",
+    summary: "API status",
+    public: true,
+    responses: { 200: { description: "The API is up", schema: statusSchema } },
+  },
+  async (c) => {
+    return c.json({ message: "LinkedIn CTO Finder API", status: "active" });
+  }
+);
+
+api.route(
+  {
+    method: "GET",
+    path: "/api/health",
+    tag: "Status",
+    summary: "Health check",
+    public: true,
+    responses: { 200: { description: "The server is healthy", schema: healthSchema } },
+  },
+  async (c) => {
+    return c.json({ status: "healthy", timestamp: new Date().toISOString() });
+  }
+);
+
+api.route(
+  {
+    method: "GET",
+    path: "/api/openapi.json",
+    tag: "Status",
+    summary: "This OpenAPI document",
+    public: true,
+    responses: { 200: { description: "OpenAPI 3.1 document" } },
+  },
+  async (c) => {
+    return c.json(api.document());
+  }
+);
+
+api.route(
+  {
+    method: "GET",
+    path: "/api/docs",
+    tag: "Status",
+    summary: "Interactive API reference",
+    public: true,
+    responses: {
+      200: { description: "HTML page", content: { "text/html": "API reference" } },
+    },
+  },
+  async (c) => {
+    return c.html(docsPage("LinkedIn CTO Finder API", "/api/openapi.json"));
+  }
+);
 
 // Root route
 app.get("/", async (c) => {
   return c.json({ message: "LinkedIn CTO Finder API", status: "active" });
 });
 
-// Start server
-const port = parseInt(process.env.PORT || "3000");
+// Start server when run directly; tests import the app instead
+if (import.meta.main) {
+  const port = parseInt(process.env.PORT || "3000");
 
-console.log(`🚀 LinkedIn CTO Finder API starting on port ${port}`);
+  console.log(`🚀 LinkedIn CTO Finder API starting on port ${port}`);
+  if (!ADMIN_API_KEY) {
+    console.log(
+      "⚠️ ADMIN_API_KEY not set. Only keys issued earlier can call the API."
+    );
+  }
 
-serve({
-  fetch: app.fetch,
-  port,
-});
+  serve({
+    fetch: app.fetch,
+    port,
+  });
+
+  console.log(`✅ Server running at http://localhost:${port}`);
+}
 
-console.log(`✅ Server running at http://localhost:${port}`);
+export { app, api };
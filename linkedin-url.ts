@@ -0,0 +1,66 @@
+// Types and Interfaces
+interface CanonicalProfileUrl {
+  // https://www.linkedin.com/in/<slug>, with the lowercased slug
+  // percent-encoded once
+  url: string;
+  // Decoded, lowercased slug that identifies the person across URL variants
+  key: string;
+}
+
+// Any LinkedIn host (linkedin.com, www., country subdomains such as uk. or
+// in., m.) followed by /in/<slug>
+const PROFILE_URL = /^(?:https?:\/\/)?(?:[a-z]{1,3}\.|www\.)?linkedin\.com\/in\/([^/?#\s]+)/i;
+
+// Canonicalize a LinkedIn profile URL. Country subdomains, query strings,
+// trailing paths ("/details/experience", "/en") and percent-encoding don't
+// change the person, so they don't change the canonical URL or the key.
+// Returns null for URLs that aren't profile pages.
+function canonicalizeLinkedInUrl(url: string): CanonicalProfileUrl | null {
+  const match = url.trim().match(PROFILE_URL);
+  if (!match) {
+    return null;
+  }
+
+  let slug = match[1];
+  try {
+    // Encoded twice by some providers: "%25C3%25A9" for "é"
+    for (let i = 0; i < 2 && /%[0-9a-f]{2}/i.test(slug); i++) {
+      slug = decodeURIComponent(slug);
+    }
+  } catch {
+    // Keep the slug as far as it decoded if it isn't valid percent-encoding
+  }
+  // Composed and decomposed accents ("é" vs "é") are the same slug
+  slug = slug.normalize("NFC");
+  if (!slug) {
+    return null;
+  }
+
+  // Slugs are case-insensitive
+  const key = slug.toLowerCase();
+  return {
+    url: `https://www.linkedin.com/in/${encodeURIComponent(key)}`,
+    key,
+  };
+}
+
+// Stable key for the person behind a profile URL. URLs that aren't profile
+// pages key on themselves.
+function profileKey(url: string): string {
+  return canonicalizeLinkedInUrl(url)?.key ?? url.trim().toLowerCase();
+}
+
+// Parts of a stored URL that identify the profile: "/in/<slug>", decoded
+// and percent-encoded. Stored URLs vary in scheme, subdomain, slug casing and
+// query string, so look them up with a case-insensitive "contains" and
+// filter what comes back by profileKey. URLs that aren't profile pages are
+// looked up as themselves.
+function profileUrlPatterns(url: string): string[] {
+  const canonical = canonicalizeLinkedInUrl(url);
+  if (!canonical) {
+    return [url.trim()];
+  }
+  return [...new Set([`/in/${canonical.key}`, `/in/${encodeURIComponent(canonical.key)}`])];
+}
+
+export { CanonicalProfileUrl, canonicalizeLinkedInUrl, profileKey, profileUrlPatterns };
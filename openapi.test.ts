@@ -0,0 +1,243 @@
+import { describe, expect, spyOn, test } from "bun:test";
+import type { ApiKey, IssuedApiKey } from "./api-keys.js";
+import type { SyncReport } from "./crm-sync.js";
+import type { HttpMethod } from "./openapi.js";
+import type { SearchHistoryPage } from "./search-store.js";
+
+// The app reads its configuration when imported: in-memory storage, a Google
+// provider and a HubSpot sink, both answered by the fetch mock below
+Object.assign(process.env, {
+  DATABASE_PATH: ":memory:",
+  ADMIN_API_KEY: "test-admin-key",
+  GOOGLE_API_KEY: "test",
+  GOOGLE_CSE_ID: "test",
+  SERPAPI_KEY: "",
+  TELEGRAM_BOT_TOKEN: "",
+  CACHE_TTL_SECONDS: "0",
+  HUBSPOT_ACCESS_TOKEN: "test",
+  HUBSPOT_API_URL: "http://hubspot.test",
+  SALESFORCE_INSTANCE_URL: "",
+  SALESFORCE_ACCESS_TOKEN: "",
+});
+
+const GOOGLE_RESULTS = {
+  items: [
+    {
+      title: "Jane Doe - CTO - Acme | LinkedIn",
+      link: "https://www.linkedin.com/in/janedoe",
+      snippet: "Berlin, Germany · CTO at Acme. Building the platform team.",
+    },
+    {
+      title: "John Roe - Chief Technology Officer - Globex | LinkedIn",
+      link: "https://de.linkedin.com/in/johnroe/",
+      snippet: "Munich, Bavaria, Germany · Chief Technology Officer at Globex",
+    },
+  ],
+};
+
+let contactId = 0;
+spyOn(globalThis, "fetch").mockImplementation((async (input: RequestInfo | URL) => {
+  const url = new URL(input instanceof Request ? input.url : String(input));
+  if (url.hostname === "www.googleapis.com") {
+    return Response.json(GOOGLE_RESULTS);
+  }
+  if (url.pathname === "/crm/v3/objects/contacts/search") {
+    return Response.json({ total: 0, results: [] });
+  }
+  if (url.pathname === "/crm/v3/objects/contacts") {
+    return Response.json({ id: String(++contactId) }, { status: 201 });
+  }
+  return new Response("Not found", { status: 404 });
+}) as typeof fetch);
+
+const { app, api } = await import("./index.js");
+
+interface CallOptions {
+  params?: Record<string, string | number>;
+  query?: Record<string, string>;
+  body?: unknown;
+  // Defaults to the route's first declared status
+  status?: number;
+}
+
+let apiKey = "test-admin-key";
+const called: Set<string> = new Set();
+
+type Body = Record<string, unknown>;
+
+// Call a route and parse the response body with the schema the route
+// declares for the status. Strict object schemas reject undeclared fields.
+// T only names the parsed body's type for the assertions that follow.
+async function call<T = Body>(
+  method: HttpMethod,
+  path: string,
+  options: CallOptions = {}
+): Promise<T> {
+  const route = api
+    .definitions()
+    .find((definition) => definition.path === path && [definition.method].flat().includes(method));
+  if (!route) {
+    throw new Error(`No route declared for ${method} ${path}`);
+  }
+
+  const url =
+    path.replace(/:(\w+)/g, (_, name) => String(options.params?.[name])) +
+    (options.query ? `?${new URLSearchParams(options.query)}` : "");
+  const response = await app.request(url, {
+    method,
+    headers: { "X-API-Key": apiKey, "Content-Type": "application/json" },
+    body: options.body === undefined ? undefined : JSON.stringify(options.body),
+  });
+
+  const status = options.status ?? Number(Object.keys(route.responses)[0]);
+  const body = await response.json();
+  expect({ status: response.status, body }).toMatchObject({ status });
+
+  const schema = route.responses[status]?.schema;
+  if (!schema) {
+    throw new Error(`${method} ${path} declares no JSON schema for ${status}`);
+  }
+  called.add(`${method} ${path}`);
+  return schema.parse(body) as T;
+}
+
+// Poll a background job or batch until it's finished
+async function waitFor(
+  poll: () => Promise<Body>,
+  finished: string[]
+): Promise<Body> {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const result = await poll();
+    if (finished.includes(String(result.status))) {
+      return result;
+    }
+    await Bun.sleep(20);
+  }
+  throw new Error("Timed out waiting for a background run");
+}
+
+describe("API responses match their declared schemas", () => {
+  let searchId: number;
+
+  test("admin keys", async () => {
+    const issued = await call<IssuedApiKey>("POST", "/api/admin/keys", {
+      body: { name: "schema test", scopes: ["search", "history", "export", "admin"] },
+      status: 201,
+    });
+    apiKey = issued.key;
+
+    const { keys } = await call<{ keys: ApiKey[] }>("GET", "/api/admin/keys");
+    expect(keys).toHaveLength(1);
+
+    const spare = await call<IssuedApiKey>("POST", "/api/admin/keys", {
+      body: { name: "spare", scopes: ["history"], rate_limit: 10 },
+      status: 201,
+    });
+    const revoked = await call<ApiKey>("DELETE", "/api/admin/keys/:id", {
+      params: { id: spare.api_key.id },
+    });
+    expect(revoked.revoked_at).not.toBeNull();
+  });
+
+  test("searches", async () => {
+    const outcome = await call<{ search_id: number; total_results: number }>(
+      "POST",
+      "/api/search/profiles",
+      { body: { region: "Germany", num_results: 10 } }
+    );
+    expect(outcome.total_results).toBe(2);
+    searchId = outcome.search_id;
+
+    const plan = await call("POST", "/api/search/profiles", {
+      body: { region: "Germany", dry_run: true },
+    });
+    expect(plan.dry_run).toBe(true);
+
+    const { results } = await call("POST", "/api/search/companies", {
+      body: { companies: ["Acme", { company: "Globex", company_domain: "globex.com" }] },
+    });
+    expect(results).toHaveLength(2);
+  });
+
+  test("jobs", async () => {
+    const accepted = await call<{ job_id: string }>("POST", "/api/jobs", {
+      body: { region: "Germany", num_results: 10 },
+      status: 202,
+    });
+    const job = await waitFor(
+      () => call("GET", "/api/jobs/:id", { params: { id: accepted.job_id } }),
+      ["completed", "failed"]
+    );
+    expect(job.status).toBe("completed");
+  });
+
+  test("batches", async () => {
+    const accepted = await call<{ batch_id: string }>("POST", "/api/batch", {
+      body: {
+        requests: [
+          { region: "Germany", num_results: 10 },
+          { job_title: "VP Engineering", num_results: 10 },
+        ],
+      },
+      status: 202,
+    });
+    const batch = await waitFor(
+      () => call("GET", "/api/batch/:id", { params: { id: accepted.batch_id } }),
+      ["completed", "failed"]
+    );
+    expect(batch.status).toBe("completed");
+
+    await call("GET", "/api/batch/:id/results", {
+      params: { id: accepted.batch_id },
+      query: { format: "json" },
+    });
+  });
+
+  test("history", async () => {
+    const page = await call<SearchHistoryPage>("GET", "/api/search/history");
+    expect(page.searches.length).toBeGreaterThan(0);
+
+    const detail = await call("GET", "/api/searches/:id", { params: { id: searchId } });
+    expect(detail.profiles).toHaveLength(2);
+
+    await call("GET", "/api/companies");
+  });
+
+  test("CRM sync", async () => {
+    await call("GET", "/api/crm/sinks");
+
+    const report = await call<SyncReport>("POST", "/api/crm/:sink/sync", {
+      params: { sink: "hubspot" },
+      body: { search_id: searchId },
+    });
+    expect(report.summary.create).toBe(2);
+
+    const { statuses } = await call("GET", "/api/crm/:sink/status", {
+      params: { sink: "hubspot" },
+    });
+    expect(statuses).toHaveLength(2);
+  });
+
+  test("status and catalog", async () => {
+    for (const path of [
+      "/api/",
+      "/api/health",
+      "/api/search/providers",
+      "/api/cache/stats",
+      "/api/quota",
+      "/api/taxonomy",
+      "/api/title-families",
+    ]) {
+      await call("GET", path);
+    }
+  });
+
+  test("every route with a JSON response was called", () => {
+    const jsonRoutes = api
+      .definitions()
+      .filter((route) => Object.values(route.responses).some((response) => response.schema))
+      .flatMap((route) => [route.method].flat().map((method) => `${method} ${route.path}`));
+
+    expect(jsonRoutes.filter((route) => !called.has(route))).toEqual([]);
+  });
+});
@@ -0,0 +1,280 @@
+import { Env, Handler, Hono, MiddlewareHandler } from "hono";
+import { Schema, ObjectSchema, JsonSchema, SchemaComponents } from "./validation.js";
+import { ApiScope, AuthVariables, requireScope } from "./api-keys.js";
+import { errorEnvelopeSchema } from "./api-schemas.js";
+
+// Types and Interfaces
+type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+interface ResponseDefinition {
+  description: string;
+  // JSON body; leave out for non-JSON responses
+  schema?: Schema<unknown>;
+  // Other media types, e.g. { "text/csv": "Results as CSV" }
+  content?: Record<string, string>;
+}
+
+// A route with everything the OpenAPI document says about it
+interface RouteDefinition {
+  method: HttpMethod | HttpMethod[];
+  // Hono path, e.g. "/api/jobs/:id"
+  path: string;
+  summary: string;
+  description?: string;
+  tag: string;
+  // Scope the API key needs; `public` routes need no key at all
+  scope?: ApiScope;
+  public?: boolean;
+  params?: ObjectSchema<unknown>;
+  query?: ObjectSchema<unknown>;
+  body?: Schema<unknown>;
+  // Other request media types, e.g. { "text/csv": "One search request per row" }
+  bodyContent?: Record<string, string>;
+  responses: Record<number, ResponseDefinition>;
+  // Error statuses the route can return besides the ones implied by its
+  // input and authentication, e.g. 404 or 502
+  errors?: number[];
+}
+
+interface ApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: "Invalid request (VALIDATION_ERROR)",
+  401: "Missing, invalid or revoked API key (UNAUTHORIZED)",
+  403: "The API key lacks the route's scope (FORBIDDEN)",
+  404: "Not found (NOT_FOUND)",
+  429: "Rate limit (RATE_LIMITED) or provider budget (QUOTA_EXCEEDED) exceeded",
+  500: "Unexpected error (INTERNAL_ERROR)",
+  502: "Every search provider failed (PROVIDER_UNAVAILABLE)",
+  503: "No search provider, or the requested CRM sink, is configured (PROVIDER_UNAVAILABLE)",
+};
+
+// "/api/jobs/:id" -> "/api/jobs/{id}"
+function openApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, "{$1}");
+}
+
+// Routes declared together with their schemas. Each route is registered on
+// the app and described in the OpenAPI 3.1 document, so the document can't
+// miss a route.
+class ApiSpec<E extends Env & { Variables: AuthVariables }> {
+  private app: Hono<E>;
+  private info: ApiInfo;
+  private routes: RouteDefinition[] = [];
+  private publicPaths: Set<string> = new Set();
+
+  constructor(app: Hono<E>, info: ApiInfo) {
+    this.app = app;
+    this.info = info;
+  }
+
+  route(definition: RouteDefinition, handler: Handler<E>): this {
+    const methods = Array.isArray(definition.method)
+      ? definition.method
+      : [definition.method];
+    const middleware: MiddlewareHandler<E>[] = definition.scope
+      ? [requireScope<E>(definition.scope)]
+      : [];
+
+    this.app.on(methods, definition.path, ...middleware, handler);
+    if (definition.public) {
+      this.publicPaths.add(definition.path);
+    }
+    this.routes.push(definition);
+    return this;
+  }
+
+  // Public routes skip API key authentication
+  isPublic(path: string): boolean {
+    return this.publicPaths.has(path);
+  }
+
+  // The declared routes, e.g. to check responses against their schemas
+  definitions(): RouteDefinition[] {
+    return [...this.routes];
+  }
+
+  document(): JsonSchema {
+    const components: SchemaComponents = {};
+    const paths: Record<string, Record<string, JsonSchema>> = {};
+
+    for (const route of this.routes) {
+      const methods = Array.isArray(route.method) ? route.method : [route.method];
+      const path = openApiPath(route.path);
+      for (const method of methods) {
+        paths[path] = paths[path] || {};
+        paths[path][method.toLowerCase()] = this.operation(route, method, components);
+      }
+    }
+
+    return {
+      openapi: "3.1.0",
+      info: this.info,
+      paths,
+      components: {
+        schemas: components,
+        securitySchemes: {
+          bearer: { type: "http", scheme: "bearer" },
+          apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+          apiKeyQuery: { type: "apiKey", in: "query", name: "api_key" },
+        },
+        headers: {
+          "X-Request-Id": {
+            description: "Request id, also returned as request_id in errors",
+            schema: { type: "string" },
+          },
+        },
+      },
+    };
+  }
+
+  private operation(
+    route: RouteDefinition,
+    method: HttpMethod,
+    components: SchemaComponents
+  ): JsonSchema {
+    // Path parameters without a schema are plain strings
+    const pathParameters = route.params
+      ? this.parameters(route.params, "path", components)
+      : [...route.path.matchAll(/:(\w+)/g)].map(([, name]) => ({
+          name,
+          in: "path",
+          required: true,
+          schema: { type: "string" },
+        }));
+    const parameters = [
+      ...pathParameters,
+      ...this.parameters(route.query, "query", components),
+    ];
+
+    const requestBody = route.body || route.bodyContent
+      ? {
+          required: true,
+          content: {
+            ...(route.body && {
+              "application/json": { schema: route.body.toJsonSchema(components) },
+            }),
+            ...this.textContent(route.bodyContent),
+          },
+        }
+      : undefined;
+
+    // Errors the route's input and authentication imply
+    const errors = new Set([
+      ...(route.params || route.query || requestBody ? [400] : []),
+      ...(route.public ? [] : [401, 429]),
+      ...(route.scope ? [403] : []),
+      ...(route.errors || []),
+      500,
+    ]);
+
+    const responses: Record<string, JsonSchema> = {};
+    for (const [status, response] of Object.entries(route.responses)) {
+      responses[status] = {
+        description: response.description,
+        headers: { "X-Request-Id": { $ref: "#/components/headers/X-Request-Id" } },
+        content: {
+          ...(response.schema && {
+            "application/json": { schema: response.schema.toJsonSchema(components) },
+          }),
+          ...this.textContent(response.content),
+        },
+      };
+    }
+    for (const status of [...errors].sort((a, b) => a - b)) {
+      responses[status] = {
+        description: ERROR_DESCRIPTIONS[status] || "Error",
+        headers: { "X-Request-Id": { $ref: "#/components/headers/X-Request-Id" } },
+        content: {
+          "application/json": { schema: errorEnvelopeSchema.toJsonSchema(components) },
+        },
+      };
+    }
+
+    // GET and POST of the same route get distinct operation ids, e.g.
+    // getJobsId and postSearchProfiles
+    const name = route.path
+      .replace(/^\/api/, "")
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean)
+      .map((part) => part[0].toUpperCase() + part.slice(1))
+      .join("");
+    const operationId = `${method.toLowerCase()}${name || "Root"}`;
+
+    return {
+      operationId,
+      summary: route.summary,
+      ...(route.description && { description: route.description }),
+      tags: [route.tag],
+      ...(route.scope && { "x-required-scope": route.scope }),
+      security: route.public
+        ? []
+        : [{ bearer: [] }, { apiKeyHeader: [] }, { apiKeyQuery: [] }],
+      ...(parameters.length > 0 && { parameters }),
+      ...(requestBody && { requestBody }),
+      responses,
+    };
+  }
+
+  // Path or query parameters from an object schema's fields. Lists in the
+  // query string are comma separated.
+  private parameters(
+    schema: ObjectSchema<unknown> | undefined,
+    location: "path" | "query",
+    components: SchemaComponents
+  ): JsonSchema[] {
+    if (!schema) {
+      return [];
+    }
+
+    return Object.entries(schema.shape).map(([name, field]) => {
+      const { description, ...fieldSchema } = field.toJsonSchema(components);
+      return {
+        name,
+        in: location,
+        required: location === "path" || !field.isOptional(),
+        ...(description !== undefined && { description }),
+        schema: fieldSchema,
+        ...(fieldSchema.type === "array" && { style: "form", explode: false }),
+      };
+    });
+  }
+
+  private textContent(content?: Record<string, string>): Record<string, JsonSchema> {
+    return Object.fromEntries(
+      Object.entries(content || {}).map(([type, description]) => [
+        type,
+        { schema: { type: "string", description } },
+      ])
+    );
+  }
+}
+
+// Interactive API reference (Scalar) for the document at specUrl
+function docsPage(title: string, specUrl: string): string {
+  return `<!doctype html>
+<html>
+  <head>
+    <title>${title}</title>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+  </head>
+  <body>
+    <script id="api-reference" data-url="${specUrl}"></script>
+    <script src="https://cdn.jsdelivr.net/npm/@scalar/api-reference"></script>
+  </body>
+</html>`;
+}
+
+export {
+  ApiSpec,
+  RouteDefinition,
+  ResponseDefinition,
+  HttpMethod,
+  ApiInfo,
+  docsPage
+};
@@ -0,0 +1,128 @@
+import { LinkedInProfile } from "./search-services.js";
+import { profileKey } from "./linkedin-url.js";
+
+// Types and Interfaces
+interface ProviderProfiles {
+  provider: string;
+  profiles: LinkedInProfile[];
+}
+
+interface ProviderCoverage {
+  provider: string;
+  // Distinct profiles this provider returned
+  found: number;
+  // Profiles no other provider returned
+  unique: number;
+}
+
+interface MergedProfile extends LinkedInProfile {
+  // Registry names of the providers that returned this profile
+  found_by: string[];
+}
+
+interface MergeResult {
+  profiles: MergedProfile[];
+  coverage: ProviderCoverage[];
+}
+
+// Points added for each provider beyond the first that found a profile, and
+// the most a profile can get. SerpAPI and Google CSE search the same index, so
+// a second hit is weak confirmation, not independent evidence.
+const AGREEMENT_BONUS = 3;
+const MAX_AGREEMENT_BONUS = 5;
+
+class ProfileMerger {
+  merge(results: ProviderProfiles[]): MergeResult {
+    const merged: Map<string, MergedProfile> = new Map();
+    // Best score each provider gave a profile, keyed by profile key
+    const scores: Map<string, Map<string, number>> = new Map();
+
+    for (const { provider, profiles } of results) {
+      for (const profile of profiles) {
+        const key = profileKey(profile.linkedin_url);
+        const existing = merged.get(key);
+
+        if (!existing) {
+          merged.set(key, { ...profile, found_by: [provider] });
+        } else {
+          merged.set(key, this.combine(existing, profile, provider));
+        }
+
+        const providerScores = scores.get(key) || new Map<string, number>();
+        providerScores.set(
+          provider,
+          Math.max(providerScores.get(provider) || 0, profile.confidence_score)
+        );
+        scores.set(key, providerScores);
+      }
+    }
+
+    for (const [key, profile] of merged) {
+      const best = Math.max(...scores.get(key)!.values());
+      const bonus = this.agreementBonus(best, profile.found_by.length);
+      if (bonus > 0) {
+        profile.score_breakdown = [
+          ...(profile.score_breakdown || []),
+          {
+            feature: "provider_agreement",
+            points: bonus,
+            reason: `found by ${profile.found_by.join(", ")} (bonus capped at ${MAX_AGREEMENT_BONUS})`,
+          },
+        ];
+      }
+      profile.confidence_score = best + bonus;
+    }
+
+    const profiles = [...merged.values()].sort(
+      (a, b) => b.confidence_score - a.confidence_score
+    );
+
+    const coverage = results.map(({ provider }) => {
+      const found = profiles.filter((p) => p.found_by.includes(provider));
+      return {
+        provider,
+        found: found.length,
+        unique: found.filter((p) => p.found_by.length === 1).length,
+      };
+    });
+
+    return { profiles, coverage };
+  }
+
+  private combine(
+    existing: MergedProfile,
+    incoming: LinkedInProfile,
+    provider: string
+  ): MergedProfile {
+    // Prefer the fields of whichever copy was parsed with more confidence,
+    // filling gaps from the other one
+    const [primary, secondary] =
+      incoming.confidence_score > existing.confidence_score
+        ? [incoming, existing]
+        : [existing, incoming];
+
+    return {
+      ...primary,
+      title: primary.title || secondary.title,
+      company: primary.company || secondary.company,
+      location: primary.location || secondary.location,
+      sources: [...new Set([...existing.sources, ...incoming.sources])],
+      found_by: [...new Set([...existing.found_by, provider])],
+    };
+  }
+
+  // The best provider score counts; more providers add a small, capped
+  // bonus, never above 100
+  private agreementBonus(best: number, providers: number): number {
+    const bonus = Math.min(MAX_AGREEMENT_BONUS, AGREEMENT_BONUS * (providers - 1));
+    return Math.max(0, Math.min(bonus, 100 - best));
+  }
+}
+
+export {
+  ProfileMerger,
+  ProviderProfiles,
+  ProviderCoverage,
+  MergedProfile,
+  MergeResult
+};
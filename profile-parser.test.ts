@@ -0,0 +1,36 @@
+import { describe, expect, test } from "bun:test";
+import fixtures from "./fixtures/profile-titles.json";
+import { ProfileParser } from "./profile-parser.js";
+import { TitleCatalog } from "./title-catalog.js";
+
+// Result titles and snippets. Rows with a source are real results from that
+// export: the snippets are verbatim, and since exports don't keep the result
+// title it is rebuilt in LinkedIn's usual shape from the row.
+interface TitleFixture {
+  shape: string;
+  source?: string;
+  title: string;
+  snippet?: string;
+  expected: { name: string; title: string; company: string };
+}
+
+const titles = new TitleCatalog("title-families.json").get("cto")!.titles;
+const parser = new ProfileParser();
+
+describe("ProfileParser", () => {
+  test.each((fixtures as TitleFixture[]).map((fixture) => [fixture.shape, fixture]))(
+    "%s",
+    (_, fixture) => {
+      const parsed = parser.parse(fixture.title, fixture.snippet || "", titles);
+      expect({ name: parsed.name, title: parsed.title, company: parsed.company }).toEqual(
+        fixture.expected
+      );
+    }
+  );
+
+  test("reports no company confidence when no company was found", () => {
+    const parsed = parser.parse("Pedro - Engenheiro no Brasil - CTO", "", titles);
+    expect(parsed.confidence.company).toBe(0);
+    expect(parsed.confidence.title).toBeGreaterThan(0.9);
+  });
+});
@@ -0,0 +1,321 @@
+// Types and Interfaces
+// How sure the parser is about each field, from 0 (not found) to 1
+interface FieldConfidence {
+  name: number;
+  title: number;
+  company: number;
+}
+
+interface ParsedProfile {
+  name: string;
+  // Job title in its original casing, e.g. "VP of Engineering"
+  title: string;
+  company: string;
+  confidence: FieldConfidence;
+}
+
+interface FieldMatch {
+  value: string;
+  confidence: number;
+}
+
+// Separators between the name, headline and company in a SERP title
+const TITLE_SEPARATOR = /\s+[-–—]\s+/;
+
+// "| LinkedIn", " - LinkedIn", "· LinkedIn Deutschland" and the like
+const LINKEDIN_SUFFIX = /\s*[|·\-–—]\s*LinkedIn\b.*$/i;
+
+// "at" in the languages LinkedIn localizes profile titles into
+const AT_WORDS = ["at", "@", "bei", "chez", "presso", "bij"];
+
+// Spanish and Portuguese "at" that also mean "in" ("Engenheiro no Brasil"),
+// so they only count after a known title ("CTO na Exemplo")
+const AMBIGUOUS_AT_WORDS = ["en", "na", "no", "em"];
+const AMBIGUOUS_AT = new RegExp(`\\s(?:${AMBIGUOUS_AT_WORDS.join("|")})\\s`, "i");
+
+// "Experience: Acme" in snippets, localized
+const EXPERIENCE_LABELS = [
+  "Experience",
+  "Berufserfahrung",
+  "Expérience",
+  "Experiencia",
+  "Esperienza",
+  "Ervaring",
+  "Experiência",
+];
+
+const MONTHS = "Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec";
+
+// Credentials that follow a name and are not companies
+const CREDENTIALS = /^(PhD|Ph\.D\.?|MBA|MD|MSc|BSc|CPA|CFA|PMP|PE|Esq\.?|Jr\.?|Sr\.?|II|III)$/i;
+
+// Parses LinkedIn search results: the SERP title ("Jane Doe - CTO - Acme |
+// LinkedIn", "Jane Doe – CTO at Acme", "Jane Doe – CTO bei Acme") and, where
+// the title doesn't say, the snippet. Keeps the original casing and reports
+// a confidence per field.
+class ProfileParser {
+  parse(title: string, snippet: string, titles: string[]): ParsedProfile {
+    const segments = title
+      .replace(LINKEDIN_SUFFIX, "")
+      .split(TITLE_SEPARATOR)
+      .map((segment) => segment.trim())
+      .filter(Boolean);
+
+    const name = this.parseName(segments[0] || "");
+    const headline = segments.slice(1);
+
+    const jobTitle =
+      this.titleFromHeadline(headline, titles) ||
+      this.titleFromSnippet(snippet, titles);
+    const company =
+      this.companyFromHeadline(headline, titles, name.value) ||
+      this.companyFromSnippet(snippet, titles, name.value);
+
+    return {
+      name: name.value,
+      title: jobTitle?.value || "",
+      company: company?.value || "",
+      confidence: {
+        name: name.confidence,
+        title: jobTitle?.confidence || 0,
+        company: company?.confidence || 0,
+      },
+    };
+  }
+
+  private parseName(segment: string): FieldMatch {
+    // "Jane Doe | LinkedIn" leftovers and emoji decorations
+    const value = segment.split("|")[0].replace(/[\u{1F300}-\u{1FAFF}\u{2600}-\u{27BF}]/gu, "").trim();
+    if (!value) {
+      return { value: "", confidence: 0 };
+    }
+
+    // Names are a few capitalized words, optionally with credentials
+    const words = value.split(/\s+/);
+    const looksLikeName = words.length <= 5 && /^\p{Lu}/u.test(value);
+    return { value, confidence: looksLikeName ? 0.95 : 0.5 };
+  }
+
+  // "CTO", "CTO at Acme", "Chief Technology Officer (CTO) | Head of Technology"
+  private titleFromHeadline(headline: string[], titles: string[]): FieldMatch | null {
+    for (const segment of headline) {
+      for (const part of segment.split(/\s*[|·]\s*/)) {
+        const role = this.splitAt(part, titles)?.role ?? part;
+        const found = this.findTitle(role, titles);
+        if (found) {
+          // A headline that is just the title is the best evidence we get
+          const exact = role.trim().toLowerCase() === found.toLowerCase();
+          return { value: this.cleanRole(role, found), confidence: exact ? 0.95 : 0.85 };
+        }
+      }
+    }
+    return null;
+  }
+
+  private titleFromSnippet(snippet: string, titles: string[]): FieldMatch | null {
+    const found = this.findTitle(snippet, titles);
+    if (!found) {
+      return null;
+    }
+
+    // Mentions like "Former CTO" or "joins as CTO" are weaker than a headline
+    const index = this.titleIndex(snippet, found);
+    return { value: snippet.slice(index, index + found.length), confidence: 0.6 };
+  }
+
+  // The company is the last headline segment ("Name - Title - Company"), or
+  // follows "at"/"bei"/"chez" in the title segment
+  private companyFromHeadline(
+    headline: string[],
+    titles: string[],
+    name: string
+  ): FieldMatch | null {
+    for (const segment of headline) {
+      const split = this.splitAt(segment, titles);
+      if (split) {
+        const company = this.cleanCompany(split.company, name);
+        if (company) {
+          return { value: company, confidence: 0.9 };
+        }
+      }
+    }
+
+    // Segments like "Engenheiro no Brasil" are a role and a place
+    if (headline.length >= 2) {
+      const last = headline[headline.length - 1];
+      if (!this.findTitle(last, titles) && !AMBIGUOUS_AT.test(last)) {
+        const company = this.cleanCompany(last, name);
+        if (company) {
+          return { value: company, confidence: 0.85 };
+        }
+      }
+    }
+
+    // "Name - Acme": one segment that isn't a title is most likely the company
+    if (
+      headline.length === 1 &&
+      !this.findTitle(headline[0], titles) &&
+      !AMBIGUOUS_AT.test(headline[0])
+    ) {
+      const company = this.cleanCompany(headline[0], name);
+      if (company) {
+        return { value: company, confidence: 0.6 };
+      }
+    }
+
+    return null;
+  }
+
+  private companyFromSnippet(
+    snippet: string,
+    titles: string[],
+    name: string
+  ): FieldMatch | null {
+    const candidates: FieldMatch[] = [];
+
+    // "Experience: Acme · Education: ..."
+    const experience = snippet.match(
+      new RegExp(`(?:${EXPERIENCE_LABELS.join("|")})\\s?:\\s*([^·|;]+)`, "i")
+    );
+    if (experience) {
+      candidates.push({ value: experience[1], confidence: 0.75 });
+    }
+
+    if (titles.length > 0) {
+      // Any of the titles, longest first so the alternation prefers them
+      const escaped = `(?:${[...titles]
+        .sort((a, b) => b.length - a.length)
+        .map(escapeRegExp)
+        .join("|")})`;
+
+      // Experience entries: "Chief Technology Officer. Acme. Jun 2023 - Present"
+      const entry = snippet.match(
+        new RegExp(`${escaped}\\.\\s+([^.]+?)\\.\\s+(?:${MONTHS})[a-z]*\\s+\\d{4}`, "i")
+      );
+      if (entry) {
+        candidates.push({ value: entry[1], confidence: 0.8 });
+      }
+
+      // "CTO at Acme", "CTO @ Acme", "CTO of Acme"
+      const at = snippet.match(
+        new RegExp(`${escaped}\\)?,?\\s+(?:${[...AT_WORDS, ...AMBIGUOUS_AT_WORDS, "of"].map(escapeRegExp).join("|")})\\s+([^|·;,]+)`, "i")
+      );
+      if (at) {
+        candidates.push({ value: at[1], confidence: 0.7 });
+      }
+
+      // "Acme Graphic. Chief Technology Officer." in experience lists
+      const graphic = snippet.match(
+        new RegExp(`([^.·;]+?)\\s+Graphic\\.\\s+${escaped}`, "i")
+      );
+      if (graphic) {
+        candidates.push({ value: graphic[1], confidence: 0.7 });
+      }
+    }
+
+    const best = candidates
+      .map((candidate) => ({
+        value: this.cleanCompany(candidate.value, name),
+        confidence: candidate.confidence,
+      }))
+      .filter((candidate) => candidate.value)
+      .sort((a, b) => b.confidence - a.confidence)[0];
+
+    return best || null;
+  }
+
+  // Split "CTO at Acme" / "CTO @ Acme" / "CTO bei Acme" into role and
+  // company. "CTO en Acme" only splits when the role is one of the titles.
+  private splitAt(text: string, titles: string[]): { role: string; company: string } | null {
+    const match = text.match(atPattern(AT_WORDS));
+    if (match) {
+      return { role: match[1], company: match[2] };
+    }
+
+    const ambiguous = text.match(atPattern(AMBIGUOUS_AT_WORDS));
+    if (ambiguous && this.findTitle(ambiguous[1], titles)) {
+      return { role: ambiguous[1], company: ambiguous[2] };
+    }
+    return null;
+  }
+
+  // The title mentioned first in the text, matched whole-word and
+  // case-insensitively. On ties the longest wins, so "Chief Technology
+  // Officer" beats "Chief Technology".
+  private findTitle(text: string, titles: string[]): string | null {
+    let best: { title: string; index: number } | null = null;
+    for (const title of titles) {
+      const index = this.titleIndex(text, title);
+      if (
+        index !== -1 &&
+        (!best ||
+          index < best.index ||
+          (index === best.index && title.length > best.title.length))
+      ) {
+        best = { title, index };
+      }
+    }
+    return best ? best.title : null;
+  }
+
+  // Position of a whole-word title in the text, or -1
+  private titleIndex(text: string, title: string): number {
+    const pattern = new RegExp(`(^|[^a-z0-9])${escapeRegExp(title.toLowerCase())}($|[^a-z0-9])`);
+    const match = text.toLowerCase().match(pattern);
+    return match && match.index !== undefined ? match.index + match[1].length : -1;
+  }
+
+  // Keep the headline role as written ("SVP & Chief Technology Officer"),
+  // unless it's a long marketing blurb, then just the matched title
+  private cleanRole(role: string, found: string): string {
+    const trimmed = role.replace(/[\s,;:.]+$/, "").trim();
+    if (trimmed.split(/\s+/).length <= 8) {
+      return trimmed;
+    }
+    const index = trimmed.toLowerCase().indexOf(found.toLowerCase());
+    return trimmed.slice(index, index + found.length);
+  }
+
+  // Trim a company candidate to the company name, or return "" if it
+  // doesn't look like one (the person's own name, a date, a degree, a sentence)
+  private cleanCompany(candidate: string, name: string): string {
+    let company = candidate
+      .split(/\s+[|·]\s+|\s*;\s*|\.\.\.|…/)[0]
+      // "Imprint. Wrote An Elegant Puzzle" -> "Imprint"
+      .split(/\.\s+/)[0]
+      .replace(/\s+Graphic$/i, "")
+      .replace(/^[\s,.:-]+|[\s,.:-]+$/g, "")
+      .trim();
+
+    // Drop trailing dates from experience entries
+    company = company.replace(new RegExp(`\\s+(?:${MONTHS})[a-z]*\\s+\\d{4}.*$`, "i"), "").trim();
+
+    if (!company || company.length > 60 || company.split(/\s+/).length > 6) {
+      return "";
+    }
+    if (company.toLowerCase() === name.toLowerCase()) {
+      return "";
+    }
+    if (new RegExp(`^(?:${MONTHS})[a-z]*\\s+\\d{4}$`, "i").test(company) || /^\d/.test(company)) {
+      return "";
+    }
+    if (CREDENTIALS.test(company)) {
+      return "";
+    }
+    // Company names start with a capital letter or a digit, sentences don't
+    if (!/^[\p{Lu}\d]/u.test(company)) {
+      return "";
+    }
+    return company;
+  }
+}
+
+function atPattern(words: string[]): RegExp {
+  return new RegExp(`^(.+?)\\s+(?:${words.map(escapeRegExp).join("|")})\\s+(.+)$`, "i");
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export { ProfileParser, ParsedProfile, FieldConfidence };
@@ -0,0 +1,134 @@
+// Types and Interfaces
+type QueryNode =
+  | { type: "and"; children: QueryNode[] }
+  | { type: "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode }
+  | { type: "phrase"; text: string }
+  | { type: "site"; target: string };
+
+// Limits beyond which a provider silently truncates a query
+interface QueryLimits {
+  maxWords: number;
+  maxChars: number;
+}
+
+// Google web search ignores everything after the 32nd word and rejects
+// URLs longer than 2048 characters
+const GOOGLE_QUERY_LIMITS: QueryLimits = { maxWords: 32, maxChars: 2048 };
+
+// Node constructors
+const and = (...children: QueryNode[]): QueryNode => ({ type: "and", children });
+const or = (...children: QueryNode[]): QueryNode => ({ type: "or", children });
+const not = (child: QueryNode): QueryNode => ({ type: "not", child });
+const phrase = (text: string): QueryNode => ({ type: "phrase", text });
+const site = (target: string): QueryNode => ({ type: "site", target });
+
+// Render a query in Google search syntax, which both providers use
+function renderQuery(node: QueryNode, nested: boolean = false): string {
+  switch (node.type) {
+    case "phrase":
+      return `"${node.text.replace(/"/g, "")}"`;
+    case "site":
+      return `site:${node.target}`;
+    case "not":
+      return `-${renderQuery(node.child, true)}`;
+    case "and": {
+      const rendered = node.children.map((child) => renderQuery(child, true));
+      return nested && rendered.length > 1
+        ? `(${rendered.join(" ")})`
+        : rendered.join(" ");
+    }
+    case "or": {
+      if (node.children.length === 1) {
+        return renderQuery(node.children[0], nested);
+      }
+      const rendered = node.children.map((child) => renderQuery(child, true));
+      return nested ? `(${rendered.join(" OR ")})` : rendered.join(" OR ");
+    }
+  }
+}
+
+// Words the provider counts towards its limit. The OR operator doesn't
+// count, every word of a phrase and each operator term (site:, -"x") does.
+function countWords(query: string): number {
+  return query
+    .replace(/[()"]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word && word !== "OR" && word !== "-").length;
+}
+
+function fitsLimits(query: string, limits: QueryLimits): boolean {
+  return (
+    countWords(query) <= limits.maxWords &&
+    encodeURIComponent(query).length <= limits.maxChars
+  );
+}
+
+// Split a query that is over the limits into sub-queries whose results
+// together cover the original: the largest OR group of a top-level AND is
+// halved until every sub-query fits. Queries that can't be split any further
+// are returned as they are.
+function splitQuery(node: QueryNode, limits: QueryLimits): QueryNode[] {
+  if (fitsLimits(renderQuery(node), limits)) {
+    return [node];
+  }
+
+  if (node.type === "or" && node.children.length > 1) {
+    const middle = Math.ceil(node.children.length / 2);
+    return [
+      ...splitQuery(or(...node.children.slice(0, middle)), limits),
+      ...splitQuery(or(...node.children.slice(middle)), limits),
+    ];
+  }
+
+  if (node.type !== "and") {
+    return [node];
+  }
+
+  // Split the widest OR group, so the fewest sub-queries are needed
+  let widest = -1;
+  node.children.forEach((child, index) => {
+    if (
+      child.type === "or" &&
+      child.children.length > 1 &&
+      (widest === -1 ||
+        child.children.length >
+          (node.children[widest] as { children: QueryNode[] }).children.length)
+    ) {
+      widest = index;
+    }
+  });
+  if (widest === -1) {
+    return [node];
+  }
+
+  const group = node.children[widest] as { children: QueryNode[] };
+  const middle = Math.ceil(group.children.length / 2);
+  const halves = [group.children.slice(0, middle), group.children.slice(middle)];
+
+  return halves.flatMap((half) =>
+    splitQuery(
+      and(
+        ...node.children.map((child, index) =>
+          index === widest ? or(...half) : child
+        )
+      ),
+      limits
+    )
+  );
+}
+
+export {
+  QueryNode,
+  QueryLimits,
+  GOOGLE_QUERY_LIMITS,
+  and,
+  or,
+  not,
+  phrase,
+  site,
+  renderQuery,
+  countWords,
+  fitsLimits,
+  splitQuery
+};
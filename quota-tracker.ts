@@ -0,0 +1,169 @@
+import { Database } from "bun:sqlite";
+import fs from "fs";
+import path from "path";
+
+// Types and Interfaces
+// Budgets are counted in provider API requests (one per result page).
+// A missing or zero budget means unlimited.
+interface ProviderBudget {
+  daily?: number;
+  monthly?: number;
+}
+
+interface PeriodUsage {
+  used: number;
+  budget: number | null;
+  remaining: number | null;
+  resets_at: string;
+}
+
+interface ProviderUsage {
+  provider: string;
+  daily: PeriodUsage;
+  monthly: PeriodUsage;
+  exhausted: boolean;
+}
+
+class QuotaExceededError extends Error {
+  provider: string;
+  period: "daily" | "monthly";
+
+  constructor(provider: string, period: "daily" | "monthly") {
+    super(`${provider} ${period} request budget is exhausted`);
+    this.name = "QuotaExceededError";
+    this.provider = provider;
+    this.period = period;
+  }
+}
+
+const QUOTA_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS provider_usage (
+    provider TEXT NOT NULL,
+    period TEXT NOT NULL,
+    count INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (provider, period)
+  );
+`;
+
+// Counts provider requests per UTC day and month and enforces budgets
+class QuotaTracker {
+  private db: Database;
+  private budgets: Record<string, ProviderBudget>;
+
+  constructor(filename: string, budgets: Record<string, ProviderBudget>) {
+    if (filename !== ":memory:") {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL;");
+    this.db.exec(QUOTA_SCHEMA);
+    this.budgets = budgets;
+  }
+
+  // Record one request, or throw QuotaExceededError without recording it
+  // when the provider is over its daily or monthly budget
+  consume(provider: string) {
+    const [day, month] = this.periods();
+
+    const consume = this.db.transaction(() => {
+      this.assertBudget(provider);
+
+      const increment = this.db.prepare(
+        `INSERT INTO provider_usage (provider, period, count) VALUES (?, ?, 1)
+         ON CONFLICT (provider, period) DO UPDATE SET count = count + 1`
+      );
+      increment.run(provider, day);
+      increment.run(provider, month);
+    });
+
+    consume();
+  }
+
+  hasBudget(provider: string): boolean {
+    return this.exhaustedPeriod(provider) === null;
+  }
+
+  // Throw QuotaExceededError if the provider is over one of its budgets
+  assertBudget(provider: string) {
+    const period = this.exhaustedPeriod(provider);
+    if (period) {
+      throw new QuotaExceededError(provider, period);
+    }
+  }
+
+  usage(provider: string): ProviderUsage {
+    const [day, month] = this.periods();
+    const budget = this.budgets[provider] || {};
+    const now = new Date();
+
+    const daily = this.period(
+      this.count(provider, day),
+      budget.daily,
+      new Date(
+        Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+      )
+    );
+    const monthly = this.period(
+      this.count(provider, month),
+      budget.monthly,
+      new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+    );
+
+    return {
+      provider,
+      daily,
+      monthly,
+      exhausted: daily.remaining === 0 || monthly.remaining === 0,
+    };
+  }
+
+  private exhaustedPeriod(provider: string): "daily" | "monthly" | null {
+    const [day, month] = this.periods();
+    const budget = this.budgets[provider] || {};
+
+    if (budget.daily && this.count(provider, day) >= budget.daily) {
+      return "daily";
+    }
+    if (budget.monthly && this.count(provider, month) >= budget.monthly) {
+      return "monthly";
+    }
+    return null;
+  }
+
+  private count(provider: string, period: string): number {
+    const row = this.db
+      .query<{ count: number }, [string, string]>(
+        "SELECT count FROM provider_usage WHERE provider = ? AND period = ?"
+      )
+      .get(provider, period);
+    return row ? row.count : 0;
+  }
+
+  private period(
+    used: number,
+    budget: number | undefined,
+    resetsAt: Date
+  ): PeriodUsage {
+    return {
+      used,
+      budget: budget || null,
+      remaining: budget ? Math.max(0, budget - used) : null,
+      resets_at: resetsAt.toISOString(),
+    };
+  }
+
+  // Period keys for the current UTC day and month, e.g. "day:2024-01-15"
+  private periods(): [string, string] {
+    const today = new Date().toISOString().slice(0, 10);
+    return [`day:${today}`, `month:${today.slice(0, 7)}`];
+  }
+}
+
+export {
+  QuotaTracker,
+  QuotaExceededError,
+  ProviderBudget,
+  ProviderUsage,
+  PeriodUsage
+};
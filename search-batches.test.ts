@@ -0,0 +1,177 @@
+import { describe, expect, test } from "bun:test";
+import { ExportChunk } from "./export.js";
+import { MergedProfile } from "./profile-merger.js";
+import { QuotaExceededError } from "./quota-tracker.js";
+import { SearchPipeline, SearchRequest } from "./search-pipeline.js";
+import {
+  FINISHED_BATCH,
+  SearchBatch,
+  SearchBatchRunner,
+  SqliteBatchStore,
+  batchResults,
+  batchRowsFromCsv,
+} from "./search-batches.js";
+
+function profile(slug: string, confidence_score: number): MergedProfile {
+  return {
+    name: slug,
+    title: "CTO",
+    company: "Acme",
+    linkedin_url: `https://www.linkedin.com/in/${slug}`,
+    snippet: "",
+    confidence_score,
+    sources: ["title"],
+    found_by: ["google"],
+  };
+}
+
+// Profiles each region's search finds; "Spain" is over budget
+const FOUND: Record<string, MergedProfile[]> = {
+  Germany: [profile("jane", 80), profile("john", 70)],
+  France: [profile("jane", 95), profile("jim", 60)],
+};
+
+// Prepares requests like the real pipeline does with an exhausted budget:
+// fine while a batch is submitted, over budget when the row runs
+let budgetChecks = 0;
+const pipeline = {
+  prepare(request: SearchRequest) {
+    if (request.region === "Spain" && budgetChecks++ > 0) {
+      throw new QuotaExceededError("google", "daily");
+    }
+    return request;
+  },
+  async run(request: SearchRequest) {
+    return { search: { id: 1 }, profiles: FOUND[request.region!] };
+  },
+} as unknown as SearchPipeline;
+
+const batch: SearchBatch = {
+  id: "batch-1",
+  status: "completed",
+  rows: [],
+  profiles: [
+    {
+      name: "Jane Doe",
+      title: "CTO",
+      company: "Acme",
+      linkedin_url: "https://www.linkedin.com/in/janedoe",
+      snippet: "CTO at Acme",
+      confidence_score: 90,
+      location: { city: "Berlin", region: "Berlin", country: "Germany", iso_code: "DE" },
+      sources: ["title"],
+      found_by: ["google", "serpapi"],
+      batch_rows: [1, 3],
+    },
+  ],
+  created_at: "2025-09-01T10:00:00.000Z",
+  updated_at: "2025-09-01T10:00:00.000Z",
+  completed_at: "2025-09-01T10:00:00.000Z",
+};
+
+async function text(chunks: AsyncIterable<ExportChunk>): Promise<string> {
+  let output = "";
+  for await (const chunk of chunks) {
+    output += typeof chunk === "string" ? chunk : new TextDecoder().decode(chunk);
+  }
+  return output;
+}
+
+describe("batchRowsFromCsv", () => {
+  test("reads lists, numbers and booleans by column", () => {
+    const rows = batchRowsFromCsv(
+      "Region,titles,num_results,only_new,provider\n" +
+        "Germany, CTO;VP Engineering ,20,yes,serpapi\n" +
+        "France,,,no,\n"
+    );
+
+    expect(rows).toEqual([
+      {
+        region: "Germany",
+        titles: ["CTO", "VP Engineering"],
+        num_results: 20,
+        only_new: true,
+        provider: "serpapi",
+      },
+      { region: "France", only_new: false },
+    ]);
+  });
+
+  test("rejects unknown columns and values that aren't numbers", () => {
+    expect(() => batchRowsFromCsv("region,sector\nGermany,fintech\n")).toThrow(
+      "Unknown CSV columns: sector"
+    );
+    expect(() => batchRowsFromCsv("region,num_results\nGermany,many\n")).toThrow(
+      'Row 1: num_results must be a number, got "many"'
+    );
+    expect(() => batchRowsFromCsv("region\n")).toThrow("The CSV has no rows");
+  });
+});
+
+describe("SearchBatchRunner", () => {
+  test("combines the rows' profiles and skips rows over budget", async () => {
+    const store = new SqliteBatchStore(":memory:");
+    const runner = new SearchBatchRunner(pipeline, store, 1);
+
+    const finished = await new Promise<SearchBatch>((resolve) => {
+      runner.submit(
+        [{ region: "Germany" }, { region: "Spain" }, { region: "France" }],
+        undefined,
+        (updated) => {
+          if (FINISHED_BATCH.includes(updated.status)) {
+            resolve(updated);
+          }
+        }
+      );
+    });
+
+    expect(finished.status).toBe("completed");
+    const rows = finished.rows.map(({ status, profiles_found, new_profiles }) => ({
+      status,
+      profiles_found,
+      new_profiles,
+    }));
+    expect(rows).toEqual([
+      { status: "completed", profiles_found: 2, new_profiles: 2 },
+      { status: "skipped", profiles_found: 0, new_profiles: 0 },
+      { status: "completed", profiles_found: 2, new_profiles: 1 },
+    ]);
+    expect(finished.rows[1].error).toBe("google daily request budget is exhausted");
+
+    // One entry per person, the best scored version, with every row that found it
+    expect(
+      finished.profiles.map(({ name, confidence_score, batch_rows }) => ({
+        name,
+        confidence_score,
+        batch_rows,
+      }))
+    ).toEqual([
+      { name: "jane", confidence_score: 95, batch_rows: [1, 3] },
+      { name: "john", confidence_score: 70, batch_rows: [1] },
+      { name: "jim", confidence_score: 60, batch_rows: [3] },
+    ]);
+  });
+});
+
+describe("batchResults", () => {
+  test("lists the rows that found each profile in the default columns", async () => {
+    const [header, row] = (await text(batchResults(batch, { format: "csv" })))
+      .trim()
+      .split("\r\n");
+
+    expect(header).toBe(
+      "Name,Job Title,Company,LinkedIn URL,Location,Country Code,Confidence Score,Found By,Batch Rows,Description"
+    );
+    expect(row).toBe(
+      'Jane Doe,CTO,Acme,https://www.linkedin.com/in/janedoe,"Berlin, Germany",DE,90,google; serpapi,1; 3,CTO at Acme'
+    );
+  });
+
+  test("uses the requested format and columns", async () => {
+    const jsonl = await text(
+      batchResults(batch, { format: "jsonl", columns: ["name", "batch_rows"] })
+    );
+
+    expect(JSON.parse(jsonl)).toEqual({ name: "Jane Doe", batch_rows: "1; 3" });
+  });
+});
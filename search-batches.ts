@@ -0,0 +1,552 @@
+import { Database } from "bun:sqlite";
+import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import { MergedProfile } from "./profile-merger.js";
+import { profileKey } from "./linkedin-url.js";
+import { QuotaExceededError } from "./quota-tracker.js";
+import { SearchPipeline, SearchRequest } from "./search-pipeline.js";
+import { ValidationError, toApiError } from "./api-errors.js";
+import { parseCsvRecords } from "./csv.js";
+import { ExportChunk, ExportColumnId, ExportOptions, exportProfiles } from "./export.js";
+
+// Types and Interfaces
+// "failed" when every row finished without completing
+type BatchStatus = "queued" | "running" | "completed" | "failed";
+
+// "skipped" when every provider was over budget when the row's turn came
+type BatchRowStatus = "queued" | "running" | "completed" | "failed" | "skipped";
+
+interface BatchRow {
+  // 1-based, the data row of the uploaded CSV or the position in the JSON list
+  row: number;
+  request: SearchRequest;
+  provider?: string;
+  status: BatchRowStatus;
+  search_id: number | null;
+  profiles_found: number;
+  // Profiles no earlier row of the batch had found
+  new_profiles: number;
+  error: string | null;
+  completed_at: string | null;
+}
+
+// A profile of the combined results, with the rows that found it
+interface BatchProfile extends MergedProfile {
+  batch_rows: number[];
+}
+
+interface SearchBatch {
+  id: string;
+  status: BatchStatus;
+  provider?: string;
+  rows: BatchRow[];
+  // Deduplicated across all rows, best confidence first
+  profiles: BatchProfile[];
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+type NewBatchRow = Pick<BatchRow, "request" | "provider"> &
+  Partial<Pick<BatchRow, "status" | "error">>;
+
+// Called whenever a row of the batch finishes
+type BatchListener = (batch: SearchBatch, row: BatchRow) => void | Promise<void>;
+
+// Repository for batch state, so batches survive a restart
+interface BatchStore {
+  create(rows: NewBatchRow[], provider?: string): Promise<SearchBatch>;
+  get(id: string): Promise<SearchBatch | null>;
+  updateRow(id: string, row: number, changes: Partial<BatchRow>): Promise<SearchBatch>;
+  // Merge a row's profiles into the combined results. Returns how many of
+  // them no other row had found.
+  addProfiles(id: string, row: number, profiles: MergedProfile[]): Promise<number>;
+  listUnfinished(): Promise<SearchBatch[]>;
+}
+
+interface BatchDbRow {
+  id: string;
+  status: BatchStatus;
+  provider: string | null;
+  rows: string;
+  profiles: string;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+const BATCH_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS search_batches (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    provider TEXT,
+    rows TEXT NOT NULL,
+    profiles TEXT NOT NULL DEFAULT '[]',
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    completed_at TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_search_batches_status ON search_batches (status);
+`;
+
+const FINISHED_ROW: BatchRowStatus[] = ["completed", "failed", "skipped"];
+const FINISHED_BATCH: BatchStatus[] = ["completed", "failed"];
+
+// CSV columns of an uploaded batch, by type. Lists are separated by ";" or "|".
+const STRING_COLUMNS = [
+  "job_title",
+  "title_family",
+  "company",
+  "company_domain",
+  "region",
+  "company_sector",
+  "company_type",
+  "company_size",
+  "cache",
+  "provider",
+];
+const LIST_COLUMNS = ["titles", "languages"];
+const NUMBER_COLUMNS = ["num_results", "min_confidence"];
+const BOOLEAN_COLUMNS = ["get_all_pages", "fallback", "only_new"];
+
+// Default columns of the combined result file
+const BATCH_RESULT_COLUMNS: ExportColumnId[] = [
+  "name",
+  "title",
+  "company",
+  "linkedin_url",
+  "location",
+  "country_code",
+  "confidence_score",
+  "found_by",
+  "batch_rows",
+  "snippet",
+];
+
+function batchStatus(rows: BatchRow[]): BatchStatus {
+  if (rows.every((row) => FINISHED_ROW.includes(row.status))) {
+    return rows.some((row) => row.status === "completed") ? "completed" : "failed";
+  }
+  return rows.some((row) => row.status !== "queued") ? "running" : "queued";
+}
+
+// Search requests from an uploaded CSV with one request per row and the
+// request fields as header, e.g. "region,company_sector,title_family"
+function batchRowsFromCsv(text: string): (SearchRequest & { provider?: string })[] {
+  const records = parseCsvRecords(text);
+  if (records.length === 0) {
+    throw new ValidationError("The CSV has no rows");
+  }
+
+  const known = [...STRING_COLUMNS, ...LIST_COLUMNS, ...NUMBER_COLUMNS, ...BOOLEAN_COLUMNS];
+  const unknown = Object.keys(records[0]).filter((column) => !known.includes(column));
+  if (unknown.length > 0) {
+    throw new ValidationError(
+      `Unknown CSV columns: ${unknown.join(", ")}. Available columns: ${known.join(", ")}`
+    );
+  }
+
+  return records.map((record, index) => {
+    const request: Record<string, unknown> = {};
+    for (const [column, raw] of Object.entries(record)) {
+      const value = raw.trim();
+      if (!value) continue;
+
+      if (LIST_COLUMNS.includes(column)) {
+        request[column] = value.split(/[;|]/).map((item) => item.trim()).filter(Boolean);
+      } else if (NUMBER_COLUMNS.includes(column)) {
+        const number = Number(value);
+        if (Number.isNaN(number)) {
+          throw new ValidationError(
+            `Row ${index + 1}: ${column} must be a number, got "${value}"`,
+            [{ path: `[${index}].${column}`, message: "must be a number" }]
+          );
+        }
+        request[column] = number;
+      } else if (BOOLEAN_COLUMNS.includes(column)) {
+        request[column] = ["true", "1", "yes", "y"].includes(value.toLowerCase());
+      } else {
+        request[column] = value;
+      }
+    }
+    return request as SearchRequest & { provider?: string };
+  });
+}
+
+// The combined results of a batch as one file in an export format
+function batchResults(batch: SearchBatch, options: ExportOptions): AsyncGenerator<ExportChunk> {
+  return exportProfiles(batch.profiles, {
+    ...options,
+    columns: options.columns?.length ? options.columns : BATCH_RESULT_COLUMNS,
+  });
+}
+
+class SqliteBatchStore implements BatchStore {
+  private db: Database;
+
+  constructor(filename: string) {
+    if (filename !== ":memory:") {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL;");
+    this.db.exec(BATCH_SCHEMA);
+  }
+
+  async create(rows: NewBatchRow[], provider?: string): Promise<SearchBatch> {
+    const id = randomUUID();
+    const now = new Date().toISOString();
+    const batchRows: BatchRow[] = rows.map((row, index) => ({
+      row: index + 1,
+      request: row.request,
+      provider: row.provider,
+      status: row.status ?? "queued",
+      search_id: null,
+      profiles_found: 0,
+      new_profiles: 0,
+      error: row.error ?? null,
+      completed_at: row.status ? now : null,
+    }));
+    const status = batchStatus(batchRows);
+
+    this.db
+      .prepare(
+        `INSERT INTO search_batches (id, status, provider, rows, created_at,
+           updated_at, completed_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        id,
+        status,
+        provider ?? null,
+        JSON.stringify(batchRows),
+        now,
+        now,
+        FINISHED_BATCH.includes(status) ? now : null
+      );
+
+    return (await this.get(id))!;
+  }
+
+  async get(id: string): Promise<SearchBatch | null> {
+    const row = this.db
+      .query<BatchDbRow, [string]>("SELECT * FROM search_batches WHERE id = ?")
+      .get(id);
+    return row ? this.toBatch(row) : null;
+  }
+
+  async updateRow(
+    id: string,
+    row: number,
+    changes: Partial<BatchRow>
+  ): Promise<SearchBatch> {
+    // Read, change and write in one transaction so rows finishing at the
+    // same time don't overwrite each other
+    const update = this.db.transaction(() => {
+      const batch = this.getSync(id);
+      if (!batch) {
+        throw new Error(`Batch ${id} not found`);
+      }
+
+      const rows = batch.rows.map((entry) =>
+        entry.row === row ? { ...entry, ...changes, row } : entry
+      );
+      const status = batchStatus(rows);
+      const now = new Date().toISOString();
+      this.db
+        .prepare(
+          `UPDATE search_batches SET rows = ?, status = ?, updated_at = ?,
+             completed_at = ? WHERE id = ?`
+        )
+        .run(
+          JSON.stringify(rows),
+          status,
+          now,
+          FINISHED_BATCH.includes(status) ? batch.completed_at ?? now : null,
+          id
+        );
+    });
+    update();
+
+    return (await this.get(id))!;
+  }
+
+  async addProfiles(
+    id: string,
+    row: number,
+    profiles: MergedProfile[]
+  ): Promise<number> {
+    const add = this.db.transaction((): number => {
+      const batch = this.getSync(id);
+      if (!batch) {
+        throw new Error(`Batch ${id} not found`);
+      }
+
+      const combined: Map<string, BatchProfile> = new Map(
+        batch.profiles.map((profile) => [profileKey(profile.linkedin_url), profile])
+      );
+      let added = 0;
+      for (const profile of profiles) {
+        const key = profileKey(profile.linkedin_url);
+        const existing = combined.get(key);
+        if (!existing) {
+          added++;
+        }
+
+        // Keep the best scored version, found by every row that found it
+        const best =
+          existing && existing.confidence_score >= profile.confidence_score
+            ? existing
+            : profile;
+        combined.set(key, {
+          ...best,
+          batch_rows: [...new Set([...(existing?.batch_rows || []), row])].sort(
+            (a, b) => a - b
+          ),
+        });
+      }
+
+      const sorted = [...combined.values()].sort(
+        (a, b) => b.confidence_score - a.confidence_score
+      );
+      this.db
+        .prepare("UPDATE search_batches SET profiles = ?, updated_at = ? WHERE id = ?")
+        .run(JSON.stringify(sorted), new Date().toISOString(), id);
+      return added;
+    });
+
+    return add();
+  }
+
+  async listUnfinished(): Promise<SearchBatch[]> {
+    return this.db
+      .query<BatchDbRow, []>(
+        `SELECT * FROM search_batches WHERE status IN ('queued', 'running')
+         ORDER BY created_at`
+      )
+      .all()
+      .map((row) => this.toBatch(row));
+  }
+
+  private getSync(id: string): SearchBatch | null {
+    const row = this.db
+      .query<BatchDbRow, [string]>("SELECT * FROM search_batches WHERE id = ?")
+      .get(id);
+    return row ? this.toBatch(row) : null;
+  }
+
+  private toBatch(row: BatchDbRow): SearchBatch {
+    return {
+      id: row.id,
+      status: row.status,
+      provider: row.provider ?? undefined,
+      rows: JSON.parse(row.rows),
+      profiles: JSON.parse(row.profiles),
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+      completed_at: row.completed_at,
+    };
+  }
+}
+
+// Runs the rows of search batches through the pipeline a few at a time.
+// Provider budgets are checked before each row, so a batch that runs out of
+// budget skips its remaining rows instead of failing halfway through a row.
+class SearchBatchRunner {
+  private pipeline: SearchPipeline;
+  private store: BatchStore;
+  private concurrency: number;
+  private maxRows: number;
+  private queue: { id: string; row: number }[] = [];
+  private active = 0;
+  private listeners: Map<string, BatchListener> = new Map();
+
+  constructor(
+    pipeline: SearchPipeline,
+    store: BatchStore,
+    concurrency: number = 2,
+    maxRows: number = 100
+  ) {
+    this.pipeline = pipeline;
+    this.store = store;
+    this.concurrency = concurrency;
+    this.maxRows = maxRows;
+  }
+
+  // Validate and queue a batch. Rows that can't be run are marked failed;
+  // throws when no row can be run at all.
+  async submit(
+    requests: (SearchRequest & { provider?: string })[],
+    provider?: string,
+    listener?: BatchListener
+  ): Promise<SearchBatch> {
+    if (!Array.isArray(requests) || requests.length === 0) {
+      throw new ValidationError("A batch needs at least one search request");
+    }
+    if (requests.length > this.maxRows) {
+      throw new ValidationError(`A batch can have at most ${this.maxRows} rows`);
+    }
+
+    const rows: NewBatchRow[] = requests.map((entry) => {
+      if (!entry || typeof entry !== "object") {
+        return { request: {}, status: "failed", error: "Not a search request" };
+      }
+
+      const { provider: rowProvider, ...fields } = entry;
+      const request: SearchRequest = { ...fields, dry_run: false };
+      try {
+        this.pipeline.prepare(request, rowProvider || provider);
+      } catch (error) {
+        // Budgets are checked again when the row runs
+        if (!(error instanceof QuotaExceededError)) {
+          return {
+            request,
+            provider: rowProvider,
+            status: "failed",
+            error: toApiError(error).message,
+          };
+        }
+      }
+      return { request, provider: rowProvider };
+    });
+
+    const invalid = rows.filter((row) => row.status === "failed");
+    if (invalid.length === rows.length) {
+      throw new ValidationError(
+        `No row of the batch can be run: ${rows
+          .slice(0, 3)
+          .map((row, index) => `row ${index + 1}: ${row.error}`)
+          .join("; ")}`
+      );
+    }
+
+    const batch = await this.store.create(rows, provider);
+    if (listener) {
+      this.listeners.set(batch.id, listener);
+    }
+    batch.rows
+      .filter((row) => row.status === "queued")
+      .forEach((row) => this.enqueue(batch.id, row.row));
+    console.log(
+      `📦 Queued search batch ${batch.id} with ${batch.rows.length - invalid.length} rows (${invalid.length} invalid)`
+    );
+    return batch;
+  }
+
+  get(id: string): Promise<SearchBatch | null> {
+    return this.store.get(id);
+  }
+
+  // Re-queue rows that were queued or running when the process stopped
+  async resume(): Promise<number> {
+    const batches = await this.store.listUnfinished();
+    for (const batch of batches) {
+      for (const row of batch.rows) {
+        if (row.status === "running") {
+          await this.store.updateRow(batch.id, row.row, { status: "queued" });
+        }
+        if (row.status === "queued" || row.status === "running") {
+          this.enqueue(batch.id, row.row);
+        }
+      }
+    }
+    return batches.length;
+  }
+
+  private enqueue(id: string, row: number) {
+    this.queue.push({ id, row });
+    this.drain();
+  }
+
+  private drain() {
+    while (this.active < this.concurrency && this.queue.length > 0) {
+      const { id, row } = this.queue.shift()!;
+      this.active++;
+      this.runRow(id, row)
+        .catch((error) => console.error(`Batch ${id} row ${row} crashed:`, error))
+        .finally(() => {
+          this.active--;
+          this.drain();
+        });
+    }
+  }
+
+  private async runRow(id: string, rowNumber: number) {
+    const batch = await this.store.get(id);
+    const row = batch?.rows.find((entry) => entry.row === rowNumber);
+    if (!batch || !row || row.status !== "queued") {
+      return;
+    }
+
+    await this.store.updateRow(id, rowNumber, { status: "running" });
+
+    let changes: Partial<BatchRow>;
+    try {
+      const prepared = this.pipeline.prepare(
+        row.request,
+        row.provider || batch.provider
+      );
+      const outcome = await this.pipeline.run(prepared);
+      const added = await this.store.addProfiles(id, rowNumber, outcome.profiles);
+      changes = {
+        status: "completed",
+        search_id: outcome.search.id,
+        profiles_found: outcome.profiles.length,
+        new_profiles: added,
+      };
+    } catch (error) {
+      const skipped = error instanceof QuotaExceededError;
+      if (!skipped) {
+        console.error(`❌ Batch ${id} row ${rowNumber} failed:`, error);
+      }
+      changes = {
+        status: skipped ? "skipped" : "failed",
+        error: toApiError(error).message,
+      };
+    }
+
+    const updated = await this.store.updateRow(id, rowNumber, {
+      ...changes,
+      completed_at: new Date().toISOString(),
+    });
+    const finished = FINISHED_BATCH.includes(updated.status);
+    if (updated.status === "completed") {
+      console.log(
+        `✅ Search batch ${id} completed with ${updated.profiles.length} profiles`
+      );
+    } else if (updated.status === "failed") {
+      console.log(`❌ Search batch ${id} failed, no row completed`);
+    }
+
+    const listener = this.listeners.get(id);
+    if (listener) {
+      if (finished) {
+        this.listeners.delete(id);
+      }
+      try {
+        await listener(updated, updated.rows.find((entry) => entry.row === rowNumber)!);
+      } catch (error) {
+        console.error(`Batch ${id} listener failed:`, error);
+      }
+    }
+  }
+}
+
+export {
+  SearchBatchRunner,
+  SqliteBatchStore,
+  BatchStore,
+  SearchBatch,
+  BatchRow,
+  BatchProfile,
+  BatchStatus,
+  BatchRowStatus,
+  FINISHED_BATCH,
+  BatchListener,
+  NewBatchRow,
+  batchRowsFromCsv,
+  batchResults
+};
@@ -0,0 +1,212 @@
+import { Database } from "bun:sqlite";
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import { SearchResultItem } from "./search-services.js";
+
+// Types and Interfaces
+// "default" reads and writes the cache, "bypass" skips it entirely and
+// "refresh" always calls the provider but stores the fresh response
+type CacheMode = "default" | "bypass" | "refresh";
+
+interface CacheEntry {
+  items: SearchResultItem[];
+  expiresAt: number;
+}
+
+interface CacheStats {
+  hits: number;
+  memory_hits: number;
+  disk_hits: number;
+  misses: number;
+  hit_rate: number;
+  // Every cache hit is a paid provider request we didn't make
+  api_calls_saved: number;
+  bypassed: number;
+  refreshed: number;
+  memory_entries: number;
+  disk_entries: number;
+  ttl_seconds: number;
+  since: string;
+}
+
+const CACHE_MODES: CacheMode[] = ["default", "bypass", "refresh"];
+
+const CACHE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS search_cache (
+    key TEXT PRIMARY KEY,
+    provider TEXT NOT NULL,
+    query TEXT NOT NULL,
+    start INTEGER NOT NULL,
+    items TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_search_cache_expires_at ON search_cache (expires_at);
+`;
+
+// Provider page cache keyed by provider, final query string and page. Recent
+// entries live in an in-memory LRU, everything is persisted to SQLite so the
+// cache survives restarts.
+class SearchCache {
+  private db: Database;
+  private ttlMs: number;
+  private maxMemoryEntries: number;
+  private memory: Map<string, CacheEntry> = new Map();
+  private counters = {
+    memory_hits: 0,
+    disk_hits: 0,
+    misses: 0,
+    bypassed: 0,
+    refreshed: 0,
+  };
+  private since = new Date().toISOString();
+
+  constructor(filename: string, ttlSeconds: number, maxMemoryEntries: number) {
+    if (filename !== ":memory:") {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL;");
+    this.db.exec(CACHE_SCHEMA);
+    this.ttlMs = ttlSeconds * 1000;
+    this.maxMemoryEntries = maxMemoryEntries;
+
+    this.prune();
+  }
+
+  get enabled(): boolean {
+    return this.ttlMs > 0;
+  }
+
+  get(
+    provider: string,
+    query: string,
+    start: number,
+    numResults: number,
+    mode: CacheMode = "default"
+  ): SearchResultItem[] | undefined {
+    if (mode === "bypass") {
+      this.counters.bypassed++;
+      return undefined;
+    }
+    if (mode === "refresh") {
+      this.counters.refreshed++;
+      return undefined;
+    }
+    if (!this.enabled) {
+      return undefined;
+    }
+
+    const key = this.key(provider, query, start, numResults);
+    const now = Date.now();
+
+    const cached = this.memory.get(key);
+    if (cached && cached.expiresAt > now) {
+      // Move to the most recently used position
+      this.memory.delete(key);
+      this.memory.set(key, cached);
+      this.counters.memory_hits++;
+      return cached.items;
+    }
+
+    const row = this.db
+      .query<{ items: string; expires_at: number }, [string, number]>(
+        "SELECT items, expires_at FROM search_cache WHERE key = ? AND expires_at > ?"
+      )
+      .get(key, now);
+    if (row) {
+      const items: SearchResultItem[] = JSON.parse(row.items);
+      this.remember(key, { items, expiresAt: row.expires_at });
+      this.counters.disk_hits++;
+      return items;
+    }
+
+    this.counters.misses++;
+    return undefined;
+  }
+
+  set(
+    provider: string,
+    query: string,
+    start: number,
+    numResults: number,
+    items: SearchResultItem[],
+    mode: CacheMode = "default"
+  ) {
+    if (mode === "bypass" || !this.enabled) {
+      return;
+    }
+
+    const key = this.key(provider, query, start, numResults);
+    const now = Date.now();
+    const expiresAt = now + this.ttlMs;
+
+    this.remember(key, { items, expiresAt });
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO search_cache
+           (key, provider, query, start, items, created_at, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(key, provider, query, start, JSON.stringify(items), now, expiresAt);
+  }
+
+  stats(): CacheStats {
+    const hits = this.counters.memory_hits + this.counters.disk_hits;
+    const lookups = hits + this.counters.misses;
+    const diskEntries = this.db
+      .query<{ count: number }, [number]>(
+        "SELECT COUNT(*) AS count FROM search_cache WHERE expires_at > ?"
+      )
+      .get(Date.now())!.count;
+
+    return {
+      hits,
+      memory_hits: this.counters.memory_hits,
+      disk_hits: this.counters.disk_hits,
+      misses: this.counters.misses,
+      hit_rate: lookups > 0 ? Math.round((hits / lookups) * 1000) / 1000 : 0,
+      api_calls_saved: hits,
+      bypassed: this.counters.bypassed,
+      refreshed: this.counters.refreshed,
+      memory_entries: this.memory.size,
+      disk_entries: diskEntries,
+      ttl_seconds: this.ttlMs / 1000,
+      since: this.since,
+    };
+  }
+
+  // Drop expired entries from disk
+  prune() {
+    this.db
+      .prepare("DELETE FROM search_cache WHERE expires_at <= ?")
+      .run(Date.now());
+  }
+
+  private remember(key: string, entry: CacheEntry) {
+    this.memory.delete(key);
+    this.memory.set(key, entry);
+
+    // Evict the least recently used entries
+    while (this.memory.size > this.maxMemoryEntries) {
+      const oldest = this.memory.keys().next().value as string;
+      this.memory.delete(oldest);
+    }
+  }
+
+  private key(
+    provider: string,
+    query: string,
+    start: number,
+    numResults: number
+  ): string {
+    return createHash("sha256")
+      .update(`${provider}\n${start}\n${numResults}\n${query}`)
+      .digest("hex");
+  }
+}
+
+export { SearchCache, CacheMode, CacheStats, CACHE_MODES };
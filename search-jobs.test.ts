@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { SearchJobRunner, SqliteJobStore } from "./search-jobs.js";
+import { SearchPipeline } from "./search-pipeline.js";
+
+// A public address, so the callback passes the private-address checks; the
+// requests never leave the fetch mock
+const CALLBACK_URL = "http://93.184.216.34/hook";
+
+// Webhook tests never run a search, submitted jobs only get validated
+const pipeline = { prepare: () => ({}) } as unknown as SearchPipeline;
+
+let store: SqliteJobStore;
+let fetchMock: ReturnType<typeof spyOn<typeof globalThis, "fetch">>;
+
+beforeEach(() => {
+  store = new SqliteJobStore(":memory:");
+  fetchMock = spyOn(globalThis, "fetch").mockImplementation((async (_: RequestInfo | URL) =>
+    new Response(null, { status: 204 })) as typeof fetch);
+});
+
+afterEach(() => {
+  fetchMock.mockRestore();
+});
+
+// Wait for the webhook delivered in the background to be recorded
+async function webhookStatus(id: string): Promise<string | null> {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const job = await store.get(id);
+    if (job?.webhook_status !== "pending") {
+      return job?.webhook_status ?? null;
+    }
+    await Bun.sleep(10);
+  }
+  return "pending";
+}
+
+describe("SearchJobRunner.resume", () => {
+  test("delivers webhooks of jobs that finished before a restart", async () => {
+    const job = await store.create({ request: {}, callback_url: CALLBACK_URL });
+    await store.update(job.id, {
+      status: "completed",
+      completed_at: new Date().toISOString(),
+    });
+
+    const runner = new SearchJobRunner(pipeline, store, "secret", 1);
+    expect(await runner.resume()).toBe(1);
+
+    expect(await webhookStatus(job.id)).toBe("delivered");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe(CALLBACK_URL);
+  });
+
+  test("leaves delivered webhooks alone", async () => {
+    const job = await store.create({ request: {}, callback_url: CALLBACK_URL });
+    await store.update(job.id, { status: "failed", webhook_status: "delivered" });
+
+    const runner = new SearchJobRunner(pipeline, store, "secret", 1);
+    expect(await runner.resume()).toBe(0);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("SearchJobRunner webhooks", () => {
+  for (const callbackUrl of [
+    "http://127.0.0.1/hook",
+    "http://[::1]/hook",
+    "http://10.0.0.1/hook",
+    // Resolves to a loopback address
+    "http://localhost:3000/hook",
+  ]) {
+    test(`rejects callbacks to ${callbackUrl}`, async () => {
+      const runner = new SearchJobRunner(pipeline, store, "secret", 1);
+
+      await expect(runner.submit({}, undefined, callbackUrl)).rejects.toThrow(
+        "callback_url must not point to a loopback or private address"
+      );
+      expect(await store.listUnfinished()).toEqual([]);
+    });
+  }
+
+  test("doesn't follow redirects", async () => {
+    fetchMock.mockImplementation((async (_: RequestInfo | URL) =>
+      new Response(null, {
+        status: 302,
+        headers: { Location: "http://127.0.0.1/admin" },
+      })) as typeof fetch);
+    const job = await store.create({ request: {}, callback_url: CALLBACK_URL });
+    await store.update(job.id, { status: "completed" });
+
+    const runner = new SearchJobRunner(pipeline, store, "secret", 1);
+    await runner.resume();
+
+    expect(await webhookStatus(job.id)).toBe("failed");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({ redirect: "manual" });
+  });
+});
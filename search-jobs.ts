@@ -0,0 +1,518 @@
+import { Database } from "bun:sqlite";
+import { createHmac, randomUUID } from "crypto";
+import { lookup } from "dns/promises";
+import fs from "fs";
+import { isIP } from "net";
+import path from "path";
+import { LinkedInProfile } from "./search-services.js";
+import { profileKey } from "./linkedin-url.js";
+import { SearchPipeline, SearchRequest } from "./search-pipeline.js";
+import { ValidationError, ApiErrorCode, toApiError } from "./api-errors.js";
+
+// Types and Interfaces
+type JobStatus = "queued" | "running" | "completed" | "failed";
+
+interface SearchJob {
+  id: string;
+  status: JobStatus;
+  request: SearchRequest;
+  provider?: string;
+  callback_url?: string;
+  pages_fetched: number;
+  profiles_found: number;
+  // Partial results while running, the final merged profiles once completed
+  profiles: LinkedInProfile[];
+  search_id: number | null;
+  // Safe to return to clients, like the error envelope's message and code
+  error: string | null;
+  error_code: ApiErrorCode | null;
+  webhook_status: "pending" | "delivered" | "failed" | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+type NewSearchJob = Pick<SearchJob, "request" | "provider" | "callback_url">;
+
+// Repository for job state, so jobs survive a restart
+interface JobStore {
+  create(job: NewSearchJob): Promise<SearchJob>;
+  get(id: string): Promise<SearchJob | null>;
+  update(id: string, changes: Partial<SearchJob>): Promise<SearchJob>;
+  // Queued and running jobs, and finished jobs whose webhook is still pending
+  listUnfinished(): Promise<SearchJob[]>;
+}
+
+interface JobRow {
+  id: string;
+  status: JobStatus;
+  request: string;
+  provider: string | null;
+  callback_url: string | null;
+  pages_fetched: number;
+  profiles_found: number;
+  profiles: string;
+  search_id: number | null;
+  error: string | null;
+  error_code: ApiErrorCode | null;
+  webhook_status: SearchJob["webhook_status"];
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+const JOB_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS search_jobs (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    request TEXT NOT NULL,
+    provider TEXT,
+    callback_url TEXT,
+    pages_fetched INTEGER NOT NULL DEFAULT 0,
+    profiles_found INTEGER NOT NULL DEFAULT 0,
+    profiles TEXT NOT NULL DEFAULT '[]',
+    search_id INTEGER,
+    error TEXT,
+    error_code TEXT,
+    webhook_status TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    completed_at TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_search_jobs_status ON search_jobs (status);
+`;
+
+// Columns that can be changed with update()
+const JOB_COLUMNS = [
+  "status",
+  "pages_fetched",
+  "profiles_found",
+  "profiles",
+  "search_id",
+  "error",
+  "error_code",
+  "webhook_status",
+  "completed_at",
+] as const;
+
+// Columns added after the first release, created on older databases
+const JOB_COLUMN_MIGRATIONS: [string, string][] = [["error_code", "TEXT"]];
+
+const WEBHOOK_ATTEMPTS = 3;
+// Per-attempt timeout of a webhook request
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+// Loopback, private, link-local, CGNAT and multicast ranges. Webhooks are
+// requests from the server to a URL the client chose, so they must not reach
+// internal services.
+const PRIVATE_IPV4 = [
+  /^0\./,
+  /^10\./,
+  /^127\./,
+  /^169\.254\./,
+  /^172\.(1[6-9]|2\d|3[01])\./,
+  /^192\.168\./,
+  /^100\.(6[4-9]|[7-9]\d|1[01]\d|12[0-7])\./,
+  /^(22[4-9]|2[3-5]\d)\./,
+];
+const PRIVATE_IPV6 = [/^::1?$/, /^f[cd]/i, /^fe[89ab]/i, /^ff/i];
+
+function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses, e.g. ::ffff:127.0.0.1
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) {
+    return isPrivateAddress(mapped[1]);
+  }
+  const ranges = isIP(address) === 4 ? PRIVATE_IPV4 : PRIVATE_IPV6;
+  return ranges.some((range) => range.test(address));
+}
+
+// Why a callback URL can't be used, or null when it resolves to public
+// addresses only
+async function callbackUrlProblem(callbackUrl: string): Promise<string | null> {
+  let host: string;
+  try {
+    host = new URL(callbackUrl).hostname.replace(/^\[|\]$/g, "");
+  } catch {
+    return "is not a valid URL";
+  }
+
+  let addresses: string[];
+  try {
+    addresses = isIP(host)
+      ? [host]
+      : (await lookup(host, { all: true })).map((entry) => entry.address);
+  } catch {
+    return `host ${host} can't be resolved`;
+  }
+
+  return addresses.some(isPrivateAddress)
+    ? "must not point to a loopback or private address"
+    : null;
+}
+
+class SqliteJobStore implements JobStore {
+  private db: Database;
+
+  constructor(filename: string) {
+    if (filename !== ":memory:") {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL;");
+    this.db.exec(JOB_SCHEMA);
+    this.migrateColumns();
+  }
+
+  async create(job: NewSearchJob): Promise<SearchJob> {
+    const id = randomUUID();
+    const now = new Date().toISOString();
+
+    this.db
+      .prepare(
+        `INSERT INTO search_jobs (id, status, request, provider, callback_url,
+           webhook_status, created_at, updated_at)
+         VALUES (?, 'queued', ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        id,
+        JSON.stringify(job.request),
+        job.provider ?? null,
+        job.callback_url ?? null,
+        job.callback_url ? "pending" : null,
+        now,
+        now
+      );
+
+    return (await this.get(id))!;
+  }
+
+  async get(id: string): Promise<SearchJob | null> {
+    const row = this.db
+      .query<JobRow, [string]>("SELECT * FROM search_jobs WHERE id = ?")
+      .get(id);
+    return row ? this.toJob(row) : null;
+  }
+
+  async update(id: string, changes: Partial<SearchJob>): Promise<SearchJob> {
+    const assignments: string[] = ["updated_at = ?"];
+    const params: (string | number | null)[] = [new Date().toISOString()];
+
+    for (const column of JOB_COLUMNS) {
+      if (changes[column] === undefined) continue;
+      assignments.push(`${column} = ?`);
+      params.push(
+        column === "profiles"
+          ? JSON.stringify(changes.profiles)
+          : (changes[column] as string | number | null)
+      );
+    }
+
+    this.db
+      .prepare(`UPDATE search_jobs SET ${assignments.join(", ")} WHERE id = ?`)
+      .run(...params, id);
+
+    return (await this.get(id))!;
+  }
+
+  async listUnfinished(): Promise<SearchJob[]> {
+    return this.db
+      .query<JobRow, []>(
+        `SELECT * FROM search_jobs
+         WHERE status IN ('queued', 'running')
+            OR (status IN ('completed', 'failed') AND webhook_status = 'pending')
+         ORDER BY created_at`
+      )
+      .all()
+      .map((row) => this.toJob(row));
+  }
+
+  private toJob(row: JobRow): SearchJob {
+    return {
+      id: row.id,
+      status: row.status,
+      request: JSON.parse(row.request),
+      provider: row.provider ?? undefined,
+      callback_url: row.callback_url ?? undefined,
+      pages_fetched: row.pages_fetched,
+      profiles_found: row.profiles_found,
+      profiles: JSON.parse(row.profiles),
+      search_id: row.search_id,
+      error: row.error,
+      error_code: row.error_code,
+      webhook_status: row.webhook_status,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+      completed_at: row.completed_at,
+    };
+  }
+
+  private migrateColumns() {
+    const existing = this.db
+      .query<{ name: string }, []>("PRAGMA table_info(search_jobs)")
+      .all()
+      .map((column) => column.name);
+
+    for (const [column, type] of JOB_COLUMN_MIGRATIONS) {
+      if (!existing.includes(column)) {
+        this.db.exec(`ALTER TABLE search_jobs ADD COLUMN ${column} ${type}`);
+      }
+    }
+  }
+}
+
+// Runs search jobs in-process, a few at a time, and notifies callback URLs
+// with a signed webhook when a job finishes
+class SearchJobRunner {
+  private pipeline: SearchPipeline;
+  private store: JobStore;
+  private webhookSecret: string;
+  private concurrency: number;
+  private queue: string[] = [];
+  private active = 0;
+
+  constructor(
+    pipeline: SearchPipeline,
+    store: JobStore,
+    webhookSecret: string,
+    concurrency: number = 2
+  ) {
+    this.pipeline = pipeline;
+    this.store = store;
+    this.webhookSecret = webhookSecret;
+    this.concurrency = concurrency;
+  }
+
+  // Validate and queue a job. Throws when the request can't be run.
+  async submit(
+    request: SearchRequest,
+    provider?: string,
+    callbackUrl?: string
+  ): Promise<SearchJob> {
+    this.pipeline.prepare(request, provider);
+
+    if (callbackUrl) {
+      if (!/^https?:\/\//.test(callbackUrl)) {
+        throw new ValidationError("callback_url must be an http(s) URL", [
+          { path: "callback_url", message: "must be an http(s) URL" },
+        ]);
+      }
+      if (!this.webhookSecret) {
+        throw new ValidationError("callback_url requires WEBHOOK_SECRET to be configured", [
+          { path: "callback_url", message: "needs WEBHOOK_SECRET on the server" },
+        ]);
+      }
+      const problem = await callbackUrlProblem(callbackUrl);
+      if (problem) {
+        throw new ValidationError(`callback_url ${problem}`, [
+          { path: "callback_url", message: problem },
+        ]);
+      }
+    }
+
+    const job = await this.store.create({
+      request,
+      provider,
+      callback_url: callbackUrl,
+    });
+    this.enqueue(job.id);
+    return job;
+  }
+
+  get(id: string): Promise<SearchJob | null> {
+    return this.store.get(id);
+  }
+
+  // Re-queue jobs that were queued or running when the process stopped.
+  // Running jobs start over since their provider pagination can't resume.
+  // Jobs that finished before their webhook went out get it delivered now.
+  async resume(): Promise<number> {
+    const jobs = await this.store.listUnfinished();
+    for (const job of jobs) {
+      if (job.status === "completed" || job.status === "failed") {
+        this.deliverWebhook(job).catch((error) =>
+          console.error(`Webhook for job ${job.id} crashed:`, error)
+        );
+        continue;
+      }
+      if (job.status === "running") {
+        await this.store.update(job.id, {
+          status: "queued",
+          pages_fetched: 0,
+          profiles_found: 0,
+          profiles: [],
+        });
+      }
+      this.enqueue(job.id);
+    }
+    return jobs.length;
+  }
+
+  private enqueue(id: string) {
+    this.queue.push(id);
+    this.drain();
+  }
+
+  private drain() {
+    while (this.active < this.concurrency && this.queue.length > 0) {
+      const id = this.queue.shift()!;
+      this.active++;
+      this.runJob(id)
+        .catch((error) => console.error(`Job ${id} crashed:`, error))
+        .finally(() => {
+          this.active--;
+          this.drain();
+        });
+    }
+  }
+
+  private async runJob(id: string) {
+    const job = await this.store.get(id);
+    if (!job || job.status !== "queued") {
+      return;
+    }
+
+    console.log(`⚙️ Running search job ${id}`);
+    await this.store.update(id, { status: "running" });
+
+    // Partial results, deduplicated by profile key
+    const partial: Map<string, LinkedInProfile> = new Map();
+    let pagesFetched = 0;
+
+    let finished: SearchJob;
+    try {
+      const prepared = this.pipeline.prepare(job.request, job.provider);
+      const outcome = await this.pipeline.run(prepared, async (page) => {
+        pagesFetched++;
+        for (const profile of page.profiles) {
+          if (profile.confidence_score >= prepared.minConfidence) {
+            partial.set(profileKey(profile.linkedin_url), profile);
+          }
+        }
+        await this.store.update(id, {
+          pages_fetched: pagesFetched,
+          profiles_found: partial.size,
+          profiles: [...partial.values()],
+        });
+      });
+
+      finished = await this.store.update(id, {
+        status: "completed",
+        profiles_found: outcome.profiles.length,
+        profiles: outcome.profiles,
+        search_id: outcome.search.id,
+        completed_at: new Date().toISOString(),
+      });
+      console.log(
+        `✅ Search job ${id} completed with ${outcome.profiles.length} profiles`
+      );
+    } catch (error) {
+      console.error(`❌ Search job ${id} failed:`, error);
+      const apiError = toApiError(error);
+      finished = await this.store.update(id, {
+        status: "failed",
+        error: apiError.message,
+        error_code: apiError.code,
+        completed_at: new Date().toISOString(),
+      });
+    }
+
+    // Delivered outside the job's concurrency slot, so a slow receiver
+    // doesn't hold up other jobs
+    if (finished.callback_url) {
+      this.deliverWebhook(finished).catch((error) =>
+        console.error(`Webhook for job ${id} crashed:`, error)
+      );
+    }
+  }
+
+  private async deliverWebhook(job: SearchJob) {
+    const delivered = await this.sendWebhook(job);
+    await this.store.update(job.id, {
+      webhook_status: delivered ? "delivered" : "failed",
+    });
+  }
+
+  private async sendWebhook(job: SearchJob): Promise<boolean> {
+    // Checked again since the host may resolve differently by now
+    const problem = await callbackUrlProblem(job.callback_url!);
+    if (problem) {
+      console.error(`Webhook for job ${job.id} not sent: callback_url ${problem}`);
+      return false;
+    }
+
+    const body = JSON.stringify({
+      job_id: job.id,
+      status: job.status,
+      search_id: job.search_id,
+      pages_fetched: job.pages_fetched,
+      profiles_found: job.profiles_found,
+      error: job.error,
+      error_code: job.error_code,
+      completed_at: job.completed_at,
+    });
+
+    // Receivers verify the HMAC of "<timestamp>.<body>" with the shared secret
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = createHmac("sha256", this.webhookSecret)
+      .update(`${timestamp}.${body}`)
+      .digest("hex");
+
+    for (let attempt = 1; attempt <= WEBHOOK_ATTEMPTS; attempt++) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+      try {
+        const response = await fetch(job.callback_url!, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "X-Webhook-Timestamp": timestamp,
+            "X-Webhook-Signature": `sha256=${signature}`,
+          },
+          body,
+          signal: controller.signal,
+          // A redirect could lead to an internal address
+          redirect: "manual",
+        });
+
+        if (response.ok) {
+          return true;
+        }
+        // Redirects aren't followed, so retrying won't get further
+        if (response.status >= 300 && response.status < 400) {
+          console.error(
+            `Webhook for job ${job.id} failed: redirected (${response.status}), redirects aren't followed`
+          );
+          return false;
+        }
+        console.error(
+          `Webhook for job ${job.id} failed (attempt ${attempt}): ${response.status}`
+        );
+      } catch (error) {
+        console.error(
+          `Webhook for job ${job.id} failed (attempt ${attempt}):`,
+          controller.signal.aborted ? `timed out after ${WEBHOOK_TIMEOUT_MS}ms` : error
+        );
+      } finally {
+        clearTimeout(timer);
+      }
+
+      if (attempt < WEBHOOK_ATTEMPTS) {
+        await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** attempt));
+      }
+    }
+
+    return false;
+  }
+}
+
+export {
+  SearchJobRunner,
+  SqliteJobStore,
+  JobStore,
+  SearchJob,
+  NewSearchJob,
+  JobStatus
+};
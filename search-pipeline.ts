@@ -0,0 +1,602 @@
+import {
+  SearchProviderRegistry,
+  SearchProvider,
+  SearchResults,
+  ProfileExtractor,
+  LinkedInProfile,
+  PageListener,
+  ProfileSearchCriteria,
+} from "./search-services.js";
+import { CacheMode } from "./search-cache.js";
+import { QuotaTracker } from "./quota-tracker.js";
+import { ProviderRequestError } from "./http-client.js";
+import {
+  ProfileMerger,
+  MergedProfile,
+  ProviderProfiles,
+  ProviderCoverage,
+} from "./profile-merger.js";
+import { SearchStore, SearchRecord } from "./search-store.js";
+import { TitleCatalog, TitleFamily } from "./title-catalog.js";
+import { Taxonomy, TaxonomyEntry } from "./taxonomy.js";
+import { applyCompanySize } from "./company-size.js";
+import { Gazetteer, RegionFilter, filterByRegion } from "./gazetteer.js";
+import { profileKey } from "./linkedin-url.js";
+import { CompanyNormalizer } from "./company-directory.js";
+import {
+  TargetCompany,
+  resolveTargetCompany,
+  companyQueryTerms,
+  applyCompanyMatch,
+} from "./company-search.js";
+import { ValidationError, ProviderUnavailableError } from "./api-errors.js";
+import { searchRequestSchema } from "./api-schemas.js";
+
+// Types and Interfaces
+interface SearchRequest {
+  // Pick one of job_title, titles or title_family (default: "cto")
+  job_title?: string;
+  titles?: string[];
+  title_family?: string;
+  // Scope the search to one company ("who is the CTO of Acme?")
+  company?: string;
+  // The company's website, also searched for, e.g. "acme.com"
+  company_domain?: string;
+  region?: string;
+  company_sector?: string;
+  company_type?: string;
+  company_size?: string;
+  // Also search sector and company type terms in these languages, e.g. ["de"]
+  languages?: string[];
+  num_results?: number;
+  get_all_pages?: boolean;
+  min_confidence?: number;
+  fields?: string[];
+  cache?: CacheMode;
+  // Swap providers that are over budget for another configured one (default: true)
+  fallback?: boolean;
+  // Return the generated provider queries without running them
+  dry_run?: boolean;
+  // Leave out people an earlier search already returned
+  only_new?: boolean;
+}
+
+interface ProviderError {
+  provider: string;
+  error: string;
+  // HTTP status of the failed provider request, if there was a response
+  status?: number | null;
+  // Set when only some pages failed and the provider's other pages were used
+  pages_failed?: number;
+}
+
+interface ProviderFallback {
+  from: string;
+  to: string;
+}
+
+// The queries a provider would run for a request
+interface QueryPlan {
+  provider: string;
+  queries: string[];
+  // Most provider requests the search would send, before retries
+  max_requests: number;
+}
+
+// A validated request, ready to run
+interface PreparedSearch {
+  request: SearchRequest;
+  providers: SearchProvider[];
+  family: TitleFamily;
+  minConfidence: number;
+  fallbacks: ProviderFallback[];
+  // Company size bucket the results are filtered and boosted for
+  companySize?: TaxonomyEntry;
+  // The request's region, when the gazetteer knows it
+  region?: RegionFilter;
+  // The company a company-targeted search is scoped to
+  company?: TargetCompany;
+}
+
+// Profiles extracted from one provider page while the search is running
+interface ProfilesPage {
+  provider: string;
+  page: number;
+  profiles: LinkedInProfile[];
+}
+
+type ProfilesPageListener = (page: ProfilesPage) => void | Promise<void>;
+
+interface SearchOutcome {
+  search: SearchRecord;
+  family: TitleFamily;
+  providers: string[];
+  profiles: MergedProfile[];
+  coverage: ProviderCoverage[];
+  provider_errors: ProviderError[];
+  provider_fallbacks: ProviderFallback[];
+  // Providers whose pagination stopped early because their budget ran out
+  quota_exhausted: string[];
+  // Pages that failed across all providers after retries
+  pages_failed: number;
+  // Profiles left out by only_new because an earlier search returned them
+  skipped_seen: number;
+}
+
+// Runs a search request end to end: provider fan-out, profile extraction,
+// merging and storing the run. Shared by the REST routes and the job runner.
+class SearchPipeline {
+  private providers: SearchProviderRegistry;
+  private titleCatalog: TitleCatalog;
+  private taxonomy: Taxonomy;
+  private gazetteer: Gazetteer;
+  private companyNormalizer: CompanyNormalizer;
+  private profileExtractor: ProfileExtractor;
+  private profileMerger: ProfileMerger;
+  private searchStore: SearchStore;
+  private quota?: QuotaTracker;
+
+  constructor(
+    providers: SearchProviderRegistry,
+    titleCatalog: TitleCatalog,
+    taxonomy: Taxonomy,
+    gazetteer: Gazetteer,
+    companyNormalizer: CompanyNormalizer,
+    profileExtractor: ProfileExtractor,
+    profileMerger: ProfileMerger,
+    searchStore: SearchStore,
+    quota?: QuotaTracker
+  ) {
+    this.providers = providers;
+    this.titleCatalog = titleCatalog;
+    this.taxonomy = taxonomy;
+    this.gazetteer = gazetteer;
+    this.companyNormalizer = companyNormalizer;
+    this.profileExtractor = profileExtractor;
+    this.profileMerger = profileMerger;
+    this.searchStore = searchStore;
+    this.quota = quota;
+  }
+
+  // Validate a request and resolve its providers and title family.
+  // Throws a ValidationError when the request is invalid, and a
+  // ProviderUnavailableError or QuotaExceededError when it can't be run.
+  // The whole request is validated before providers are checked, and dry
+  // runs don't need configured providers or budget.
+  prepare(input: SearchRequest, providerSelector?: string): PreparedSearch {
+    const request = searchRequestSchema.parse(input);
+
+    const family = this.titleCatalog.resolve(request);
+
+    const minConfidence = request.min_confidence ?? 0;
+
+    // Sectors and company types are searched by their keywords, so a
+    // misspelt one would silently search for the misspelling
+    if (request.company_sector && !this.taxonomy.resolve("sectors", request.company_sector)) {
+      throw new ValidationError(
+        `Unknown company_sector: ${request.company_sector}. Available sectors: ${this.taxonomy
+          .sectors()
+          .map((sector) => sector.name)
+          .join(", ")}`,
+        [{ path: "company_sector", message: "is not a known sector" }]
+      );
+    }
+    if (request.company_type && !this.taxonomy.resolve("company_types", request.company_type)) {
+      throw new ValidationError(
+        `Unknown company_type: ${request.company_type}. Available types: ${this.taxonomy
+          .companyTypes()
+          .map((type) => type.name)
+          .join(", ")}`,
+        [{ path: "company_type", message: "is not a known company type" }]
+      );
+    }
+
+    let companySize: TaxonomyEntry | undefined;
+    if (request.company_size) {
+      companySize = this.taxonomy.resolve("company_sizes", request.company_size);
+      if (!companySize) {
+        throw new ValidationError(
+          `Unknown company_size: ${request.company_size}. Available sizes: ${this.taxonomy
+            .companySizes()
+            .map((size) => size.name)
+            .join(", ")}`,
+          [{ path: "company_size", message: "is not a known company size" }]
+        );
+      }
+    }
+
+    // Regions the gazetteer doesn't know are still searched as given, but
+    // profiles can't be checked against them
+    const region = request.region
+      ? this.gazetteer.resolveRegion(request.region)
+      : undefined;
+
+    const company =
+      request.company !== undefined
+        ? resolveTargetCompany(
+            this.companyNormalizer,
+            request.company,
+            request.company_domain
+          )
+        : undefined;
+    if (request.company_domain && !company) {
+      throw new ValidationError("company_domain needs a company", [
+        { path: "company_domain", message: "needs a company" },
+      ]);
+    }
+
+    const selected = this.resolveProviders(providerSelector, request.dry_run);
+    if (selected.length === 0) {
+      throw new ProviderUnavailableError("No search provider is configured");
+    }
+
+    if (request.dry_run) {
+      return {
+        request,
+        providers: selected,
+        family,
+        minConfidence,
+        fallbacks: [],
+        companySize,
+        region,
+        company,
+      };
+    }
+
+    // Check if every provider's API key is configured
+    const unconfigured = selected.filter((p) => !p.isConfigured());
+    if (unconfigured.length > 0) {
+      throw new ProviderUnavailableError(
+        `${unconfigured.map((p) => p.label).join(", ")} is not configured`
+      );
+    }
+
+    const { providers, fallbacks } = this.applyQuota(
+      selected,
+      request.fallback !== false
+    );
+
+    return {
+      request,
+      providers,
+      family,
+      minConfidence,
+      fallbacks,
+      companySize,
+      region,
+      company,
+    };
+  }
+
+  // Generated queries and request counts per provider, for dry runs
+  plan(prepared: PreparedSearch): QueryPlan[] {
+    const criteria = this.buildCriteria(prepared);
+    const numResults = resultLimit(prepared.request);
+    return prepared.providers.map((provider) => ({
+      provider: provider.name,
+      queries: provider.buildQueries(criteria),
+      max_requests: provider.plannedRequests(criteria, numResults),
+    }));
+  }
+
+  async run(
+    prepared: PreparedSearch,
+    onPage?: ProfilesPageListener
+  ): Promise<SearchOutcome> {
+    const {
+      request,
+      providers,
+      family,
+      minConfidence,
+      fallbacks,
+      companySize,
+      region,
+      company,
+    } = prepared;
+    const sizeBuckets = this.taxonomy.companySizes();
+    const startTime = Date.now();
+
+    const searchContext = [
+      request.region,
+      request.company_sector,
+      request.company_type,
+    ]
+      .filter(Boolean)
+      .join(" ");
+
+    // Report profiles page by page for callers that show progress
+    const pageListener: PageListener | undefined = onPage
+      ? async (page) => {
+          const extracted = this.profileExtractor.extractProfiles(
+            { ...page, queries: [] },
+            searchContext,
+            family
+          );
+          const { profiles } = await this.withoutSeen(
+            applyCompanyMatch(
+              filterByRegion(extracted, region),
+              this.companyNormalizer,
+              company
+            ),
+            request.only_new
+          );
+          await onPage({
+            provider: page.provider,
+            page: page.page,
+            profiles: applyCompanySize(profiles, sizeBuckets, companySize),
+          });
+        }
+      : undefined;
+
+    // Query every selected provider in parallel; one failing provider
+    // shouldn't sink the whole request
+    const settled = await Promise.allSettled(
+      providers.map((provider) =>
+        this.runTitleSearch(provider, prepared, pageListener)
+      )
+    );
+
+    const providerProfiles: ProviderProfiles[] = [];
+    const providerErrors: ProviderError[] = [];
+    const quotaExhausted: string[] = [];
+    let pagesFailed = 0;
+    for (const [index, outcome] of settled.entries()) {
+      const provider = providers[index];
+      if (outcome.status === "fulfilled") {
+        const { quota_exhausted, pages_failed, error } = outcome.value;
+        if (quota_exhausted) {
+          quotaExhausted.push(provider.name);
+        }
+        if (pages_failed && error) {
+          pagesFailed += pages_failed;
+          providerErrors.push({
+            provider: provider.name,
+            error: error.message,
+            status: error.status,
+            pages_failed,
+          });
+        }
+        // Extract and validate profiles
+        providerProfiles.push({
+          provider: provider.name,
+          profiles: this.profileExtractor.extractProfiles(
+            outcome.value,
+            searchContext,
+            family
+          ),
+        });
+      } else {
+        console.error(`${provider.label} search failed:`, outcome.reason);
+        const reason = outcome.reason;
+        providerErrors.push({
+          provider: provider.name,
+          error: reason instanceof Error ? reason.message : String(reason),
+          status: reason instanceof ProviderRequestError ? reason.status : undefined,
+        });
+      }
+    }
+
+    if (providerProfiles.length === 0) {
+      throw new ProviderUnavailableError(
+        `Every search provider failed: ${providerErrors.map((e) => e.error).join("; ")}`,
+        providerErrors,
+        502
+      );
+    }
+
+    // Dedupe across providers and combine confidence scores
+    const merged = this.profileMerger.merge(providerProfiles);
+
+    // Drop profiles located outside the region or not tied to the target
+    // company, then filter and boost by company size and company tie, which
+    // can change the order
+    const ranked = applyCompanySize(
+      applyCompanyMatch(
+        filterByRegion(merged.profiles, region),
+        this.companyNormalizer,
+        company
+      ),
+      sizeBuckets,
+      companySize
+    )
+      .filter((profile) => profile.confidence_score >= minConfidence)
+      .sort((a, b) => b.confidence_score - a.confidence_score);
+
+    // For only_new, leave out people earlier searches returned
+    const unseen = await this.withoutSeen(ranked, request.only_new);
+    const profiles = unseen.profiles;
+
+    // Construct query string for logging
+    const queryParts = [
+      request.region,
+      request.company_sector,
+      request.company_type,
+      request.company_size,
+    ].filter(Boolean);
+    const label = company ? `${family.label} at ${company.name}` : family.label;
+    const query =
+      queryParts.length > 0
+        ? `${label} ${queryParts.join(" ")}`
+        : company
+        ? label
+        : `All ${family.label} profiles`;
+
+    // Store the search run and the profiles it returned
+    const search = await this.searchStore.saveSearch(
+      {
+        query,
+        providers: providers.map((p) => p.name),
+        company: company?.name ?? null,
+        region: request.region,
+        company_sector: request.company_sector,
+        company_type: request.company_type,
+        company_size: request.company_size,
+        results_count: profiles.length,
+        search_time: (Date.now() - startTime) / 1000,
+        timestamp: new Date().toISOString(),
+      },
+      profiles
+    );
+
+    return {
+      search,
+      family,
+      providers: search.providers,
+      profiles,
+      coverage: merged.coverage,
+      provider_errors: providerErrors,
+      provider_fallbacks: fallbacks,
+      quota_exhausted: quotaExhausted,
+      pages_failed: pagesFailed,
+      skipped_seen: unseen.skipped,
+    };
+  }
+
+  // Replace providers that are over budget with configured providers that
+  // still have budget. Throws QuotaExceededError if one can't be replaced.
+  private applyQuota(
+    selected: SearchProvider[],
+    allowFallback: boolean
+  ): { providers: SearchProvider[]; fallbacks: ProviderFallback[] } {
+    const quota = this.quota;
+    if (!quota) {
+      return { providers: selected, fallbacks: [] };
+    }
+
+    const providers: SearchProvider[] = [];
+    const fallbacks: ProviderFallback[] = [];
+    for (const provider of selected) {
+      if (quota.hasBudget(provider.name)) {
+        providers.push(provider);
+        continue;
+      }
+
+      const replacement = allowFallback
+        ? this.providers
+            .configured()
+            .find(
+              (candidate) =>
+                !selected.includes(candidate) &&
+                !providers.includes(candidate) &&
+                quota.hasBudget(candidate.name)
+            )
+        : undefined;
+      if (!replacement) {
+        quota.assertBudget(provider.name);
+      }
+
+      console.log(
+        `⚠️ ${provider.label} is over budget, falling back to ${replacement!.label}`
+      );
+      providers.push(replacement!);
+      fallbacks.push({ from: provider.name, to: replacement!.name });
+    }
+
+    return { providers, fallbacks };
+  }
+
+  // Resolve a provider selector: a single name, a comma separated list for
+  // fan-out search, or "all" for every configured provider (every provider
+  // for dry runs)
+  private resolveProviders(selector: string | undefined, dryRun?: boolean): SearchProvider[] {
+    if (selector === "all") {
+      return dryRun ? this.providers.list() : this.providers.configured();
+    }
+
+    const names = selector
+      ? selector.split(",").map((name) => name.trim()).filter(Boolean)
+      : [];
+    if (names.length === 0) {
+      const provider = this.providers.get();
+      return provider ? [provider] : [];
+    }
+
+    const unknown = names.filter((name) => !this.providers.has(name));
+    if (unknown.length > 0) {
+      throw new ValidationError(
+        `Unknown search provider: ${unknown.join(", ")}. Available providers: ${this.providers.names().join(", ")}`,
+        [{ path: "provider", message: "is not a known search provider" }]
+      );
+    }
+
+    return [...new Set(names)].map((name) => this.providers.get(name)!);
+  }
+
+  // Leave out profiles the seen index already has, when asked to
+  private async withoutSeen<T extends LinkedInProfile>(
+    profiles: T[],
+    onlyNew?: boolean
+  ): Promise<{ profiles: T[]; skipped: number }> {
+    if (!onlyNew || profiles.length === 0) {
+      return { profiles, skipped: 0 };
+    }
+
+    const seen = await this.searchStore.seenProfiles(
+      profiles.map((profile) => profileKey(profile.linkedin_url))
+    );
+    const unseen = profiles.filter(
+      (profile) => !seen.has(profileKey(profile.linkedin_url))
+    );
+    return { profiles: unseen, skipped: profiles.length - unseen.length };
+  }
+
+  private buildCriteria(prepared: PreparedSearch): ProfileSearchCriteria {
+    const { request, family, companySize, region } = prepared;
+    const languages = request.languages || [];
+    return {
+      titles: family.titles,
+      companyTerms: prepared.company
+        ? companyQueryTerms(prepared.company)
+        : undefined,
+      regionTerms: region
+        ? region.query_terms
+        : request.region
+        ? [request.region]
+        : undefined,
+      sectorTerms: request.company_sector
+        ? this.taxonomy.terms("sectors", request.company_sector, languages)
+        : undefined,
+      typeTerms: request.company_type
+        ? this.taxonomy.terms("company_types", request.company_type, languages)
+        : undefined,
+      sizeTerms: companySize?.keywords,
+    };
+  }
+
+  private async runTitleSearch(
+    provider: SearchProvider,
+    prepared: PreparedSearch,
+    onPage?: PageListener
+  ): Promise<SearchResults> {
+    const { request } = prepared;
+    const criteria = this.buildCriteria(prepared);
+    const numResults = resultLimit(request);
+    const options = { onPage, cache: request.cache };
+
+    if (numResults === null) {
+      return provider.searchProfiles(criteria, true, options);
+    }
+
+    return provider.searchProfilesLimited(criteria, numResults, options);
+  }
+}
+
+// Results a request asks for, null for all pages. All pages are fetched by
+// default unless num_results is specified.
+function resultLimit(request: SearchRequest): number | null {
+  const getAllPages =
+    request.get_all_pages !== undefined ? request.get_all_pages : !request.num_results;
+  return getAllPages ? null : request.num_results || 10;
+}
+
+export {
+  SearchPipeline,
+  SearchRequest,
+  PreparedSearch,
+  SearchOutcome,
+  ProviderError,
+  ProviderFallback,
+  QueryPlan,
+  ProfilesPage,
+  ProfilesPageListener
+};
@@ -1,3 +1,25 @@
+import { TitleFamily } from "./title-catalog.js";
+import { SearchCache, CacheMode } from "./search-cache.js";
+import { QuotaTracker, QuotaExceededError } from "./quota-tracker.js";
+import { CompanySizeInference } from "./company-size.js";
+import { ProfileParser, FieldConfidence } from "./profile-parser.js";
+import { Gazetteer, ProfileLocation } from "./gazetteer.js";
+import { ConfidenceScorer, ScoreContribution } from "./confidence-scorer.js";
+import { canonicalizeLinkedInUrl, profileKey } from "./linkedin-url.js";
+import { HttpClient, RetryPolicy, ProviderRequestError } from "./http-client.js";
+import {
+  QueryNode,
+  QueryLimits,
+  GOOGLE_QUERY_LIMITS,
+  and,
+  or,
+  not,
+  phrase,
+  site,
+  renderQuery,
+  splitQuery,
+} from "./query-builder.js";
+
 // Types and Interfaces
 interface GoogleSearchItem {
   title: string;
@@ -17,6 +39,101 @@ interface SerpApiSearchItem {
 
 interface SerpApiResponse {
   organic_results?: SerpApiSearchItem[];
+  // SerpAPI reports some failures with a 200 status and an error message
+  error?: string;
+}
+
+// Normalized result shape every search provider returns
+interface SearchResultItem {
+  title: string;
+  link: string;
+  snippet: string;
+}
+
+interface SearchResults {
+  provider: string;
+  // Provider label recorded in LinkedInProfile.sources
+  source: string;
+  // Queries sent to the provider; more than one when the query was split to
+  // stay within the provider's limits
+  queries: string[];
+  items: SearchResultItem[];
+  // Set when pagination stopped early because the provider's budget ran out
+  quota_exhausted?: boolean;
+  // Pages that failed after all retries; the other pages are still returned
+  pages_failed?: number;
+  // Error of the last failed page
+  error?: ProviderRequestError;
+}
+
+// One page of results, reported while a paginated search is still running
+interface SearchPage {
+  provider: string;
+  source: string;
+  // 1-based page number
+  page: number;
+  items: SearchResultItem[];
+}
+
+type PageListener = (page: SearchPage) => void | Promise<void>;
+
+// Shared services a provider uses around its API calls
+interface ProviderServices {
+  cache?: SearchCache;
+  quota?: QuotaTracker;
+  retry?: Partial<RetryPolicy>;
+  // Most page requests one search may send, across sub-queries and pages.
+  // Split queries fetch fewer pages each to stay within it.
+  maxRequests?: number;
+}
+
+// Per-request options that don't change the query itself
+interface SearchOptions {
+  onPage?: PageListener;
+  cache?: CacheMode;
+}
+
+interface ProfileSearchCriteria {
+  // Titles OR-ed together in the query, usually a TitleFamily's titles
+  titles: string[];
+  // Names and domain of the company a company-targeted search is scoped to,
+  // OR-ed together
+  companyTerms?: string[];
+  // Location terms OR-ed together, e.g. a region's countries from the gazetteer
+  regionTerms?: string[];
+  // Sector, company type and company size terms from the taxonomy, each
+  // OR-ed together
+  sectorTerms?: string[];
+  typeTerms?: string[];
+  sizeTerms?: string[];
+}
+
+interface SearchProvider {
+  // Registry key, e.g. "google" or "serpapi"
+  readonly name: string;
+  // Human readable name, used in logs, bot messages and profile sources
+  readonly label: string;
+
+  isConfigured(): boolean;
+
+  // The provider queries a search would run, without running them
+  buildQueries(criteria: ProfileSearchCriteria): string[];
+
+  // Most page requests a search would send, not counting retries and cache
+  // hits. `numResults` null is a search for all pages.
+  plannedRequests(criteria: ProfileSearchCriteria, numResults: number | null): number;
+
+  searchProfiles(
+    criteria: ProfileSearchCriteria,
+    getAllPages?: boolean,
+    options?: SearchOptions
+  ): Promise<SearchResults>;
+
+  searchProfilesLimited(
+    criteria: ProfileSearchCriteria,
+    numResults?: number,
+    options?: SearchOptions
+  ): Promise<SearchResults>;
 }
 
 interface LinkedInProfile {
@@ -26,817 +143,639 @@ interface LinkedInProfile {
   linkedin_url: string;
   snippet: string;
   confidence_score: number;
-  location?: string;
+  location?: ProfileLocation;
   sources: string[];
+  company_size?: CompanySizeInference;
+  // Parser confidence (0-1) in the name, title and company
+  field_confidence?: FieldConfidence;
+  // What confidence_score is made of; the points add up to the score
+  score_breakdown?: ScoreContribution[];
 }
 
 // Configuration
 const GOOGLE_SEARCH_URL = "https://www.googleapis.com/customsearch/v1";
 const SERPAPI_URL = "https://serpapi.com/search";
+const SERPAPI_NO_RESULTS = /hasn't returned any results/i;
+
+// Exclude common non-executive terms
+const EXCLUDED_TERMS = [
+  "Intern",
+  "Student",
+  "Former",
+  "Ex-",
+  "Previous",
+  "Consultant",
+];
+
+// Shared query building and pagination. Concrete providers only know how to
+// fetch a single page of results from their backend.
+abstract class BaseSearchProvider implements SearchProvider {
+  abstract readonly name: string;
+  abstract readonly label: string;
+
+  // Results per page and the maximum number of pages the backend will serve
+  protected pageSize = 10;
+  protected maxPages = 10;
+  // Delay between page requests to avoid hitting rate limits
+  protected pageDelayMs = 100;
+  // Longer queries are split into several sub-queries
+  protected queryLimits: QueryLimits = GOOGLE_QUERY_LIMITS;
+
+  private cache?: SearchCache;
+  private quota?: QuotaTracker;
+  private retryPolicy?: Partial<RetryPolicy>;
+  private maxRequests: number;
+  private http?: HttpClient;
+
+  constructor(services: ProviderServices = {}) {
+    this.cache = services.cache;
+    this.quota = services.quota;
+    this.retryPolicy = services.retry;
+    this.maxRequests = services.maxRequests || Infinity;
+  }
 
-class LinkedInProfileSearchService {
-  private apiKey: string;
-  private cseId: string;
-  private baseUrl: string;
+  abstract isConfigured(): boolean;
 
-  constructor(apiKey: string, cseId: string) {
-    this.apiKey = apiKey;
-    this.cseId = cseId;
-    this.baseUrl = GOOGLE_SEARCH_URL;
-  }
+  // Fetch one page of results. `start` is the 0-based offset of the first result.
+  protected abstract fetchPage(
+    query: string,
+    start: number,
+    numResults: number
+  ): Promise<SearchResultItem[]>;
 
   async searchProfiles(
-    jobTitle: string,
-    region?: string,
-    companySector?: string,
-    companyType?: string,
-    additionalTitles?: string[],
-    getAllPages: boolean = true
-  ): Promise<GoogleSearchResponse> {
-    // Use the provided job title for search
-    const titleQuery = `"${jobTitle}"`;
-
-    // Construct complete search query
-    const queryParts = ["site:linkedin.com/in/", `(${titleQuery})`];
-
-    // Add optional filters
-    if (region) {
-      queryParts.push(`"${region}"`);
-    }
+    criteria: ProfileSearchCriteria,
+    getAllPages: boolean = true,
+    options: SearchOptions = {}
+  ): Promise<SearchResults> {
+    return await this.runQueries(
+      this.buildQueries(criteria),
+      getAllPages ? null : this.pageSize,
+      options
+    );
+  }
 
-    if (companySector) {
-      queryParts.push(`"${companySector}"`);
-    }
+  async searchProfilesLimited(
+    criteria: ProfileSearchCriteria,
+    numResults: number = 10,
+    options: SearchOptions = {}
+  ): Promise<SearchResults> {
+    return await this.runQueries(this.buildQueries(criteria), numResults, options);
+  }
 
-    if (companyType) {
-      queryParts.push(`"${companyType}"`);
-    }
+  buildQueries(criteria: ProfileSearchCriteria): string[] {
+    return splitQuery(this.buildQueryTree(criteria), this.queryLimits).map(
+      (node) => renderQuery(node)
+    );
+  }
 
-    const query = queryParts.join(" ");
-    console.log(`🔍 Google Search Query: ${query}`);
+  plannedRequests(criteria: ProfileSearchCriteria, numResults: number | null): number {
+    const { queries, pages } = this.pagination(this.buildQueries(criteria).length, numResults);
+    return queries * pages;
+  }
 
-    if (getAllPages) {
-      return this.executeSearchAllPages(query);
-    } else {
-      return this.executeSearch(query, 10);
-    }
+  // Sub-queries to run and pages to fetch for each, within maxRequests.
+  // Pages are cut first; sub-queries only when there are more than requests.
+  private pagination(
+    queryCount: number,
+    numResults: number | null
+  ): { queries: number; pages: number } {
+    const queries = Math.min(queryCount, this.maxRequests);
+    const pages =
+      numResults === null
+        ? this.maxPages
+        : Math.min(this.maxPages, Math.ceil(numResults / this.pageSize));
+    return {
+      queries,
+      pages: Math.max(1, Math.min(pages, Math.floor(this.maxRequests / queries))),
+    };
   }
 
-  async searchCtoProfiles(
-    region?: string,
-    companySector?: string,
-    companyType?: string,
-    additionalTitles?: string[],
-    getAllPages: boolean = true
-  ): Promise<GoogleSearchResponse> {
-    // Construct Boolean search query for executive titles
-    const executiveTitles = [
-      "CTO",
-      "Chief Technology Officer",
-      "VP Technology",
-      "Head of Technology",
-      "Technology Director",
-      "VP Engineering",
-      "Chief Technical Officer",
-      "Head of Engineering",
-      "Tech Lead",
-      "Engineering Director",
-      "Technology VP",
-      "Chief Technology",
-      "VP of Technology",
-      "VP of Engineering",
-      "Head of Tech",
+  protected buildQueryTree(criteria: ProfileSearchCriteria): QueryNode {
+    const { titles, companyTerms, regionTerms, sectorTerms, typeTerms, sizeTerms } =
+      criteria;
+
+    const parts: QueryNode[] = [
+      site("linkedin.com/in/"),
+      or(...titles.map((title) => phrase(title))),
     ];
 
-    if (additionalTitles) {
-      executiveTitles.push(...additionalTitles);
+    if (companyTerms && companyTerms.length > 0) {
+      parts.push(or(...companyTerms.map((term) => phrase(term))));
     }
 
-    // Build title search component
-    const titleQuery = executiveTitles
-      .map((title) => `"${title}"`)
-      .join(" OR ");
-
-    // Construct complete search query
-    const queryParts = ["site:linkedin.com/in/", `(${titleQuery})`];
-
     // Add optional filters
-    if (region) {
-      queryParts.push(`"${region}"`);
+    if (regionTerms && regionTerms.length > 0) {
+      parts.push(or(...regionTerms.map((term) => phrase(term))));
     }
 
-    if (companySector) {
+    if (sectorTerms && sectorTerms.length > 0) {
       // Add sector-related keywords
-      const sectorKeywords: Record<string, string[]> = {
-        software: ["software", "SaaS", "tech", "technology"],
-        fintech: ["fintech", "financial technology", "finance", "banking"],
-        healthcare: ["healthcare", "medical", "health tech", "biotech"],
-        "e-commerce": ["e-commerce", "ecommerce", "retail", "online"],
-        "AI/ML": ["AI", "ML", "artificial intelligence", "machine learning"],
-        cybersecurity: ["cybersecurity", "security", "infosec"],
-        blockchain: ["blockchain", "crypto", "web3"],
-        IoT: ["IoT", "Internet of Things", "connected devices"],
-        gaming: ["gaming", "game", "entertainment"],
-      };
-
-      const sectorTerms = sectorKeywords[companySector.toLowerCase()] || [
-        companySector,
-      ];
-      const sectorQuery = sectorTerms.map((term) => `"${term}"`).join(" OR ");
-      queryParts.push(`(${sectorQuery})`);
+      parts.push(or(...sectorTerms.map((term) => phrase(term))));
     }
 
-    if (companyType) {
+    if (typeTerms && typeTerms.length > 0) {
       // Add company type indicators
-      const typeKeywords: Record<string, string[]> = {
-        startup: ["startup", "early stage", "seed"],
-        SME: ["SME", "medium business", "scale-up"],
-        enterprise: ["enterprise", "Fortune", "large company"],
-        unicorn: ["unicorn", "billion", "$1B"],
-        public: ["public company", "NYSE", "NASDAQ", "publicly traded"],
-      };
-
-      const typeTerms = typeKeywords[companyType.toLowerCase()] || [
-        companyType,
-      ];
-      const typeQuery = typeTerms.map((term) => `"${term}"`).join(" OR ");
-      queryParts.push(`(${typeQuery})`);
+      parts.push(or(...typeTerms.map((term) => phrase(term))));
     }
 
-    // Exclude common non-executive terms
-    const excludes = [
-      "Intern",
-      "Student",
-      "Former",
-      "Ex-",
-      "Previous",
-      "Consultant",
-    ];
-    excludes.forEach((exclude) => {
-      queryParts.push(`-"${exclude}"`);
-    });
+    if (sizeTerms && sizeTerms.length > 0) {
+      // Add company size hints such as funding stages or headcounts
+      parts.push(or(...sizeTerms.map((term) => phrase(term))));
+    }
 
-    const query = queryParts.join(" ");
+    EXCLUDED_TERMS.forEach((exclude) => {
+      parts.push(not(phrase(exclude)));
+    });
 
-    return await this.executeSearchAllPages(query);
+    return and(...parts);
   }
 
-  async searchCtoProfilesLimited(
-    region?: string,
-    companySector?: string,
-    companyType?: string,
-    additionalTitles?: string[],
-    numResults: number = 10
-  ): Promise<GoogleSearchResponse> {
-    // Construct Boolean search query for executive titles
-    const executiveTitles = [
-      "CTO",
-      "Chief Technology Officer",
-      "VP Technology",
-      "Head of Technology",
-      "Technology Director",
-      "VP Engineering",
-      "Chief Technical Officer",
-      "Head of Engineering",
-      "Tech Lead",
-      "Engineering Director",
-      "Technology VP",
-      "Chief Technology",
-      "VP of Technology",
-      "VP of Engineering",
-      "Head of Tech",
-    ];
+  // Run every sub-query of a search and merge their results. `numResults`
+  // limits the search to that many results, null fetches all pages.
+  private async runQueries(
+    allQueries: string[],
+    numResults: number | null,
+    options: SearchOptions
+  ): Promise<SearchResults> {
+    if (allQueries.length > 1) {
+      console.log(
+        `${this.label}: Query is over the provider's limits, split into ${allQueries.length} sub-queries`
+      );
+    }
+
+    const { queries: queryCount, pages } = this.pagination(allQueries.length, numResults);
+    const queries = allQueries.slice(0, queryCount);
+    if (queries.length < allQueries.length || (numResults === null && pages < this.maxPages)) {
+      console.warn(
+        `⚠️ ${this.label}: Capped at ${this.maxRequests} requests, running ${queries.length} sub-queries with up to ${pages} pages each`
+      );
+    }
+
+    // Number pages across sub-queries, so progress keeps counting up
+    let pageCount = 0;
+    const subOptions: SearchOptions = {
+      ...options,
+      onPage: options.onPage
+        ? (page) => options.onPage!({ ...page, page: ++pageCount })
+        : undefined,
+    };
 
-    if (additionalTitles) {
-      executiveTitles.push(...additionalTitles);
-    }
+    const items: Map<string, SearchResultItem> = new Map();
+    let quotaExhausted = false;
+    let pagesFailed = 0;
+    let lastError: ProviderRequestError | undefined;
 
-    // Build title search component
-    const titleQuery = executiveTitles
-      .map((title) => `"${title}"`)
-      .join(" OR ");
+    for (const [index, query] of queries.entries()) {
+      console.log(`🔍 ${this.label} Query: ${query}`);
 
-    // Construct complete search query
-    const queryParts = ["site:linkedin.com/in/", `(${titleQuery})`];
+      let results: SearchResults;
+      try {
+        // More results than fit on one page are fetched page by page
+        results =
+          numResults === null || numResults > this.pageSize
+            ? await this.executeSearchAllPages(query, subOptions, pages)
+            : await this.executeSearch(query, numResults, subOptions);
+      } catch (error) {
+        if (error instanceof QuotaExceededError) {
+          // Nothing fetched yet: let the caller fall back to another provider
+          if (index === 0) {
+            throw error;
+          }
+          quotaExhausted = true;
+          break;
+        }
+        if (!(error instanceof ProviderRequestError)) {
+          throw error;
+        }
+        // A failed sub-query degrades to the other sub-queries' results
+        pagesFailed++;
+        lastError = error;
+        continue;
+      }
 
-    // Add optional filters
-    if (region) {
-      queryParts.push(`"${region}"`);
-    }
+      // Sub-queries overlap, keep each result once
+      for (const item of results.items) {
+        if (!items.has(item.link)) {
+          items.set(item.link, item);
+        }
+      }
+      quotaExhausted = quotaExhausted || Boolean(results.quota_exhausted);
+      pagesFailed += results.pages_failed || 0;
+      lastError = results.error || lastError;
 
-    if (companySector) {
-      // Add sector-related keywords
-      const sectorKeywords: Record<string, string[]> = {
-        software: ["software", "SaaS", "tech", "technology"],
-        fintech: ["fintech", "financial technology", "finance", "banking"],
-        healthcare: ["healthcare", "medical", "health tech", "biotech"],
-        "e-commerce": ["e-commerce", "ecommerce", "retail", "online"],
-        "AI/ML": ["AI", "ML", "artificial intelligence", "machine learning"],
-        cybersecurity: ["cybersecurity", "security", "infosec"],
-        blockchain: ["blockchain", "crypto", "web3"],
-        IoT: ["IoT", "Internet of Things", "connected devices"],
-        gaming: ["gaming", "game", "entertainment"],
-      };
-
-      const sectorTerms = sectorKeywords[companySector.toLowerCase()] || [
-        companySector,
-      ];
-      const sectorQuery = sectorTerms.map((term) => `"${term}"`).join(" OR ");
-      queryParts.push(`(${sectorQuery})`);
+      if (quotaExhausted || (numResults !== null && items.size >= numResults)) {
+        break;
+      }
     }
 
-    if (companyType) {
-      // Add company type indicators
-      const typeKeywords: Record<string, string[]> = {
-        startup: ["startup", "early stage", "seed"],
-        SME: ["SME", "medium business", "scale-up"],
-        enterprise: ["enterprise", "Fortune", "large company"],
-        unicorn: ["unicorn", "billion", "$1B"],
-        public: ["public company", "NYSE", "NASDAQ", "publicly traded"],
-      };
-
-      const typeTerms = typeKeywords[companyType.toLowerCase()] || [
-        companyType,
-      ];
-      const typeQuery = typeTerms.map((term) => `"${term}"`).join(" OR ");
-      queryParts.push(`(${typeQuery})`);
+    if (lastError && items.size === 0) {
+      throw lastError;
     }
 
-    // Exclude common non-executive terms
-    const excludes = [
-      "Intern",
-      "Student",
-      "Former",
-      "Ex-",
-      "Previous",
-      "Consultant",
-    ];
-    excludes.forEach((exclude) => {
-      queryParts.push(`-"${exclude}"`);
-    });
+    const merged = [...items.values()];
+    return {
+      provider: this.name,
+      source: this.label,
+      queries,
+      items: numResults === null ? merged : merged.slice(0, numResults),
+      quota_exhausted: quotaExhausted || undefined,
+      pages_failed: pagesFailed,
+      error: lastError,
+    };
+  }
 
-    const query = queryParts.join(" ");
+  // GET a provider URL with timeouts and retries. Throws ProviderRequestError.
+  protected requestJson<T>(url: string, init: RequestInit = {}): Promise<T> {
+    // Created lazily since `label` is only set once the subclass is constructed.
+    // Every attempt reaches the provider and is billed, so each one counts
+    // against its budget, retries included.
+    this.http ??= new HttpClient(this.label, this.retryPolicy, () =>
+      this.quota?.consume(this.name)
+    );
+    return this.http.getJson<T>(url, init);
+  }
 
-    return await this.executeSearch(query, numResults);
+  private async fetchPageCached(
+    query: string,
+    start: number,
+    numResults: number,
+    mode: CacheMode = "default"
+  ): Promise<{ items: SearchResultItem[]; cached: boolean }> {
+    const cached = this.cache?.get(this.name, query, start, numResults, mode);
+    if (cached) {
+      console.log(`${this.label}: Cache hit for results starting at ${start}`);
+      return { items: cached, cached: true };
+    }
+
+    // Only requests that actually reach the provider count against its
+    // budget, see requestJson
+    const items = await this.fetchPage(query, start, numResults);
+    this.cache?.set(this.name, query, start, numResults, items, mode);
+    return { items, cached: false };
   }
 
-  private async executeSearch(
+  protected async executeSearch(
     query: string,
-    numResults: number
-  ): Promise<GoogleSearchResponse> {
-    const params = new URLSearchParams({
-      key: this.apiKey,
-      cx: this.cseId,
-      q: query,
-      num: Math.min(numResults, 10).toString(),
-      safe: "active",
-      lr: "lang_en",
-    });
+    numResults: number,
+    options: SearchOptions = {}
+  ): Promise<SearchResults> {
+    const { items } = await this.fetchPageCached(
+      query,
+      0,
+      Math.min(numResults, this.pageSize),
+      options.cache
+    );
 
-    try {
-      const response = await fetch(`${this.baseUrl}?${params}`, {
-        method: "GET",
-        headers: {
-          "Content-Type": "application/json",
-        },
-      });
+    await options.onPage?.({ provider: this.name, source: this.label, page: 1, items });
+    return { provider: this.name, source: this.label, queries: [query], items };
+  }
 
-      if (!response.ok) {
-        throw new Error(`Search API request failed: ${response.statusText}`);
-      }
+  protected async executeSearchAllPages(
+    query: string,
+    options: SearchOptions = {},
+    maxPages: number = this.maxPages
+  ): Promise<SearchResults> {
+    const allItems: SearchResultItem[] = [];
+    let quotaExhausted = false;
+    let pagesFailed = 0;
+    let lastError: ProviderRequestError | undefined;
 
-      return await response.json();
-    } catch (error) {
-      throw new Error(`Search API request failed: ${error}`);
-    }
-  }
+    console.log(`Starting paginated ${this.label} search for query: ${query}`);
 
-  private async executeSearchAllPages(
-    query: string
-  ): Promise<GoogleSearchResponse> {
-    const allItems: GoogleSearchItem[] = [];
-    let startIndex = 1;
-    const maxResults = 10; // Google API limit per request
-    let hasMoreResults = true;
-
-    console.log(`Starting paginated search for query: ${query}`);
-
-    while (hasMoreResults) {
-      const params = new URLSearchParams({
-        key: this.apiKey,
-        cx: this.cseId,
-        q: query,
-        num: maxResults.toString(),
-        start: startIndex.toString(),
-        safe: "active",
-        lr: "lang_en",
-      });
+    for (let page = 0; page < maxPages; page++) {
+      const start = page * this.pageSize;
 
+      let items: SearchResultItem[];
+      let cached: boolean;
       try {
-        console.log(`Fetching page starting at index ${startIndex}`);
-        const response = await fetch(`${this.baseUrl}?${params}`, {
-          method: "GET",
-          headers: {
-            "Content-Type": "application/json",
-          },
-        });
-
-        if (!response.ok) {
-          console.error(`Search API request failed: ${response.statusText}`);
+        console.log(`${this.label}: Fetching page ${page + 1}`);
+        ({ items, cached } = await this.fetchPageCached(
+          query,
+          start,
+          this.pageSize,
+          options.cache
+        ));
+      } catch (error) {
+        if (error instanceof QuotaExceededError) {
+          // Nothing fetched yet: let the caller fall back to another provider
+          if (page === 0) {
+            throw error;
+          }
+          // Otherwise degrade to the pages we already have
+          console.warn(`${this.label}: ${error.message}, stopping pagination`);
+          quotaExhausted = true;
           break;
         }
+        if (!(error instanceof ProviderRequestError)) {
+          throw error;
+        }
 
-        const data = await response.json();
-
-        if (data.items && data.items.length > 0) {
-          allItems.push(...data.items);
-          console.log(
-            `Found ${data.items.length} items on page starting at ${startIndex}. Total so far: ${allItems.length}`
-          );
-
-          // Check if there are more results
-          if (data.items.length < maxResults) {
-            // Less than max results means this is the last page
-            hasMoreResults = false;
-          } else {
-            // Move to next page
-            startIndex += maxResults;
-
-            // Google Custom Search API typically limits to 100 results total
-            if (startIndex > 100) {
-              console.log("Reached Google API limit of 100 results");
-              hasMoreResults = false;
-            }
-          }
-        } else {
-          // No items found, end pagination
-          hasMoreResults = false;
-          console.log("No more items found, ending pagination");
+        console.error(`${this.label}: Page ${page + 1} failed: ${error.message}`);
+        pagesFailed++;
+        lastError = error;
+        // Errors like a bad API key will fail every page, stop right away
+        if (!error.retryable) {
+          break;
         }
+        continue;
+      }
 
-        // Add a small delay to avoid hitting rate limits
-        await new Promise((resolve) => setTimeout(resolve, 100));
-      } catch (error) {
-        console.error(`Error fetching page starting at ${startIndex}:`, error);
-        hasMoreResults = false;
+      if (items.length === 0) {
+        console.log(`No more results found at page ${page + 1}`);
+        break;
+      }
+
+      allItems.push(...items);
+      console.log(
+        `${this.label}: Fetched page ${page + 1}, got ${
+          items.length
+        } results. Total so far: ${allItems.length}`
+      );
+      await options.onPage?.({
+        provider: this.name,
+        source: this.label,
+        page: page + 1,
+        items,
+      });
+
+      // Less than a full page means this is the last page
+      if (items.length < this.pageSize) {
+        break;
+      }
+
+      // Cached pages didn't hit the provider, so there is no rate limit to respect
+      if (page < maxPages - 1 && !cached) {
+        await new Promise((resolve) => setTimeout(resolve, this.pageDelayMs));
       }
     }
 
     console.log(`Pagination complete. Total items found: ${allItems.length}`);
 
+    // Every page we tried failed: report the provider as failed rather than
+    // as having no results
+    if (lastError && allItems.length === 0) {
+      throw lastError;
+    }
+
     return {
+      provider: this.name,
+      source: this.label,
+      queries: [query],
       items: allItems,
+      quota_exhausted: quotaExhausted || undefined,
+      pages_failed: pagesFailed,
+      error: lastError,
     };
   }
 }
 
-class SerpApiSearchService {
+class GoogleSearchProvider extends BaseSearchProvider {
+  readonly name = "google";
+  readonly label = "Google Custom Search";
+
   private apiKey: string;
+  private cseId: string;
   private baseUrl: string;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, cseId: string, services: ProviderServices = {}) {
+    super(services);
     this.apiKey = apiKey;
-    this.baseUrl = SERPAPI_URL;
+    this.cseId = cseId;
+    this.baseUrl = GOOGLE_SEARCH_URL;
+    // Google Custom Search API limits to 100 results total
+    this.maxPages = 10;
+    this.pageDelayMs = 100;
   }
 
-  async searchProfiles(
-    jobTitle: string,
-    region?: string,
-    companySector?: string,
-    companyType?: string,
-    additionalTitles?: string[],
-    getAllPages: boolean = true
-  ): Promise<SerpApiResponse> {
-    // Use the provided job title for search
-    const titleQuery = `"${jobTitle}"`;
-
-    // Construct complete search query
-    const queryParts = ["site:linkedin.com/in/", `(${titleQuery})`];
-
-    // Add optional filters
-    if (region) {
-      queryParts.push(`"${region}"`);
-    }
-
-    if (companySector) {
-      queryParts.push(`"${companySector}"`);
-    }
-
-    if (companyType) {
-      queryParts.push(`"${companyType}"`);
-    }
-
-    const query = queryParts.join(" ");
-    console.log(`🔍 SerpAPI Search Query: ${query}`);
-
-    if (getAllPages) {
-      return this.executeSearchAllPages(query);
-    } else {
-      return this.executeSearch(query, 10);
-    }
+  isConfigured(): boolean {
+    return Boolean(this.apiKey && this.cseId);
   }
 
-  async searchCtoProfiles(
-    region?: string,
-    companySector?: string,
-    companyType?: string,
-    additionalTitles?: string[],
-    getAllPages: boolean = true
-  ): Promise<SerpApiResponse> {
-    // Construct Boolean search query for executive titles
-    const executiveTitles = [
-      "CTO",
-      "Chief Technology Officer",
-      "VP Technology",
-      "Head of Technology",
-      "Technology Director",
-      "VP Engineering",
-      "Chief Technical Officer",
-      "Head of Engineering",
-      "Tech Lead",
-      "Engineering Director",
-      "Technology VP",
-      "Chief Technology",
-      "VP of Technology",
-      "VP of Engineering",
-      "Head of Tech",
-    ];
-
-    if (additionalTitles) {
-      executiveTitles.push(...additionalTitles);
-    }
+  protected async fetchPage(
+    query: string,
+    start: number,
+    numResults: number
+  ): Promise<SearchResultItem[]> {
+    const params = new URLSearchParams({
+      key: this.apiKey,
+      cx: this.cseId,
+      q: query,
+      num: numResults.toString(),
+      // Google uses a 1-based start index
+      start: (start + 1).toString(),
+      safe: "active",
+      lr: "lang_en",
+    });
 
-    // Build title search component
-    const titleQuery = executiveTitles
-      .map((title) => `"${title}"`)
-      .join(" OR ");
+    const data = await this.requestJson<GoogleSearchResponse>(
+      `${this.baseUrl}?${params}`,
+      {
+        method: "GET",
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+    return data.items || [];
+  }
+}
 
-    // Construct complete search query
-    const queryParts = ["site:linkedin.com/in/", `(${titleQuery})`];
+class SerpApiSearchProvider extends BaseSearchProvider {
+  readonly name = "serpapi";
+  readonly label = "SerpAPI";
 
-    // Add optional filters
-    if (region) {
-      queryParts.push(`"${region}"`);
-    }
+  private apiKey: string;
+  private baseUrl: string;
 
-    if (companySector) {
-      // Add sector-related keywords
-      const sectorKeywords: Record<string, string[]> = {
-        software: ["software", "SaaS", "tech", "technology"],
-        fintech: ["fintech", "financial technology", "finance", "banking"],
-        healthcare: ["healthcare", "medical", "health tech", "biotech"],
-        "e-commerce": ["e-commerce", "ecommerce", "retail", "online"],
-        "AI/ML": ["AI", "ML", "artificial intelligence", "machine learning"],
-        cybersecurity: ["cybersecurity", "security", "infosec"],
-        blockchain: ["blockchain", "crypto", "web3"],
-        IoT: ["IoT", "Internet of Things", "connected devices"],
-        gaming: ["gaming", "game", "entertainment"],
-      };
-
-      const sectorTerms = sectorKeywords[companySector.toLowerCase()] || [
-        companySector,
-      ];
-      const sectorQuery = sectorTerms.map((term) => `"${term}"`).join(" OR ");
-      queryParts.push(`(${sectorQuery})`);
-    }
+  constructor(apiKey: string, services: ProviderServices = {}) {
+    super(services);
+    this.apiKey = apiKey;
+    this.baseUrl = SERPAPI_URL;
+    this.maxPages = 10;
+    this.pageDelayMs = 1000;
+  }
 
-    if (companyType) {
-      // Add company type indicators
-      const typeKeywords: Record<string, string[]> = {
-        startup: ["startup", "early stage", "seed"],
-        SME: ["SME", "medium business", "scale-up"],
-        enterprise: ["enterprise", "Fortune", "large company"],
-        unicorn: ["unicorn", "billion", "$1B"],
-        public: ["public company", "NYSE", "NASDAQ", "publicly traded"],
-      };
-
-      const typeTerms = typeKeywords[companyType.toLowerCase()] || [
-        companyType,
-      ];
-      const typeQuery = typeTerms.map((term) => `"${term}"`).join(" OR ");
-      queryParts.push(`(${typeQuery})`);
-    }
+  isConfigured(): boolean {
+    return Boolean(this.apiKey);
+  }
 
-    // Exclude common non-executive terms
-    const excludes = [
-      "Intern",
-      "Student",
-      "Former",
-      "Ex-",
-      "Previous",
-      "Consultant",
-    ];
-    excludes.forEach((exclude) => {
-      queryParts.push(`-"${exclude}"`);
+  protected async fetchPage(
+    query: string,
+    start: number,
+    numResults: number
+  ): Promise<SearchResultItem[]> {
+    const params = new URLSearchParams({
+      api_key: this.apiKey,
+      engine: "google",
+      q: query,
+      num: numResults.toString(),
+      start: start.toString(),
     });
 
-    const query = queryParts.join(" ");
+    const data = await this.requestJson<SerpApiResponse>(
+      `${this.baseUrl}?${params}`
+    );
 
-    if (getAllPages) {
-      return await this.executeSearchAllPages(query);
-    } else {
-      return await this.executeSearch(query, 10);
+    // An empty result set is reported as an error, anything else is a failure
+    if (data.error && !SERPAPI_NO_RESULTS.test(data.error)) {
+      throw new ProviderRequestError(this.label, data.error, 200, false);
     }
+    return data.organic_results || [];
   }
+}
 
-  private async executeSearch(
-    query: string,
-    numResults: number
-  ): Promise<SerpApiResponse> {
-    try {
-      const params = new URLSearchParams({
-        api_key: this.apiKey,
-        engine: "google",
-        q: query,
-        num: numResults.toString(),
-      });
+// Providers are looked up by name so routes and the bot don't need to know
+// which backends exist
+class SearchProviderRegistry {
+  private providers: Map<string, SearchProvider> = new Map();
+  private defaultName: string | null = null;
 
-      const response = await fetch(`${this.baseUrl}?${params}`);
-      if (!response.ok) {
-        throw new Error(`SerpAPI request failed: ${response.status}`);
-      }
+  register(provider: SearchProvider, isDefault: boolean = false): this {
+    if (this.providers.has(provider.name)) {
+      throw new Error(`Search provider already registered: ${provider.name}`);
+    }
 
-      return await response.json();
-    } catch (error) {
-      console.error("SerpAPI search failed:", error);
-      return { organic_results: [] };
+    this.providers.set(provider.name, provider);
+    if (isDefault || !this.defaultName) {
+      this.defaultName = provider.name;
     }
+    return this;
   }
 
-  private async executeSearchAllPages(query: string): Promise<SerpApiResponse> {
-    const allResults: SerpApiSearchItem[] = [];
-
-    // SerpAPI supports pagination with start parameter
-    // Fetch up to 100 results (10 pages of 10 results each)
-    for (let page = 0; page < 10; page++) {
-      try {
-        const start = page * 10;
-        const params = new URLSearchParams({
-          api_key: this.apiKey,
-          engine: "google",
-          q: query,
-          num: "10",
-          start: start.toString(),
-        });
-
-        const response = await fetch(`${this.baseUrl}?${params}`);
-        if (!response.ok) {
-          console.error(
-            `SerpAPI request failed for page ${page + 1}: ${response.status}`
-          );
-          break;
-        }
-
-        const data: SerpApiResponse = await response.json();
+  get(name?: string): SearchProvider | undefined {
+    const key = (name || this.defaultName || "").toLowerCase();
+    return this.providers.get(key);
+  }
 
-        if (!data.organic_results || data.organic_results.length === 0) {
-          console.log(`No more results found at page ${page + 1}`);
-          break;
-        }
+  has(name: string): boolean {
+    return this.providers.has(name.toLowerCase());
+  }
 
-        allResults.push(...data.organic_results);
-        console.log(
-          `SerpAPI: Fetched page ${page + 1}, got ${
-            data.organic_results.length
-          } results`
-        );
+  names(): string[] {
+    return [...this.providers.keys()];
+  }
 
-        // Add delay to prevent rate limiting
-        if (page < 9) {
-          await new Promise((resolve) => setTimeout(resolve, 1000));
-        }
-      } catch (error) {
-        console.error(`Error fetching page ${page + 1}:`, error);
-        break;
-      }
-    }
+  list(): SearchProvider[] {
+    return [...this.providers.values()];
+  }
 
-    return { organic_results: allResults };
+  configured(): SearchProvider[] {
+    return this.list().filter((provider) => provider.isConfigured());
   }
 }
 
 class ProfileExtractor {
-  private linkedinUrlPattern: RegExp;
-  private executiveTitles: string[];
-
-  constructor() {
-    this.linkedinUrlPattern = /https?:\/\/(?:www\.)?linkedin\.com\/in\/[\w\-]+/;
-    this.executiveTitles = [
-      "cto",
-      "chief technology officer",
-      "vp technology",
-      "head of technology",
-      "technology director",
-      "vp engineering",
-      "chief technical officer",
-      "head of engineering",
-      "tech lead",
-      "engineering director",
-      "technology vp",
-    ];
+  private parser: ProfileParser;
+  private gazetteer: Gazetteer;
+  private scorer: ConfidenceScorer;
+
+  constructor(gazetteer: Gazetteer, scorer: ConfidenceScorer) {
+    this.parser = new ProfileParser();
+    this.gazetteer = gazetteer;
+    this.scorer = scorer;
   }
 
   extractProfiles(
-    searchResponse: GoogleSearchResponse,
-    searchContext: string = ""
-  ): LinkedInProfile[] {
-    if (!searchResponse.items) {
-      return [];
-    }
-
-    const profiles: LinkedInProfile[] = [];
-    for (const item of searchResponse.items) {
-      const profile = this.parseSearchItem(item, searchContext);
-      if (profile && this.validateProfile(profile)) {
-        profiles.push(profile);
-      }
-    }
-
-    return profiles;
-  }
-
-  extractProfilesFromSerpApi(
-    searchResponse: SerpApiResponse,
-    searchContext: string = ""
+    searchResults: SearchResults,
+    searchContext: string,
+    family: TitleFamily
   ): LinkedInProfile[] {
-    if (!searchResponse.organic_results) {
-      return [];
-    }
-
-    const profiles: LinkedInProfile[] = [];
-    for (const item of searchResponse.organic_results) {
-      // Convert SerpAPI item to GoogleSearchItem format for compatibility
-      const googleItem: GoogleSearchItem = {
-        title: item.title,
-        link: item.link,
-        snippet: item.snippet,
-      };
-      const profile = this.parseSearchItem(googleItem, searchContext);
+    // The same person under different URL variants is kept once, with the
+    // best scoring result
+    const profiles: Map<string, LinkedInProfile> = new Map();
+    for (const item of searchResults.items) {
+      const profile = this.parseSearchItem(
+        item,
+        searchContext,
+        searchResults.source,
+        family
+      );
       if (profile && this.validateProfile(profile)) {
-        profiles.push(profile);
+        const key = profileKey(profile.linkedin_url);
+        const existing = profiles.get(key);
+        if (!existing || profile.confidence_score > existing.confidence_score) {
+          profiles.set(key, profile);
+        }
       }
     }
 
-    return profiles;
+    return [...profiles.values()];
   }
 
   private parseSearchItem(
-    item: GoogleSearchItem,
-    searchContext: string
+    item: SearchResultItem,
+    searchContext: string,
+    source: string,
+    family: TitleFamily
   ): LinkedInProfile | null {
-    const url = item.link || "";
-    if (!this.linkedinUrlPattern.test(url)) {
+    const canonical = canonicalizeLinkedInUrl(item.link || "");
+    if (!canonical) {
       return null;
     }
 
     const title = item.title || "";
     const snippet = item.snippet || "";
 
-    // Extract name from title (usually format: "Name - Title at Company")
-    const nameMatch = title.match(/^([^-|:]+)/);
-    const name = nameMatch ? nameMatch[1].trim() : "";
-
-    // Extract job title and company from snippet or title
-    const [jobTitle, company] = this.extractTitleAndCompany(title, snippet);
+    // Extract name, job title and company from the title, falling back to
+    // the snippet
+    const parsed = this.parser.parse(title, snippet, family.titles);
+    const { name, title: jobTitle, company } = parsed;
 
-    // Extract location
-    const location = this.extractLocation(snippet);
+    // Extract location, leaving out the person's name so "Austin Smith"
+    // isn't placed in Texas
+    const location = this.gazetteer.locate(
+      name ? snippet.split(name).join(" ") : snippet
+    );
 
-    // Calculate confidence score
-    const confidence = this.calculateConfidence(
-      jobTitle,
+    // Score the profile and keep the explanation
+    const { score, breakdown } = this.scorer.score({
+      title: jobTitle,
       company,
+      snippet,
       searchContext,
-      snippet
-    );
+      family,
+      field_confidence: parsed.confidence,
+    });
 
     return {
       name,
       title: jobTitle,
       company,
-      linkedin_url: url,
+      linkedin_url: canonical.url,
       snippet,
-      confidence_score: confidence,
+      confidence_score: score,
       location,
-      sources: ["Google Custom Search"],
+      sources: [source],
+      field_confidence: parsed.confidence,
+      score_breakdown: breakdown,
     };
   }
 
-  private extractTitleAndCompany(
-    title: string,
-    snippet: string
-  ): [string, string] {
-    const text = `${title} ${snippet}`.toLowerCase();
-
-    // Extract job title
-    let jobTitle = "";
-    for (const execTitle of this.executiveTitles) {
-      if (text.includes(execTitle)) {
-        jobTitle = execTitle;
-        break;
-      }
-    }
-
-    // Extract company (simplified approach)
-    const companyPatterns = [
-      /at ([^|,\-\n]+)/,
-      /@ ([^|,\-\n]+)/,
-      /(\w+(?:\s+\w+)*) \-/,
-    ];
-
-    let company = "";
-    for (const pattern of companyPatterns) {
-      const match = text.match(pattern);
-      if (match) {
-        company = this.toTitleCase(match[1].trim());
-        break;
-      }
-    }
-
-    return [this.toTitleCase(jobTitle), company];
-  }
-
-  private extractLocation(snippet: string): string | undefined {
-    // Common location patterns
-    const locationPatterns = [
-      /([A-Z][a-z]+,\s*[A-Z]{2,})/g, // City, State/Country
-      /([A-Z][a-z]+\s+[A-Z][a-z]+,\s*[A-Z]{2,})/g, // City Name, State/Country
-      /(San Francisco|New York|Los Angeles|Seattle|Boston|Austin|Chicago|London|Berlin|Paris|Tokyo|Singapore|Toronto|Vancouver)/gi,
-    ];
-
-    for (const pattern of locationPatterns) {
-      const matches = snippet.match(pattern);
-      if (matches && matches.length > 0) {
-        return matches[0];
-      }
-    }
-
-    return undefined;
-  }
-
-  private calculateConfidence(
-    jobTitle: string,
-    company: string,
-    searchContext: string,
-    snippet: string
-  ): number {
-    let score = 0;
-
-    // Base score for having a job title
-    if (jobTitle) score += 30;
-
-    // Higher score for exact CTO matches
-    if (jobTitle.toLowerCase().includes("cto") || 
-        jobTitle.toLowerCase().includes("chief technology officer")) {
-      score += 40;
-    }
-
-    // Score for having company information
-    if (company) score += 20;
-
-    // Score for context relevance
-    if (searchContext) {
-      const contextWords = searchContext.toLowerCase().split(" ");
-      const snippetLower = snippet.toLowerCase();
-      
-      for (const word of contextWords) {
-        if (word.length > 3 && snippetLower.includes(word)) {
-          score += 2;
-        }
-      }
-    }
-
-    // Penalty for common false positives
-    const falsePositives = ["student", "intern", "former", "ex-", "previous"];
-    for (const fp of falsePositives) {
-      if (snippet.toLowerCase().includes(fp)) {
-        score -= 20;
-      }
-    }
-
-    return Math.max(0, Math.min(100, score));
-  }
-
   private validateProfile(profile: LinkedInProfile): boolean {
     return profile.name.length > 0 && 
            profile.linkedin_url.length > 0 && 
-           profile.confidence_score > 10;
-  }
-
-  private toTitleCase(str: string): string {
-    return str.replace(/\w\S*/g, (txt) => 
-      txt.charAt(0).toUpperCase() + txt.substr(1).toLowerCase()
-    );
+           this.scorer.passes(profile.confidence_score);
   }
 }
 
 export {
-  LinkedInProfileSearchService,
-  SerpApiSearchService,
+  BaseSearchProvider,
+  GoogleSearchProvider,
+  SerpApiSearchProvider,
+  SearchProviderRegistry,
   ProfileExtractor,
+  SearchProvider,
+  ProfileSearchCriteria,
+  SearchPage,
+  PageListener,
+  SearchOptions,
+  ProviderServices,
+  SearchResults,
+  SearchResultItem,
+  LinkedInProfile,
   GoogleSearchResponse,
   SerpApiResponse,
-  LinkedInProfile,
   GoogleSearchItem,
   SerpApiSearchItem
 };
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import { SqliteSearchStore } from "./search-store.js";
+
+const store = new SqliteSearchStore(":memory:");
+
+for (const timestamp of [
+  "2025-09-07T23:30:00.000Z",
+  "2025-09-08T10:15:00.000Z",
+  "2025-09-09T00:30:00.000Z",
+]) {
+  await store.saveSearch(
+    {
+      query: `search at ${timestamp}`,
+      providers: ["google"],
+      company: null,
+      results_count: 0,
+      search_time: 1,
+      timestamp,
+    },
+    []
+  );
+}
+
+async function searchedAt(filter: { from?: string; to?: string }): Promise<string[]> {
+  const { searches } = await store.listSearches({ limit: 10, ...filter });
+  return searches.map((search) => search.timestamp).reverse();
+}
+
+describe("SqliteSearchStore.listSearches", () => {
+  test("treats a date alone as the whole UTC day", async () => {
+    expect(await searchedAt({ from: "2025-09-08", to: "2025-09-08" })).toEqual([
+      "2025-09-08T10:15:00.000Z",
+    ]);
+  });
+
+  test("converts offsets and space separators to UTC", async () => {
+    expect(await searchedAt({ from: "2025-09-08 12:00+02:00" })).toEqual([
+      "2025-09-08T10:15:00.000Z",
+      "2025-09-09T00:30:00.000Z",
+    ]);
+    expect(await searchedAt({ to: "2025-09-08T02:00:00+0200" })).toEqual([
+      "2025-09-07T23:30:00.000Z",
+    ]);
+  });
+
+  test("reads timestamps without an offset as UTC", async () => {
+    expect(await searchedAt({ from: "2025-09-08T10:15", to: "2025-09-08T10:15" })).toEqual([
+      "2025-09-08T10:15:00.000Z",
+    ]);
+  });
+
+  test("rejects dates that don't exist", async () => {
+    await expect(store.listSearches({ limit: 10, to: "2025-02-30" })).rejects.toThrow(
+      "Invalid history filter"
+    );
+  });
+});
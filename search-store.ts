@@ -0,0 +1,558 @@
+import { Database } from "bun:sqlite";
+import fs from "fs";
+import path from "path";
+import { LinkedInProfile } from "./search-services.js";
+import { ProfileLocation } from "./gazetteer.js";
+import { canonicalizeLinkedInUrl } from "./linkedin-url.js";
+import { ValidationError } from "./api-errors.js";
+
+// Types and Interfaces
+interface SearchRecord {
+  id: number;
+  query: string;
+  providers: string[];
+  company: string | null;
+  region?: string;
+  company_sector?: string;
+  company_type?: string;
+  company_size?: string;
+  results_count: number;
+  search_time: number;
+  timestamp: string;
+}
+
+type NewSearchRecord = Omit<SearchRecord, "id">;
+
+interface StoredProfile extends LinkedInProfile {
+  found_by?: string[];
+}
+
+interface SearchHistoryFilter {
+  limit: number;
+  // Opaque cursor returned as `next_cursor` by the previous page
+  cursor?: string;
+  // ISO timestamps, inclusive
+  from?: string;
+  to?: string;
+  region?: string;
+  sector?: string;
+  provider?: string;
+}
+
+interface SearchHistoryPage {
+  searches: SearchRecord[];
+  next_cursor: string | null;
+}
+
+// A stored profile with the search run that returned it
+interface ProfileSighting extends StoredProfile {
+  // Row id of the stored profile, increasing in the order results were saved
+  profile_id: number;
+  search_id: number;
+  seen_at: string;
+}
+
+// A person returned by an earlier search, keyed by canonical profile key
+interface SeenProfile {
+  profile_key: string;
+  linkedin_url: string;
+  name: string;
+  first_seen_at: string;
+  last_seen_at: string;
+  first_search_id: number | null;
+  times_seen: number;
+}
+
+// Repository for search runs and the profiles they returned. Routes and the
+// bot only talk to this interface so the backing database can be swapped.
+interface SearchStore {
+  saveSearch(
+    search: NewSearchRecord,
+    profiles: StoredProfile[]
+  ): Promise<SearchRecord>;
+  getSearch(id: number): Promise<SearchRecord | null>;
+  getSearchProfiles(id: number): Promise<StoredProfile[]>;
+  // The same profiles read in pages, for exports of large searches
+  iterateSearchProfiles(id: number): AsyncIterable<StoredProfile>;
+  listSearches(filter: SearchHistoryFilter): Promise<SearchHistoryPage>;
+  // Which of these profile keys earlier searches returned
+  seenProfiles(keys: string[]): Promise<Map<string, SeenProfile>>;
+  // Stored profiles with a company saved after the given profile id, oldest
+  // first, one page at a time
+  listCompanyProfiles(afterProfileId: number, limit: number): Promise<ProfileSighting[]>;
+  close(): void;
+}
+
+interface SearchRow {
+  id: number;
+  query: string;
+  providers: string;
+  company: string | null;
+  region: string | null;
+  company_sector: string | null;
+  company_type: string | null;
+  company_size: string | null;
+  results_count: number;
+  search_time: number;
+  created_at: string;
+}
+
+interface ProfileRow {
+  position: number;
+  name: string;
+  title: string;
+  company: string;
+  linkedin_url: string;
+  snippet: string;
+  confidence_score: number;
+  location: string | null;
+  sources: string;
+  found_by: string | null;
+  company_size: string | null;
+  field_confidence: string | null;
+  score_breakdown: string | null;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS searches (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    query TEXT NOT NULL,
+    providers TEXT NOT NULL,
+    company TEXT,
+    region TEXT,
+    company_sector TEXT,
+    company_type TEXT,
+    company_size TEXT,
+    results_count INTEGER NOT NULL,
+    search_time REAL NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_searches_created_at ON searches (created_at);
+
+  CREATE TABLE IF NOT EXISTS search_profiles (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    search_id INTEGER NOT NULL REFERENCES searches (id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    title TEXT NOT NULL,
+    company TEXT NOT NULL,
+    linkedin_url TEXT NOT NULL,
+    snippet TEXT NOT NULL,
+    confidence_score REAL NOT NULL,
+    location TEXT,
+    sources TEXT NOT NULL,
+    found_by TEXT,
+    company_size TEXT,
+    field_confidence TEXT,
+    score_breakdown TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_search_profiles_search_id ON search_profiles (search_id);
+  CREATE INDEX IF NOT EXISTS idx_search_profiles_linkedin_url ON search_profiles (linkedin_url);
+
+  CREATE TABLE IF NOT EXISTS seen_profiles (
+    profile_key TEXT PRIMARY KEY,
+    linkedin_url TEXT NOT NULL,
+    name TEXT NOT NULL,
+    first_seen_at TEXT NOT NULL,
+    last_seen_at TEXT NOT NULL,
+    first_search_id INTEGER,
+    times_seen INTEGER NOT NULL DEFAULT 1
+  );
+`;
+
+// Keys per seenProfiles query, well under SQLite's parameter limit
+const SEEN_LOOKUP_BATCH = 500;
+
+// Profiles per query when iterating over a search's profiles
+const PROFILE_PAGE_SIZE = 500;
+
+const SEEN_UPSERT = `
+  INSERT INTO seen_profiles (profile_key, linkedin_url, name, first_seen_at,
+    last_seen_at, first_search_id)
+  VALUES (?, ?, ?, ?, ?, ?)
+  ON CONFLICT (profile_key) DO UPDATE SET
+    linkedin_url = excluded.linkedin_url,
+    name = excluded.name,
+    last_seen_at = excluded.last_seen_at,
+    times_seen = times_seen + 1
+`;
+
+// Columns added to search_profiles after the first release, added to
+// existing databases on startup
+const PROFILE_COLUMN_MIGRATIONS: [string, string][] = [
+  ["company_size", "TEXT"],
+  ["field_confidence", "TEXT"],
+  ["score_breakdown", "TEXT"],
+];
+
+class SqliteSearchStore implements SearchStore {
+  private db: Database;
+
+  constructor(filename: string) {
+    if (filename !== ":memory:") {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL;");
+    this.db.exec("PRAGMA foreign_keys = ON;");
+    this.db.exec(SCHEMA);
+    this.migrateProfileColumns();
+    this.backfillSeenProfiles();
+  }
+
+  async saveSearch(
+    search: NewSearchRecord,
+    profiles: StoredProfile[]
+  ): Promise<SearchRecord> {
+    const insertSearch = this.db.prepare(
+      `INSERT INTO searches (query, providers, company, region, company_sector,
+         company_type, company_size, results_count, search_time, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    const insertProfile = this.db.prepare(
+      `INSERT INTO search_profiles (search_id, position, name, title, company,
+         linkedin_url, snippet, confidence_score, location, sources, found_by,
+         company_size, field_confidence, score_breakdown)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    const markSeen = this.db.prepare(SEEN_UPSERT);
+
+    // Store the search and its profiles atomically
+    const save = this.db.transaction(() => {
+      const result = insertSearch.run(
+        search.query,
+        JSON.stringify(search.providers),
+        search.company,
+        search.region ?? null,
+        search.company_sector ?? null,
+        search.company_type ?? null,
+        search.company_size ?? null,
+        search.results_count,
+        search.search_time,
+        search.timestamp
+      );
+      const searchId = Number(result.lastInsertRowid);
+
+      profiles.forEach((profile, position) => {
+        insertProfile.run(
+          searchId,
+          position,
+          profile.name,
+          profile.title,
+          profile.company,
+          profile.linkedin_url,
+          profile.snippet,
+          profile.confidence_score,
+          profile.location ? JSON.stringify(profile.location) : null,
+          JSON.stringify(profile.sources),
+          profile.found_by ? JSON.stringify(profile.found_by) : null,
+          profile.company_size ? JSON.stringify(profile.company_size) : null,
+          profile.field_confidence
+            ? JSON.stringify(profile.field_confidence)
+            : null,
+          profile.score_breakdown
+            ? JSON.stringify(profile.score_breakdown)
+            : null
+        );
+
+        const canonical = canonicalizeLinkedInUrl(profile.linkedin_url);
+        if (canonical) {
+          markSeen.run(
+            canonical.key,
+            canonical.url,
+            profile.name,
+            search.timestamp,
+            search.timestamp,
+            searchId
+          );
+        }
+      });
+
+      return searchId;
+    });
+
+    return { id: save(), ...search };
+  }
+
+  async getSearch(id: number): Promise<SearchRecord | null> {
+    const row = this.db
+      .query<SearchRow, [number]>("SELECT * FROM searches WHERE id = ?")
+      .get(id);
+    return row ? this.toSearchRecord(row) : null;
+  }
+
+  async getSearchProfiles(id: number): Promise<StoredProfile[]> {
+    const rows = this.db
+      .query<ProfileRow, [number]>(
+        "SELECT * FROM search_profiles WHERE search_id = ? ORDER BY position"
+      )
+      .all(id);
+    return rows.map((row) => this.toStoredProfile(row));
+  }
+
+  async *iterateSearchProfiles(id: number): AsyncIterable<StoredProfile> {
+    const query = this.db.query<ProfileRow, [number, number, number]>(
+      `SELECT * FROM search_profiles WHERE search_id = ? AND position > ?
+       ORDER BY position LIMIT ?`
+    );
+
+    let after = -1;
+    while (true) {
+      const rows = query.all(id, after, PROFILE_PAGE_SIZE);
+      for (const row of rows) {
+        yield this.toStoredProfile(row);
+      }
+      if (rows.length < PROFILE_PAGE_SIZE) {
+        return;
+      }
+      after = rows[rows.length - 1].position;
+    }
+  }
+
+  async listSearches(filter: SearchHistoryFilter): Promise<SearchHistoryPage> {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (filter.cursor) {
+      conditions.push("id < ?");
+      params.push(this.decodeCursor(filter.cursor));
+    }
+    if (filter.from) {
+      conditions.push("created_at >= ?");
+      params.push(this.timestampBound(filter.from, "from"));
+    }
+    if (filter.to) {
+      conditions.push("created_at <= ?");
+      params.push(this.timestampBound(filter.to, "to"));
+    }
+    if (filter.region) {
+      conditions.push("region = ? COLLATE NOCASE");
+      params.push(filter.region);
+    }
+    if (filter.sector) {
+      conditions.push("company_sector = ? COLLATE NOCASE");
+      params.push(filter.sector);
+    }
+    if (filter.provider) {
+      conditions.push(
+        "EXISTS (SELECT 1 FROM json_each(searches.providers) WHERE value = ?)"
+      );
+      params.push(filter.provider);
+    }
+
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    // Fetch one extra row to know whether there is a next page
+    const rows = this.db
+      .query<SearchRow, (string | number)[]>(
+        `SELECT * FROM searches ${where} ORDER BY id DESC LIMIT ?`
+      )
+      .all(...params, filter.limit + 1);
+
+    const hasMore = rows.length > filter.limit;
+    const searches = rows
+      .slice(0, filter.limit)
+      .map((row) => this.toSearchRecord(row));
+
+    return {
+      searches,
+      next_cursor: hasMore
+        ? this.encodeCursor(searches[searches.length - 1].id)
+        : null,
+    };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private encodeCursor(id: number): string {
+    return Buffer.from(`search:${id}`).toString("base64url");
+  }
+
+  // created_at is stored as toISOString(), so bounds are compared in the same
+  // form. A date alone covers that whole UTC day, and times without an
+  // offset are UTC.
+  private timestampBound(value: string, field: "from" | "to"): string {
+    const date = value.slice(0, 10);
+    let timestamp = value.replace(" ", "T");
+    if (timestamp.length === 10) {
+      timestamp += field === "from" ? "T00:00:00.000Z" : "T23:59:59.999Z";
+    } else if (!/(?:Z|[+-]\d{2}:?\d{2})$/.test(timestamp)) {
+      timestamp += "Z";
+    }
+
+    const parsed = new Date(timestamp);
+    // Dates such as 2025-02-30 would otherwise roll over into March
+    const validDate =
+      !Number.isNaN(new Date(`${date}T00:00:00Z`).getTime()) &&
+      new Date(`${date}T00:00:00Z`).toISOString().startsWith(date);
+    if (Number.isNaN(parsed.getTime()) || !validDate) {
+      throw new ValidationError("Invalid history filter", [
+        { path: field, message: "is not a valid date-time" },
+      ]);
+    }
+    return parsed.toISOString();
+  }
+
+  private decodeCursor(cursor: string): number {
+    const decoded = Buffer.from(cursor, "base64url").toString();
+    const id = parseInt(decoded.replace(/^search:/, ""));
+    if (!decoded.startsWith("search:") || Number.isNaN(id)) {
+      throw new ValidationError("Invalid history cursor", [
+        { path: "cursor", message: "is not a cursor returned by this API" },
+      ]);
+    }
+    return id;
+  }
+
+  private toSearchRecord(row: SearchRow): SearchRecord {
+    return {
+      id: row.id,
+      query: row.query,
+      providers: JSON.parse(row.providers),
+      company: row.company,
+      region: row.region ?? undefined,
+      company_sector: row.company_sector ?? undefined,
+      company_type: row.company_type ?? undefined,
+      company_size: row.company_size ?? undefined,
+      results_count: row.results_count,
+      search_time: row.search_time,
+      timestamp: row.created_at,
+    };
+  }
+
+  private toStoredProfile(row: ProfileRow): StoredProfile {
+    return {
+      name: row.name,
+      title: row.title,
+      company: row.company,
+      linkedin_url: row.linkedin_url,
+      snippet: row.snippet,
+      confidence_score: row.confidence_score,
+      location: this.parseLocation(row.location),
+      sources: JSON.parse(row.sources),
+      found_by: row.found_by ? JSON.parse(row.found_by) : undefined,
+      company_size: row.company_size ? JSON.parse(row.company_size) : undefined,
+      field_confidence: row.field_confidence
+        ? JSON.parse(row.field_confidence)
+        : undefined,
+      score_breakdown: row.score_breakdown
+        ? JSON.parse(row.score_breakdown)
+        : undefined,
+    };
+  }
+
+  async seenProfiles(keys: string[]): Promise<Map<string, SeenProfile>> {
+    const seen: Map<string, SeenProfile> = new Map();
+    const unique = [...new Set(keys)];
+
+    for (let start = 0; start < unique.length; start += SEEN_LOOKUP_BATCH) {
+      const batch = unique.slice(start, start + SEEN_LOOKUP_BATCH);
+      const rows = this.db
+        .query<SeenProfile, string[]>(
+          `SELECT * FROM seen_profiles WHERE profile_key IN (${batch.map(() => "?").join(", ")})`
+        )
+        .all(...batch);
+      rows.forEach((row) => seen.set(row.profile_key, row));
+    }
+
+    return seen;
+  }
+
+  async listCompanyProfiles(
+    afterProfileId: number,
+    limit: number
+  ): Promise<ProfileSighting[]> {
+    const rows = this.db
+      .query<ProfileRow & { id: number; search_id: number; seen_at: string }, [number, number]>(
+        `SELECT p.*, s.created_at AS seen_at
+         FROM search_profiles p JOIN searches s ON s.id = p.search_id
+         WHERE p.id > ? AND p.company != ''
+         ORDER BY p.id
+         LIMIT ?`
+      )
+      .all(afterProfileId, limit);
+
+    return rows.map((row) => ({
+      ...this.toStoredProfile(row),
+      profile_id: row.id,
+      search_id: row.search_id,
+      seen_at: row.seen_at,
+    }));
+  }
+
+  // Locations are stored as JSON. Rows saved before that hold the free text
+  // the old extractor matched, which often wasn't a place, so it's dropped.
+  private parseLocation(value: string | null): ProfileLocation | undefined {
+    return value && value.startsWith("{") ? JSON.parse(value) : undefined;
+  }
+
+  // Databases from before the seen index get it filled from the profiles
+  // they already stored, so only_new works on existing history
+  private backfillSeenProfiles() {
+    const { count } = this.db
+      .query<{ count: number }, []>("SELECT COUNT(*) AS count FROM seen_profiles")
+      .get()!;
+    if (count > 0) {
+      return;
+    }
+
+    const rows = this.db
+      .query<{ linkedin_url: string; name: string; search_id: number; created_at: string }, []>(
+        `SELECT p.linkedin_url, p.name, p.search_id, s.created_at
+         FROM search_profiles p JOIN searches s ON s.id = p.search_id
+         ORDER BY p.search_id, p.position`
+      )
+      .all();
+    if (rows.length === 0) {
+      return;
+    }
+
+    const markSeen = this.db.prepare(SEEN_UPSERT);
+    this.db.transaction(() => {
+      for (const row of rows) {
+        const canonical = canonicalizeLinkedInUrl(row.linkedin_url);
+        if (canonical) {
+          markSeen.run(
+            canonical.key,
+            canonical.url,
+            row.name,
+            row.created_at,
+            row.created_at,
+            row.search_id
+          );
+        }
+      }
+    })();
+    console.log(`👀 Indexed profiles from ${rows.length} stored search results`);
+  }
+
+  private migrateProfileColumns() {
+    const existing = this.db
+      .query<{ name: string }, []>("PRAGMA table_info(search_profiles)")
+      .all()
+      .map((column) => column.name);
+
+    for (const [column, type] of PROFILE_COLUMN_MIGRATIONS) {
+      if (!existing.includes(column)) {
+        this.db.exec(`ALTER TABLE search_profiles ADD COLUMN ${column} ${type}`);
+      }
+    }
+  }
+}
+
+export {
+  SqliteSearchStore,
+  SearchStore,
+  SearchRecord,
+  NewSearchRecord,
+  StoredProfile,
+  SearchHistoryFilter,
+  SearchHistoryPage,
+  SeenProfile,
+  ProfileSighting
+};
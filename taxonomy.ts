@@ -0,0 +1,196 @@
+import fs from "fs";
+import { ConfigFileError, parseJsonFile, v } from "./validation.js";
+
+// Types and Interfaces
+interface TaxonomyEntry {
+  name: string;
+  label: string;
+  emoji?: string;
+  // Terms OR-ed together in the search query
+  keywords: string[];
+  // Other names users may type for this entry; they select it but aren't searched
+  synonyms: string[];
+  // Extra search terms per language code, used when a search asks for them
+  translations: Record<string, string[]>;
+  // Headcount range of a company size bucket; no maximum for the largest one
+  min_employees?: number;
+  max_employees?: number;
+}
+
+type TaxonomyKind = "sectors" | "company_types" | "company_sizes";
+
+// An entry of the taxonomy file, keyed by its name
+interface TaxonomyFileEntry {
+  label?: string;
+  emoji?: string;
+  keywords: string[];
+  synonyms?: string[];
+  translations?: Record<string, string[]>;
+  min_employees?: number;
+  max_employees?: number;
+}
+
+type TaxonomyFile = Record<TaxonomyKind, Record<string, TaxonomyFileEntry>>;
+
+interface TaxonomyData {
+  sectors: TaxonomyEntry[];
+  company_types: TaxonomyEntry[];
+  company_sizes: TaxonomyEntry[];
+  languages: string[];
+  loaded_at: string;
+}
+
+const termList = () => v.array(v.string().min(1));
+
+const TAXONOMY_ENTRY = v.record(
+  v.object<TaxonomyFileEntry>({
+    label: v.string().optional(),
+    emoji: v.string().optional(),
+    keywords: termList().min(1),
+    synonyms: termList().optional(),
+    translations: v.record(termList()).optional(),
+    min_employees: v.integer().min(0).optional(),
+    max_employees: v.integer().min(0).optional(),
+  })
+);
+
+const TAXONOMY_FILE = v.object<TaxonomyFile>({
+  sectors: TAXONOMY_ENTRY,
+  company_types: TAXONOMY_ENTRY,
+  company_sizes: TAXONOMY_ENTRY,
+});
+
+// Sector, company type and company size keywords loaded from a JSON file.
+// The file is watched and reloaded when it changes, so operators can add a
+// sector without a code change or a restart.
+class Taxonomy {
+  private filePath: string;
+  private entries: Record<TaxonomyKind, Map<string, TaxonomyEntry>> = {
+    sectors: new Map(),
+    company_types: new Map(),
+    company_sizes: new Map(),
+  };
+  private loadedAt = new Date().toISOString();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.entries = this.load();
+  }
+
+  // Reload the file whenever it changes. A broken file is logged and the
+  // previous taxonomy kept.
+  watch(intervalMs: number = 2000) {
+    fs.watchFile(this.filePath, { interval: intervalMs }, (current, previous) => {
+      if (current.mtimeMs === previous.mtimeMs) {
+        return;
+      }
+
+      try {
+        this.entries = this.load();
+        this.loadedAt = new Date().toISOString();
+        console.log(`🔄 Reloaded taxonomy from ${this.filePath}`);
+      } catch (error) {
+        console.error("❌ Failed to reload taxonomy, keeping the previous one", {
+          file: this.filePath,
+          message: (error as Error).message,
+          issues: error instanceof ConfigFileError ? error.issues : [],
+        });
+      }
+    }).unref();
+  }
+
+  sectors(): TaxonomyEntry[] {
+    return [...this.entries.sectors.values()];
+  }
+
+  companyTypes(): TaxonomyEntry[] {
+    return [...this.entries.company_types.values()];
+  }
+
+  companySizes(): TaxonomyEntry[] {
+    return [...this.entries.company_sizes.values()];
+  }
+
+  // Find an entry by name, label, synonym or translated term
+  resolve(kind: TaxonomyKind, input: string): TaxonomyEntry | undefined {
+    const needle = normalize(input);
+    const entries = this.entries[kind];
+
+    const byName = entries.get(needle);
+    if (byName) {
+      return byName;
+    }
+
+    return [...entries.values()].find((entry) =>
+      [
+        entry.label,
+        ...entry.synonyms,
+        ...entry.keywords,
+        ...Object.values(entry.translations).flat(),
+      ].some((term) => normalize(term) === needle)
+    );
+  }
+
+  // Search terms for an entry. Unknown values are searched as they were given.
+  terms(kind: TaxonomyKind, input: string, languages: string[] = []): string[] {
+    const entry = this.resolve(kind, input);
+    if (!entry) {
+      return [input];
+    }
+
+    const translated = languages.flatMap(
+      (language) => entry.translations[language.toLowerCase()] || []
+    );
+    return [...new Set([...entry.keywords, ...translated])];
+  }
+
+  toJSON(): TaxonomyData {
+    const languages = new Set<string>();
+    for (const entry of [...this.sectors(), ...this.companyTypes()]) {
+      Object.keys(entry.translations).forEach((language) => languages.add(language));
+    }
+
+    return {
+      sectors: this.sectors(),
+      company_types: this.companyTypes(),
+      company_sizes: this.companySizes(),
+      languages: [...languages].sort(),
+      loaded_at: this.loadedAt,
+    };
+  }
+
+  private load(): Record<TaxonomyKind, Map<string, TaxonomyEntry>> {
+    const file = parseJsonFile(this.filePath, TAXONOMY_FILE);
+
+    return {
+      sectors: this.toEntries(file.sectors),
+      company_types: this.toEntries(file.company_types),
+      company_sizes: this.toEntries(file.company_sizes),
+    };
+  }
+
+  private toEntries(raw: Record<string, TaxonomyFileEntry>): Map<string, TaxonomyEntry> {
+    const entries: Map<string, TaxonomyEntry> = new Map();
+
+    for (const [name, entry] of Object.entries(raw)) {
+      entries.set(normalize(name), {
+        name: normalize(name),
+        label: entry.label || name,
+        emoji: entry.emoji,
+        keywords: entry.keywords,
+        synonyms: entry.synonyms || [],
+        translations: entry.translations || {},
+        min_employees: entry.min_employees,
+        max_employees: entry.max_employees,
+      });
+    }
+
+    return entries;
+  }
+}
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+export { Taxonomy, TaxonomyEntry, TaxonomyKind, TaxonomyData };
@@ -1,25 +1,54 @@
 import TelegramBot, { Message, CallbackQuery } from 'node-telegram-bot-api';
-import { createObjectCsvWriter } from 'csv-writer';
-import fs from 'fs';
-import path from 'path';
 
 // Import the search services from the main file
-import { LinkedInProfileSearchService, SerpApiSearchService, ProfileExtractor } from './search-services.js';
+import { SearchProviderRegistry } from './search-services.js';
+import { SearchPipeline } from './search-pipeline.js';
+import { MergedProfile } from './profile-merger.js';
+import { TitleCatalog } from './title-catalog.js';
+import { Taxonomy, TaxonomyEntry } from './taxonomy.js';
+import { QuotaExceededError } from './quota-tracker.js';
+import { Gazetteer } from './gazetteer.js';
+import { COMPANY_SEARCH_RESULTS } from './company-search.js';
+import { ValidationError, ProviderUnavailableError } from './api-errors.js';
+import { SearchBatchRunner, SearchBatch, BatchRow, FINISHED_BATCH, batchRowsFromCsv, batchResults } from './search-batches.js';
+import { exportProfiles, withExportFile, removeStaleExports } from './export.js';
 
 interface UserSession {
   chatId: number;
-  step: 'start' | 'job_title' | 'region' | 'sector' | 'company_type' | 'company_size' | 'search_method' | 'searching' | 'results';
+  step: 'start' | 'job_title' | 'region' | 'sector' | 'company_type' | 'company_size' | 'search_method' | 'searching' | 'results' | 'batch_upload';
   searchParams: {
     job_title?: string;
     region?: string;
     company_sector?: string;
     company_type?: string;
     company_size?: string;
-    search_method?: 'google' | 'serpapi';
+    search_method?: string;
+    company?: string;
   };
-  results?: any[];
+  results?: MergedProfile[];
 }
 
+// A company search result, with the company it was found for
+type CompanyProfile = MergedProfile & { search_company: string };
+
+// Companies per /company command
+const MAX_BOT_COMPANIES = 10;
+
+// Largest batch CSV the bot downloads, and rows listed in a status message
+const MAX_BATCH_FILE_BYTES = 1024 * 1024;
+const MAX_STATUS_ROWS = 30;
+
+// How long downloading an uploaded batch CSV from Telegram may take
+const BATCH_DOWNLOAD_TIMEOUT_MS = 15000;
+
+const ROW_STATUS_EMOJI: Record<BatchRow['status'], string> = {
+  queued: '⏳',
+  running: '🔄',
+  completed: '✅',
+  failed: '❌',
+  skipped: '⏭️'
+};
+
 interface BotResponse {
   question: string;
   options?: string[];
@@ -29,21 +58,35 @@ interface BotResponse {
 class TelegramExecutiveBot {
   private bot: TelegramBot;
   private userSessions: Map<number, UserSession> = new Map();
-  private searchService: LinkedInProfileSearchService;
-  private serpApiService: SerpApiSearchService;
-  private profileExtractor: ProfileExtractor;
+  private searchProviders: SearchProviderRegistry;
+  private searchPipeline: SearchPipeline;
+  private titleCatalog: TitleCatalog;
+  private taxonomy: Taxonomy;
+  private gazetteer: Gazetteer;
+  private batchRunner: SearchBatchRunner;
 
   constructor(
     token: string, 
-    searchService: LinkedInProfileSearchService, 
-    serpApiService: SerpApiSearchService, 
-    profileExtractor: ProfileExtractor
+    searchProviders: SearchProviderRegistry, 
+    searchPipeline: SearchPipeline,
+    titleCatalog: TitleCatalog,
+    taxonomy: Taxonomy,
+    gazetteer: Gazetteer,
+    batchRunner: SearchBatchRunner
   ) {
     this.bot = new TelegramBot(token, { polling: true });
-    this.searchService = searchService;
-    this.serpApiService = serpApiService;
-    this.profileExtractor = profileExtractor;
-    
+    this.searchProviders = searchProviders;
+    this.searchPipeline = searchPipeline;
+    this.titleCatalog = titleCatalog;
+    this.taxonomy = taxonomy;
+    this.gazetteer = gazetteer;
+    this.batchRunner = batchRunner;
+    
+    removeStaleExports().then(count => {
+      if (count > 0) {
+        console.log(`🧹 Removed ${count} leftover export files`);
+      }
+    });
     this.setupHandlers();
   }
 
@@ -63,6 +106,24 @@ class TelegramExecutiveBot {
       this.handleReset(msg.chat.id);
     });
 
+    // Company search: /company Acme acme.com; Globex
+    this.bot.onText(/^\/company(?:@\w+)?(?:\s+([\s\S]+))?/, (msg: Message, match: RegExpExecArray | null) => {
+      this.handleCompanySearch(msg.chat.id, match?.[1]);
+    });
+
+    // Bulk search: /batch asks for a CSV upload, /batch <id> shows a batch's status
+    this.bot.onText(/^\/batch(?:@\w+)?(?:\s+(\S+))?\s*$/, (msg: Message, match: RegExpExecArray | null) => {
+      this.handleBatch(msg.chat.id, match?.[1]);
+    });
+
+    // CSV uploads for /batch, either after the command or captioned /batch
+    this.bot.on('document', (msg: Message) => {
+      const session = this.userSessions.get(msg.chat.id);
+      if (msg.caption?.startsWith('/batch') || session?.step === 'batch_upload') {
+        this.handleBatchUpload(msg);
+      }
+    });
+
     // Handle callback queries (inline keyboard buttons)
     this.bot.on('callback_query', (callbackQuery: CallbackQuery) => {
       this.handleCallbackQuery(callbackQuery);
@@ -112,6 +173,8 @@ Just type the job title you want to search for:`;
 /start - Start a new search
 /help - Show this help message
 /reset - Reset current search session
+/company <name> [domain] - Find the CTO of a company, separate several companies with ";"
+/batch - Run one search per row of an uploaded CSV, /batch <id> shows a batch's progress
 
 🔍 How it works:
 1. Enter the job title you want to search for
@@ -127,6 +190,7 @@ Just type the job title you want to search for:`;
 - Software Engineer, Product Manager
 - Data Scientist, Tech Lead
 - Any other professional title
+- Title families (searches every related title): ${this.titleCatalog.names().join(', ')}
 
 💡 Tips:
 - You can skip any step if not relevant
@@ -170,33 +234,35 @@ Just type the job title you want to search for:`;
     const region = data.replace('region_', '');
     
     if (region !== 'skip') {
-      session.searchParams.region = region.replace('_', ' ');
+      session.searchParams.region = region.replace(/_/g, ' ');
     }
     
     session.step = 'sector';
     
-    const message = `✅ Region selected: ${session.searchParams.region || 'Not specified'}
+    const regionLabel = session.searchParams.region
+      ? this.gazetteer.resolveRegion(session.searchParams.region)?.label || session.searchParams.region
+      : 'Not specified';
+    const message = `✅ Region selected: ${regionLabel}
 
 🏢 Now, select the company sector:`;
     
     const keyboard = {
-      inline_keyboard: [
-        [{ text: '💻 Software/SaaS', callback_data: 'sector_software' }],
-        [{ text: '💰 Fintech', callback_data: 'sector_fintech' }],
-        [{ text: '🏥 Healthcare', callback_data: 'sector_healthcare' }],
-        [{ text: '🛒 E-commerce', callback_data: 'sector_e-commerce' }],
-        [{ text: '🤖 AI/ML', callback_data: 'sector_AI/ML' }],
-        [{ text: '🔒 Cybersecurity', callback_data: 'sector_cybersecurity' }],
-        [{ text: '⛓️ Blockchain', callback_data: 'sector_blockchain' }],
-        [{ text: '🌐 IoT', callback_data: 'sector_IoT' }],
-        [{ text: '🎮 Gaming', callback_data: 'sector_gaming' }],
-        [{ text: '⏭️ Skip Sector', callback_data: 'sector_skip' }]
-      ]
+      inline_keyboard: this.taxonomyKeyboard(this.taxonomy.sectors(), 'sector_', '⏭️ Skip Sector')
     };
     
     await this.bot.sendMessage(chatId, message, { reply_markup: keyboard });
   }
 
+  // One button per taxonomy entry, generated from the same file as GET /api/taxonomy
+  private taxonomyKeyboard(entries: TaxonomyEntry[], prefix: string, skipText: string) {
+    return [
+      ...entries.map(entry => [
+        { text: `${entry.emoji ? `${entry.emoji} ` : ''}${entry.label}`, callback_data: `${prefix}${entry.name}` }
+      ]),
+      [{ text: skipText, callback_data: `${prefix}skip` }]
+    ];
+  }
+
   private async handleSectorSelection(chatId: number, data: string, session: UserSession) {
     const sector = data.replace('sector_', '');
     
@@ -206,19 +272,13 @@ Just type the job title you want to search for:`;
     
     session.step = 'company_type';
     
-    const message = `✅ Sector selected: ${session.searchParams.company_sector || 'Not specified'}
+    const sectorLabel = session.searchParams.company_sector && this.taxonomy.resolve('sectors', session.searchParams.company_sector)?.label;
+    const message = `✅ Sector selected: ${sectorLabel || session.searchParams.company_sector || 'Not specified'}
 
 🏭 Now, select the company type:`;
     
     const keyboard = {
-      inline_keyboard: [
-        [{ text: '🚀 Startup', callback_data: 'type_startup' }],
-        [{ text: '🏢 SME (Small-Medium Enterprise)', callback_data: 'type_SME' }],
-        [{ text: '🏛️ Enterprise', callback_data: 'type_enterprise' }],
-        [{ text: '🦄 Unicorn', callback_data: 'type_unicorn' }],
-        [{ text: '📈 Public Company', callback_data: 'type_public' }],
-        [{ text: '⏭️ Skip Company Type', callback_data: 'type_skip' }]
-      ]
+      inline_keyboard: this.taxonomyKeyboard(this.taxonomy.companyTypes(), 'type_', '⏭️ Skip Company Type')
     };
     
     await this.bot.sendMessage(chatId, message, { reply_markup: keyboard });
@@ -233,19 +293,13 @@ Just type the job title you want to search for:`;
     
     session.step = 'company_size';
     
-    const message = `✅ Company type selected: ${session.searchParams.company_type || 'Not specified'}
+    const typeLabel = session.searchParams.company_type && this.taxonomy.resolve('company_types', session.searchParams.company_type)?.label;
+    const message = `✅ Company type selected: ${typeLabel || session.searchParams.company_type || 'Not specified'}
 
 👥 Now, select the company size:`;
     
     const keyboard = {
-      inline_keyboard: [
-        [{ text: '🤏 1-10 employees', callback_data: 'size_1-10' }],
-        [{ text: '👥 11-50 employees', callback_data: 'size_11-50' }],
-        [{ text: '👨‍👩‍👧‍👦 51-200 employees', callback_data: 'size_51-200' }],
-        [{ text: '🏢 201-1000 employees', callback_data: 'size_201-1000' }],
-        [{ text: '🏭 1000+ employees', callback_data: 'size_1000+' }],
-        [{ text: '⏭️ Skip Company Size', callback_data: 'size_skip' }]
-      ]
+      inline_keyboard: this.taxonomyKeyboard(this.taxonomy.companySizes(), 'size_', '⏭️ Skip Company Size')
     };
     
     await this.bot.sendMessage(chatId, message, { reply_markup: keyboard });
@@ -264,18 +318,18 @@ Just type the job title you want to search for:`;
 
 🔍 Finally, choose your search method:`;
     
+    // One button per configured search provider
     const keyboard = {
-      inline_keyboard: [
-        [{ text: '🔍 Google Search (Free)', callback_data: 'method_google' }],
-        [{ text: '⚡ SerpAPI (Premium)', callback_data: 'method_serpapi' }]
-      ]
+      inline_keyboard: this.searchProviders.configured().map(provider => [
+        { text: `🔍 ${provider.label}`, callback_data: `method_${provider.name}` }
+      ])
     };
     
     await this.bot.sendMessage(chatId, message, { reply_markup: keyboard });
   }
 
   private async handleSearchMethodSelection(chatId: number, data: string, session: UserSession) {
-    const method = data.replace('method_', '') as 'google' | 'serpapi';
+    const method = data.replace('method_', '');
     session.searchParams.search_method = method;
     session.step = 'searching';
     
@@ -287,50 +341,42 @@ Just type the job title you want to search for:`;
     await this.performSearch(chatId, session);
   }
 
-  private generateSearchSummary(params: any): string {
+  private generateSearchSummary(params: UserSession['searchParams']): string {
     let summary = '📋 Search Criteria:\n';
     summary += `💼 Job Title: ${params.job_title || 'Not specified'}\n`;
     summary += `🌍 Region: ${params.region || 'Not specified'}\n`;
     summary += `🏢 Sector: ${params.company_sector || 'Not specified'}\n`;
     summary += `🏭 Company Type: ${params.company_type || 'Not specified'}\n`;
     summary += `👥 Company Size: ${params.company_size || 'Not specified'}\n`;
-    summary += `🔍 Search Method: ${params.search_method === 'google' ? 'Google Search' : 'SerpAPI'}`;
+    if (params.company) {
+      summary += `🎯 Company: ${params.company}\n`;
+    }
+    summary += `🔍 Search Method: ${this.searchProviders.get(params.search_method)?.label || 'Not specified'}`;
     return summary;
   }
 
+  // Runs through the same pipeline as the API, so bot searches are
+  // validated, budgeted, merged and stored the same way
   private async performSearch(chatId: number, session: UserSession) {
     try {
-      const { job_title, region, company_sector, company_type, search_method } = session.searchParams;
+      const { job_title, region, company_sector, company_type, company_size, search_method } = session.searchParams;
       
       if (!job_title) {
         await this.bot.sendMessage(chatId, '❌ Job title is required for search. Please use /start to begin again.');
         return;
       }
       
-      let searchResponse;
-      let profiles;
-      
-      if (search_method === 'google') {
-        searchResponse = await this.searchService.searchProfiles(
-          job_title,
-          region,
-          company_sector,
-          company_type,
-          undefined,
-          true
-        );
-        profiles = this.profileExtractor.extractProfiles(searchResponse, `${job_title} ${region} ${company_sector} ${company_type}`);
-      } else {
-        searchResponse = await this.serpApiService.searchProfiles(
-          job_title,
-          region,
-          company_sector,
-          company_type,
-          undefined,
-          true
-        );
-        profiles = this.profileExtractor.extractProfilesFromSerpApi(searchResponse, `${job_title} ${region} ${company_sector} ${company_type}`);
-      }
+      // Typing a family name like "CFO" searches the whole family; "Europe"
+      // searches European countries and keeps profiles located there
+      const prepared = this.searchPipeline.prepare({
+        job_title,
+        region,
+        company_sector,
+        company_type,
+        company_size,
+        get_all_pages: true
+      }, search_method);
+      const { profiles } = await this.searchPipeline.run(prepared);
       
       session.results = profiles;
       session.step = 'results';
@@ -357,69 +403,222 @@ Just type the job title you want to search for:`;
       
     } catch (error) {
       console.error('Search error:', error);
+      if (error instanceof QuotaExceededError) {
+        await this.bot.sendMessage(chatId, `❌ The ${error.period} request budget for this search method is used up. Please pick another search method with /start or try again later.`);
+        return;
+      }
+      if (error instanceof ProviderUnavailableError) {
+        await this.bot.sendMessage(chatId, '❌ The selected search method is not available. Please use /start to begin again.');
+        return;
+      }
+      if (error instanceof ValidationError) {
+        await this.bot.sendMessage(chatId, `❌ ${error.message}. Please use /start to begin again.`);
+        return;
+      }
       await this.bot.sendMessage(chatId, '❌ An error occurred during the search. Please try again later or contact support.');
     }
   }
 
-  private formatTopResults(profiles: any[]): string {
+  // "Acme acme.com; Globex" -> Acme with its domain, and Globex
+  private parseCompanies(text: string): { company: string; domain?: string }[] {
+    return text.split(/[;\n]/).map(entry => entry.trim()).filter(Boolean).map(entry => {
+      const words = entry.split(/\s+/);
+      const last = words[words.length - 1];
+      if (words.length > 1 && /^(https?:\/\/)?[\w-]+(\.[\w-]+)+(\/\S*)?$/i.test(last)) {
+        return { company: words.slice(0, -1).join(' '), domain: last };
+      }
+      return { company: entry };
+    });
+  }
+
+  private async handleCompanySearch(chatId: number, text?: string) {
+    const entries = text ? this.parseCompanies(text) : [];
+    if (entries.length === 0) {
+      await this.bot.sendMessage(chatId, '🎯 Tell me which company to search, e.g.\n/company Acme acme.com\n\nSeparate several companies with ";".');
+      return;
+    }
+    if (entries.length > MAX_BOT_COMPANIES) {
+      await this.bot.sendMessage(chatId, `❌ Please search at most ${MAX_BOT_COMPANIES} companies at once.`);
+      return;
+    }
+
+    if (!this.searchProviders.get()?.isConfigured()) {
+      await this.bot.sendMessage(chatId, '❌ No search method is available right now. Please try again later.');
+      return;
+    }
+
+    const family = this.titleCatalog.resolve({});
+    await this.bot.sendMessage(chatId, `⏳ Looking for the ${family.label} of ${entries.map(entry => entry.company).join(', ')}...`);
+
+    const lines: string[] = [];
+    const found: CompanyProfile[] = [];
+    for (const entry of entries) {
+      try {
+        // Stored like the API's company-targeted searches
+        const prepared = this.searchPipeline.prepare({
+          company: entry.company,
+          company_domain: entry.domain,
+          num_results: COMPANY_SEARCH_RESULTS
+        });
+        const target = prepared.company!;
+        const { profiles } = await this.searchPipeline.run(prepared);
+        found.push(...profiles.map(profile => ({ ...profile, search_company: target.name })));
+
+        const best = profiles[0];
+        lines.push(best
+          ? `🏢 ${target.name}: **${best.name}**\n   ${best.title}${best.company ? ` at ${best.company}` : ''}\n   🔗 ${best.linkedin_url}`
+          : `🏢 ${target.name}: no ${family.label} found`);
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          lines.push(`❌ ${entry.company}: ${error.message}`);
+          continue;
+        }
+        console.error('Company search error:', error);
+        if (error instanceof QuotaExceededError) {
+          lines.push(`❌ ${entry.company}: the ${error.period} request budget is used up`);
+          break;
+        }
+        lines.push(`❌ ${entry.company}: the search failed`);
+      }
+    }
+
+    await this.bot.sendMessage(chatId, `✅ Company search completed!\n\n${lines.join('\n\n')}`);
+
+    if (found.length > 0) {
+      await this.generateAndSendCSV(chatId, found, {
+        job_title: family.label,
+        company: entries.length === 1 ? found[0].search_company : undefined
+      });
+    }
+  }
+
+  private async handleBatch(chatId: number, batchId?: string) {
+    if (batchId) {
+      const batch = await this.batchRunner.get(batchId);
+      await this.bot.sendMessage(chatId, batch ? this.formatBatchStatus(batch) : '❌ Batch not found.');
+      return;
+    }
+
+    const session = this.userSessions.get(chatId) || { chatId, step: 'batch_upload', searchParams: {} };
+    session.step = 'batch_upload';
+    this.userSessions.set(chatId, session);
+
+    await this.bot.sendMessage(chatId, `📦 Send me a CSV file with one search per row and the search fields as header, for example:
+
+region,company_sector,title_family
+Germany,fintech,cto
+France,healthtech,cto
+
+Columns: job_title, titles, title_family, company, company_domain, region, company_sector, company_type, company_size, languages, num_results, min_confidence, only_new, provider`);
+  }
+
+  private async handleBatchUpload(msg: Message) {
+    const chatId = msg.chat.id;
+    const document = msg.document!;
+
+    const session = this.userSessions.get(chatId);
+    if (session?.step === 'batch_upload') {
+      this.userSessions.delete(chatId);
+    }
+
+    if (!/\.csv$/i.test(document.file_name || '') && document.mime_type !== 'text/csv') {
+      await this.bot.sendMessage(chatId, '❌ Please send the batch as a .csv file.');
+      return;
+    }
+    if ((document.file_size || 0) > MAX_BATCH_FILE_BYTES) {
+      await this.bot.sendMessage(chatId, '❌ The CSV file is too large, please split it into smaller batches.');
+      return;
+    }
+
+    try {
+      const response = await fetch(await this.bot.getFileLink(document.file_id), {
+        signal: AbortSignal.timeout(BATCH_DOWNLOAD_TIMEOUT_MS)
+      });
+      if (!response.ok) {
+        throw new Error(`Couldn't download the CSV file from Telegram (HTTP ${response.status}), please send it again.`);
+      }
+      const requests = batchRowsFromCsv(await response.text());
+
+      // One status message, edited as rows finish
+      const status = await this.bot.sendMessage(chatId, `📦 Starting a batch of ${requests.length} searches...`);
+      const batch = await this.batchRunner.submit(requests, undefined, async (updated) => {
+        await this.bot.editMessageText(this.formatBatchStatus(updated), {
+          chat_id: chatId,
+          message_id: status.message_id
+        }).catch(() => undefined);
+
+        if (FINISHED_BATCH.includes(updated.status)) {
+          await this.sendBatchResults(chatId, updated);
+        }
+      });
+      await this.bot.editMessageText(this.formatBatchStatus(batch), {
+        chat_id: chatId,
+        message_id: status.message_id
+      }).catch(() => undefined);
+    } catch (error) {
+      console.error('Batch upload error:', error);
+      const message = (error as Error).name === 'TimeoutError'
+        ? 'Downloading the CSV file timed out, please send it again.'
+        : (error as Error).message;
+      await this.bot.sendMessage(chatId, `❌ ${message}`);
+    }
+  }
+
+  private async sendBatchResults(chatId: number, batch: SearchBatch) {
+    if (batch.profiles.length === 0) {
+      await this.bot.sendMessage(chatId, '❌ The batch finished without finding any profiles.');
+      return;
+    }
+
+    // The file is deleted once it's sent
+    const chunks = batchResults(batch, { format: 'csv' });
+    await withExportFile(chunks, `batch-${batch.id.slice(0, 8)}-results.csv`, filepath =>
+      this.bot.sendDocument(chatId, filepath, {
+        caption: `📊 Combined batch results (${batch.profiles.length} profiles, duplicates removed)`
+      })
+    );
+  }
+
+  private formatBatchStatus(batch: SearchBatch): string {
+    const done = batch.rows.filter(row => !['queued', 'running'].includes(row.status)).length;
+    const lines = batch.rows.slice(0, MAX_STATUS_ROWS).map(row => {
+      const { request } = row;
+      const criteria = [request.job_title || request.title_family || (request.titles || []).join('/'), request.company, request.region, request.company_sector, request.company_type, request.company_size]
+        .filter(Boolean).join(' · ') || 'all profiles';
+      const result = row.status === 'completed'
+        ? ` - ${row.profiles_found} found, ${row.new_profiles} new`
+        : row.error ? ` - ${row.error}` : '';
+      return `${ROW_STATUS_EMOJI[row.status]} ${row.row}. ${criteria}${result}`;
+    });
+    if (batch.rows.length > MAX_STATUS_ROWS) {
+      lines.push(`… and ${batch.rows.length - MAX_STATUS_ROWS} more rows`);
+    }
+
+    return `📦 Batch ${batch.id} (${batch.status})
+${done}/${batch.rows.length} rows done, ${batch.profiles.length} unique profiles
+
+${lines.join('\n')}`;
+  }
+
+  private formatTopResults(profiles: MergedProfile[]): string {
     return profiles.map((profile, index) => {
       return `${index + 1}. **${profile.name}**\n   ${profile.title} at ${profile.company}\n   🔗 ${profile.linkedin_url}\n`;
     }).join('\n');
   }
 
-  private async generateAndSendCSV(chatId: number, profiles: any[], searchParams: any) {
+  private async generateAndSendCSV(chatId: number, profiles: MergedProfile[], searchParams: UserSession['searchParams']) {
     try {
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
       const jobTitleForFilename = (searchParams.job_title || 'executive').toLowerCase().replace(/[^a-z0-9]/g, '-');
       const filename = `${jobTitleForFilename}-search-results-${timestamp}.csv`;
-      const filepath = path.join(process.cwd(), 'temp', filename);
-      
-      // Ensure temp directory exists
-      const tempDir = path.join(process.cwd(), 'temp');
-      if (!fs.existsSync(tempDir)) {
-        fs.mkdirSync(tempDir, { recursive: true });
-      }
-      
-      const csvWriter = createObjectCsvWriter({
-        path: filepath,
-        header: [
-          { id: 'name', title: 'Name' },
-          { id: 'title', title: 'Job Title' },
-          { id: 'company', title: 'Company' },
-          { id: 'linkedin_url', title: 'LinkedIn URL' },
-          { id: 'location', title: 'Location' },
-          { id: 'confidence_score', title: 'Confidence Score' },
-          { id: 'snippet', title: 'Description' },
-          { id: 'search_region', title: 'Search Region' },
-          { id: 'search_sector', title: 'Search Sector' },
-          { id: 'search_company_type', title: 'Search Company Type' },
-          { id: 'search_company_size', title: 'Search Company Size' }
-        ]
-      });
-      
-      // Add search parameters to each record
-      const recordsWithSearchParams = profiles.map(profile => ({
-        ...profile,
-        search_region: searchParams.region || 'Not specified',
-        search_sector: searchParams.company_sector || 'Not specified',
-        search_company_type: searchParams.company_type || 'Not specified',
-        search_company_size: searchParams.company_size || 'Not specified'
-      }));
-      
-      await csvWriter.writeRecords(recordsWithSearchParams);
-      
-      // Send the CSV file
-      await this.bot.sendDocument(chatId, filepath, {
-        caption: `📊 Your ${searchParams.job_title || 'executive'} search results (${profiles.length} profiles)\n\n🔍 Search criteria:\n${this.generateSearchSummary(searchParams)}`
-      });
-      
-      // Clean up the temporary file
-      setTimeout(() => {
-        if (fs.existsSync(filepath)) {
-          fs.unlinkSync(filepath);
-        }
-      }, 60000); // Delete after 1 minute
-      
+      const chunks = exportProfiles(profiles, { format: 'csv', criteria: searchParams });
+
+      // The file is deleted once it's sent
+      await withExportFile(chunks, filename, filepath =>
+        this.bot.sendDocument(chatId, filepath, {
+          caption: `📊 Your ${searchParams.job_title || 'executive'} search results (${profiles.length} profiles)\n\n🔍 Search criteria:\n${this.generateSearchSummary(searchParams)}`
+        })
+      );
     } catch (error) {
       console.error('CSV generation error:', error);
       await this.bot.sendMessage(chatId, '❌ Failed to generate CSV file. The search results are still available above.');
@@ -0,0 +1,116 @@
+import { ValidationError } from "./api-errors.js";
+import { parseJsonFile, v } from "./validation.js";
+
+// Types and Interfaces
+interface TitleFamily {
+  name: string;
+  label: string;
+  // Titles OR-ed together in the search query and matched by the extractor
+  titles: string[];
+  // Titles that mark an exact hit for the family and score higher
+  primary_titles: string[];
+}
+
+// An entry of the title families file, keyed by family name
+interface TitleFamilyEntry {
+  label?: string;
+  titles: string[];
+  primary_titles?: string[];
+}
+
+interface TitleSelection {
+  job_title?: string;
+  titles?: string[];
+  title_family?: string;
+}
+
+const DEFAULT_FAMILY = "cto";
+
+const titleList = () => v.array(v.string().min(1)).min(1);
+
+const TITLE_FAMILIES_FILE = v.record(
+  v.object<TitleFamilyEntry>({
+    label: v.string().optional(),
+    titles: titleList(),
+    primary_titles: titleList().optional(),
+  })
+);
+
+// Job title families loaded from a JSON file, so new families can be added
+// without touching the search services or the extractor
+class TitleCatalog {
+  private families: Map<string, TitleFamily> = new Map();
+
+  constructor(filePath: string) {
+    const families = parseJsonFile(filePath, TITLE_FAMILIES_FILE);
+
+    for (const [name, entry] of Object.entries(families)) {
+      this.families.set(name.toLowerCase(), {
+        name: name.toLowerCase(),
+        label: entry.label || name,
+        titles: entry.titles,
+        primary_titles: entry.primary_titles || [entry.titles[0]],
+      });
+    }
+
+    if (!this.families.has(DEFAULT_FAMILY)) {
+      throw new Error(`${filePath} must define the "${DEFAULT_FAMILY}" family`);
+    }
+  }
+
+  get(name: string): TitleFamily | undefined {
+    return this.families.get(name.toLowerCase());
+  }
+
+  names(): string[] {
+    return [...this.families.keys()];
+  }
+
+  list(): TitleFamily[] {
+    return [...this.families.values()];
+  }
+
+  // Turn a request's job_title / titles / title_family into the family to
+  // search for. Free-form titles become an ad-hoc family.
+  resolve(selection: TitleSelection): TitleFamily {
+    if (selection.title_family) {
+      const family = this.get(selection.title_family);
+      if (!family) {
+        throw new ValidationError(
+          `Unknown title family: ${selection.title_family}. Available families: ${this.names().join(", ")}`,
+          [{ path: "title_family", message: "is not a known title family" }]
+        );
+      }
+      return family;
+    }
+
+    if (selection.titles && selection.titles.length > 0) {
+      return {
+        name: "custom",
+        label: selection.titles.join(" / "),
+        titles: selection.titles,
+        primary_titles: selection.titles,
+      };
+    }
+
+    if (selection.job_title) {
+      // "CFO" or "head of product" typed as a job title selects the family
+      const familyName = selection.job_title.trim().toLowerCase().replace(/\s+/g, "_");
+      const family = this.get(familyName);
+      if (family) {
+        return family;
+      }
+
+      return {
+        name: "custom",
+        label: selection.job_title,
+        titles: [selection.job_title],
+        primary_titles: [selection.job_title],
+      };
+    }
+
+    return this.get(DEFAULT_FAMILY)!;
+  }
+}
+
+export { TitleCatalog, TitleFamily, TitleSelection };
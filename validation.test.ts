@@ -0,0 +1,37 @@
+import { describe, expect, test } from "bun:test";
+import { ValidationError } from "./api-errors.js";
+import { v } from "./validation.js";
+
+const schema = v.object<{ name: string; limit?: number }>({
+  name: v.string(),
+  limit: v.integer().min(1).optional(),
+});
+
+function issues(value: unknown): unknown {
+  try {
+    schema.parse(value);
+  } catch (error) {
+    return (error as ValidationError).details;
+  }
+  return [];
+}
+
+describe("v.object", () => {
+  test("reports fields named like Object.prototype members as unknown", () => {
+    const input = JSON.parse('{"name": "cto", "constructor": 1, "toString": "x", "__proto__": {}}');
+
+    expect(issues(input)).toEqual([
+      { path: "constructor", message: "is not a known field" },
+      { path: "toString", message: "is not a known field" },
+      { path: "__proto__", message: "is not a known field" },
+    ]);
+  });
+
+  test("reports every problem of a value at once", () => {
+    expect(issues({ limit: 0, extra: true })).toEqual([
+      { path: "extra", message: "is not a known field" },
+      { path: "name", message: "is required" },
+      { path: "limit", message: expect.any(String) },
+    ]);
+  });
+});
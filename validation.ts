@@ -0,0 +1,599 @@
+import fs from "fs";
+import { ValidationError, ValidationIssue } from "./api-errors.js";
+
+// Types and Interfaces
+// A JSON Schema (2020-12) fragment, as used by OpenAPI 3.1
+type JsonSchema = Record<string, unknown>;
+
+// Named schemas collected while generating JSON Schema, referenced as
+// #/components/schemas/<name>
+type SchemaComponents = Record<string, JsonSchema>;
+
+interface ParseOptions {
+  // Query string values are strings: read "10" as a number, "true" as a
+  // boolean and "a,b" as a list
+  coerce?: boolean;
+}
+
+// A small schema: checks a value, collects what's wrong with it and
+// describes itself as JSON Schema. Invalid input never throws halfway, so
+// every problem of a request is reported at once.
+abstract class Schema<T> {
+  protected description?: string;
+  protected name?: string;
+
+  abstract check(
+    value: unknown,
+    path: string,
+    issues: ValidationIssue[],
+    options: ParseOptions
+  ): T | undefined;
+
+  protected abstract schema(components?: SchemaComponents): JsonSchema;
+
+  // Throws a ValidationError listing every issue
+  parse(value: unknown, options: ParseOptions = {}): T {
+    const issues: ValidationIssue[] = [];
+    const result = this.check(value, "", issues, options);
+    if (issues.length > 0) {
+      throw new ValidationError(
+        issues
+          .map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message))
+          .join("; "),
+        issues
+      );
+    }
+    return result as T;
+  }
+
+  optional(): Schema<T | undefined> {
+    return new OptionalSchema(this);
+  }
+
+  nullable(): Schema<T | null> {
+    return new NullableSchema(this);
+  }
+
+  describe(description: string): this {
+    this.description = description;
+    return this;
+  }
+
+  // Generate this schema as a named component, e.g. "SearchRequest"
+  named(name: string): this {
+    this.name = name;
+    return this;
+  }
+
+  isOptional(): boolean {
+    return false;
+  }
+
+  // Inline JSON Schema, or a $ref for named schemas when components are
+  // being collected
+  toJsonSchema(components?: SchemaComponents): JsonSchema {
+    if (this.name && components) {
+      if (!(this.name in components)) {
+        // Reserve the name first, so recursive references terminate
+        components[this.name] = {};
+        components[this.name] = this.describedSchema(components);
+      }
+      return { $ref: `#/components/schemas/${this.name}` };
+    }
+    return this.describedSchema(components);
+  }
+
+  private describedSchema(components?: SchemaComponents): JsonSchema {
+    const schema = this.schema(components);
+    return this.description ? { ...schema, description: this.description } : schema;
+  }
+}
+
+function typeName(value: unknown): string {
+  if (value === null) return "null";
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+function joinPath(path: string, key: string | number): string {
+  return typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+}
+
+class StringSchema<T extends string = string> extends Schema<T> {
+  private rules: {
+    min?: number;
+    max?: number;
+    pattern?: RegExp;
+    values?: readonly T[];
+    format?: string;
+  } = {};
+
+  min(length: number): this {
+    this.rules.min = length;
+    return this;
+  }
+
+  max(length: number): this {
+    this.rules.max = length;
+    return this;
+  }
+
+  pattern(pattern: RegExp, format?: string): this {
+    this.rules.pattern = pattern;
+    this.rules.format = format;
+    return this;
+  }
+
+  values<V extends string>(values: readonly V[]): StringSchema<V> {
+    const schema = this as unknown as StringSchema<V>;
+    schema.rules.values = values;
+    return schema;
+  }
+
+  check(value: unknown, path: string, issues: ValidationIssue[]): T | undefined {
+    if (typeof value !== "string") {
+      issues.push({ path, message: `must be a string, got ${typeName(value)}` });
+      return undefined;
+    }
+
+    const { min, max, pattern, values } = this.rules;
+    const text = value.trim();
+    if (min !== undefined && text.length < min) {
+      issues.push({
+        path,
+        message: min === 1 ? "must not be empty" : `must be at least ${min} characters`,
+      });
+    } else if (max !== undefined && text.length > max) {
+      issues.push({ path, message: `must be at most ${max} characters` });
+    } else if (pattern && !pattern.test(text)) {
+      issues.push({ path, message: `must be a valid ${this.rules.format || "value"}` });
+    } else if (values && !values.includes(text as T)) {
+      issues.push({ path, message: `must be one of: ${values.join(", ")}` });
+    }
+    return text as T;
+  }
+
+  protected schema(): JsonSchema {
+    const { min, max, values, format } = this.rules;
+    return {
+      type: "string",
+      ...(min !== undefined && { minLength: min }),
+      ...(max !== undefined && { maxLength: max }),
+      ...(values && { enum: [...values] }),
+      ...(format && { format }),
+    };
+  }
+}
+
+class NumberSchema extends Schema<number> {
+  private rules: { min?: number; max?: number; integer?: boolean } = {};
+
+  constructor(integer: boolean = false) {
+    super();
+    this.rules.integer = integer;
+  }
+
+  min(value: number): this {
+    this.rules.min = value;
+    return this;
+  }
+
+  max(value: number): this {
+    this.rules.max = value;
+    return this;
+  }
+
+  check(
+    value: unknown,
+    path: string,
+    issues: ValidationIssue[],
+    options: ParseOptions
+  ): number | undefined {
+    const number =
+      options.coerce && typeof value === "string" && value.trim() !== ""
+        ? Number(value)
+        : value;
+    const { min, max, integer } = this.rules;
+    const kind = integer ? "an integer" : "a number";
+
+    if (typeof number !== "number" || Number.isNaN(number)) {
+      issues.push({ path, message: `must be ${kind}, got ${JSON.stringify(value)}` });
+      return undefined;
+    }
+    if (integer && !Number.isInteger(number)) {
+      issues.push({ path, message: `must be ${kind}` });
+    } else if (min !== undefined && number < min) {
+      issues.push({ path, message: `must be at least ${min}` });
+    } else if (max !== undefined && number > max) {
+      issues.push({ path, message: `must be at most ${max}` });
+    }
+    return number;
+  }
+
+  protected schema(): JsonSchema {
+    const { min, max, integer } = this.rules;
+    return {
+      type: integer ? "integer" : "number",
+      ...(min !== undefined && { minimum: min }),
+      ...(max !== undefined && { maximum: max }),
+    };
+  }
+}
+
+class BooleanSchema extends Schema<boolean> {
+  check(
+    value: unknown,
+    path: string,
+    issues: ValidationIssue[],
+    options: ParseOptions
+  ): boolean | undefined {
+    if (options.coerce && (value === "true" || value === "false")) {
+      return value === "true";
+    }
+    if (typeof value !== "boolean") {
+      issues.push({ path, message: `must be true or false, got ${JSON.stringify(value)}` });
+      return undefined;
+    }
+    return value;
+  }
+
+  protected schema(): JsonSchema {
+    return { type: "boolean" };
+  }
+}
+
+class ArraySchema<T> extends Schema<T[]> {
+  private item: Schema<T>;
+  private rules: { min?: number; max?: number } = {};
+
+  constructor(item: Schema<T>) {
+    super();
+    this.item = item;
+  }
+
+  min(length: number): this {
+    this.rules.min = length;
+    return this;
+  }
+
+  max(length: number): this {
+    this.rules.max = length;
+    return this;
+  }
+
+  check(
+    value: unknown,
+    path: string,
+    issues: ValidationIssue[],
+    options: ParseOptions
+  ): T[] | undefined {
+    // "a, b" in a query string is the list ["a", "b"]
+    const list =
+      options.coerce && typeof value === "string"
+        ? value.split(",").map((item) => item.trim()).filter(Boolean)
+        : value;
+    if (!Array.isArray(list)) {
+      issues.push({ path, message: `must be a list, got ${typeName(value)}` });
+      return undefined;
+    }
+
+    const { min, max } = this.rules;
+    if (min !== undefined && list.length < min) {
+      issues.push({
+        path,
+        message: min === 1 ? "must not be empty" : `must have at least ${min} items`,
+      });
+    } else if (max !== undefined && list.length > max) {
+      issues.push({ path, message: `must have at most ${max} items` });
+    }
+
+    return list.map(
+      (item, index) => this.item.check(item, joinPath(path, index), issues, options) as T
+    );
+  }
+
+  protected schema(components?: SchemaComponents): JsonSchema {
+    const { min, max } = this.rules;
+    return {
+      type: "array",
+      items: this.item.toJsonSchema(components),
+      ...(min !== undefined && { minItems: min }),
+      ...(max !== undefined && { maxItems: max }),
+    };
+  }
+}
+
+type Shape = Record<string, Schema<unknown>>;
+
+// Objects with a fixed set of fields. Unknown fields are reported, so a
+// misspelt "num_result" doesn't silently fall back to the default.
+class ObjectSchema<T> extends Schema<T> {
+  readonly shape: Shape;
+  private strict: boolean;
+
+  constructor(shape: Shape, strict: boolean = true) {
+    super();
+    this.shape = shape;
+    this.strict = strict;
+  }
+
+  // Same fields plus more, e.g. a job is a search request with a callback
+  extend<U>(shape: Shape): ObjectSchema<U> {
+    return new ObjectSchema<U>({ ...this.shape, ...shape }, this.strict);
+  }
+
+  // Same fields without some, e.g. a batch's shared fields without the company
+  omit<U>(...keys: string[]): ObjectSchema<U> {
+    return new ObjectSchema<U>(
+      Object.fromEntries(Object.entries(this.shape).filter(([key]) => !keys.includes(key))),
+      this.strict
+    );
+  }
+
+  // Every field optional, e.g. profiles reduced to the requested fields
+  partial<U = Partial<T>>(): ObjectSchema<U> {
+    return new ObjectSchema<U>(
+      Object.fromEntries(
+        Object.entries(this.shape).map(([key, schema]) => [
+          key,
+          schema.isOptional() ? schema : schema.optional(),
+        ])
+      ),
+      this.strict
+    );
+  }
+
+  // Ignore unknown fields instead of reporting them. Query strings also
+  // carry api_key and cache busters.
+  loose(): ObjectSchema<T> {
+    return new ObjectSchema<T>(this.shape, false);
+  }
+
+  check(
+    value: unknown,
+    path: string,
+    issues: ValidationIssue[],
+    options: ParseOptions
+  ): T | undefined {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      issues.push({
+        path,
+        message: `must be an object, got ${typeName(value)}`,
+      });
+      return undefined;
+    }
+
+    const input = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(input)) {
+      if (this.strict && !Object.hasOwn(this.shape, key)) {
+        issues.push({ path: joinPath(path, key), message: "is not a known field" });
+      }
+    }
+    for (const [key, schema] of Object.entries(this.shape)) {
+      if (input[key] === undefined && !schema.isOptional()) {
+        issues.push({ path: joinPath(path, key), message: "is required" });
+        continue;
+      }
+      const checked = schema.check(input[key], joinPath(path, key), issues, options);
+      if (checked !== undefined) {
+        result[key] = checked;
+      }
+    }
+    return result as T;
+  }
+
+  protected schema(components?: SchemaComponents): JsonSchema {
+    const required = Object.entries(this.shape)
+      .filter(([, schema]) => !schema.isOptional())
+      .map(([key]) => key);
+    return {
+      type: "object",
+      properties: Object.fromEntries(
+        Object.entries(this.shape).map(([key, schema]) => [key, schema.toJsonSchema(components)])
+      ),
+      ...(required.length > 0 && { required }),
+      ...(this.strict && { additionalProperties: false }),
+    };
+  }
+}
+
+// Objects with any keys and values of one schema, e.g. translations per
+// language code
+class RecordSchema<T> extends Schema<Record<string, T>> {
+  private value: Schema<T>;
+
+  constructor(value: Schema<T>) {
+    super();
+    this.value = value;
+  }
+
+  check(
+    value: unknown,
+    path: string,
+    issues: ValidationIssue[],
+    options: ParseOptions
+  ): Record<string, T> | undefined {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      issues.push({ path, message: `must be an object, got ${typeName(value)}` });
+      return undefined;
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        this.value.check(item, joinPath(path, key), issues, options) as T,
+      ])
+    );
+  }
+
+  protected schema(components?: SchemaComponents): JsonSchema {
+    return { type: "object", additionalProperties: this.value.toJsonSchema(components) };
+  }
+}
+
+// Any value, checked later, e.g. batch rows that are validated one by one
+class UnknownSchema extends Schema<unknown> {
+  check(value: unknown): unknown {
+    return value;
+  }
+
+  protected schema(): JsonSchema {
+    return {};
+  }
+}
+
+// The first of several schemas the value matches
+class UnionSchema<T> extends Schema<T> {
+  private options: Schema<T>[];
+
+  constructor(options: Schema<T>[]) {
+    super();
+    this.options = options;
+  }
+
+  check(
+    value: unknown,
+    path: string,
+    issues: ValidationIssue[],
+    options: ParseOptions
+  ): T | undefined {
+    // Report the issues of the closest option: one whose type matched, so
+    // its issues are about the value's fields rather than the value itself
+    const distance = (attempt: ValidationIssue[]) =>
+      attempt.filter((issue) => issue.path === path).length * 1000 + attempt.length;
+
+    let closest: ValidationIssue[] | null = null;
+    for (const schema of this.options) {
+      const attempt: ValidationIssue[] = [];
+      const result = schema.check(value, path, attempt, options);
+      if (attempt.length === 0) {
+        return result;
+      }
+      if (!closest || distance(attempt) < distance(closest)) {
+        closest = attempt;
+      }
+    }
+    issues.push(...(closest || []));
+    return undefined;
+  }
+
+  protected schema(components?: SchemaComponents): JsonSchema {
+    return { anyOf: this.options.map((schema) => schema.toJsonSchema(components)) };
+  }
+}
+
+class OptionalSchema<T> extends Schema<T | undefined> {
+  private inner: Schema<T>;
+
+  constructor(inner: Schema<T>) {
+    super();
+    this.inner = inner;
+  }
+
+  check(
+    value: unknown,
+    path: string,
+    issues: ValidationIssue[],
+    options: ParseOptions
+  ): T | undefined {
+    // An empty query parameter ("?region=") counts as not given
+    if (value === undefined || (options.coerce && value === "")) {
+      return undefined;
+    }
+    return this.inner.check(value, path, issues, options);
+  }
+
+  isOptional(): boolean {
+    return true;
+  }
+
+  protected schema(components?: SchemaComponents): JsonSchema {
+    return this.inner.toJsonSchema(components);
+  }
+}
+
+class NullableSchema<T> extends Schema<T | null> {
+  private inner: Schema<T>;
+
+  constructor(inner: Schema<T>) {
+    super();
+    this.inner = inner;
+  }
+
+  check(
+    value: unknown,
+    path: string,
+    issues: ValidationIssue[],
+    options: ParseOptions
+  ): T | null | undefined {
+    return value === null ? null : this.inner.check(value, path, issues, options);
+  }
+
+  isOptional(): boolean {
+    return this.inner.isOptional();
+  }
+
+  protected schema(components?: SchemaComponents): JsonSchema {
+    return { anyOf: [this.inner.toJsonSchema(components), { type: "null" }] };
+  }
+}
+
+// A config file that can't be read, isn't JSON or doesn't match its schema
+class ConfigFileError extends Error {
+  file: string;
+  issues: ValidationIssue[];
+
+  constructor(file: string, issues: ValidationIssue[]) {
+    super(
+      `Invalid ${file}: ${issues
+        .map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message))
+        .join("; ")}`
+    );
+    this.name = "ConfigFileError";
+    this.file = file;
+    this.issues = issues;
+  }
+}
+
+// Read a JSON config file and check it against a schema
+function parseJsonFile<T>(filePath: string, schema: Schema<T>): T {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    throw new ConfigFileError(filePath, [{ path: "", message: (error as Error).message }]);
+  }
+
+  try {
+    return schema.parse(raw);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw new ConfigFileError(filePath, error.details as ValidationIssue[]);
+    }
+    throw error;
+  }
+}
+
+// Schema builders
+const v = {
+  string: () => new StringSchema(),
+  number: () => new NumberSchema(),
+  integer: () => new NumberSchema(true),
+  boolean: () => new BooleanSchema(),
+  unknown: () => new UnknownSchema(),
+  array: <T>(item: Schema<T>) => new ArraySchema(item),
+  object: <T>(shape: Shape) => new ObjectSchema<T>(shape),
+  record: <T>(value: Schema<T>) => new RecordSchema(value),
+  union: <T>(...options: Schema<T>[]) => new UnionSchema<T>(options),
+  enum: <V extends string>(values: readonly V[]) => new StringSchema().values(values),
+};
+
+export {
+  Schema,
+  ObjectSchema,
+  JsonSchema,
+  SchemaComponents,
+  ParseOptions,
+  ConfigFileError,
+  parseJsonFile,
+  v
+};